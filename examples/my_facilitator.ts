@@ -1,22 +1,7 @@
 /* eslint-env node */
 import { config } from "dotenv";
-import express, { Request, Response } from "express";
-import { verify, settle } from "x402-sdk-for-solana/facilitator";
-import {
-  PaymentRequirementsSchema,
-  type PaymentRequirements,
-  type PaymentPayload,
-  PaymentPayloadSchema,
-  createConnectedClient,
-  createSigner,
-  SupportedEVMNetworks,
-  SupportedSVMNetworks,
-  Signer,
-  ConnectedClient,
-  SupportedPaymentKind,
-  isSvmSignerWallet,
-  type X402Config,
-} from "x402-sdk-for-solana/types";
+import { createFacilitatorServer } from "x402-sdk-for-solana/facilitator";
+import { createSigner, type X402Config } from "x402-sdk-for-solana/types";
 
 config();
 
@@ -37,109 +22,11 @@ const x402Config: X402Config | undefined = SVM_RPC_URL
   ? { svmConfig: { rpcUrl: SVM_RPC_URL } }
   : undefined;
 
-const app = express();
-
-// Configure express to parse JSON bodies
-app.use(express.json());
-
-type VerifyRequest = {
-  paymentPayload: PaymentPayload;
-  paymentRequirements: PaymentRequirements;
-};
-
-type SettleRequest = {
-  paymentPayload: PaymentPayload;
-  paymentRequirements: PaymentRequirements;
-};
-
-app.get("/verify", (req: Request, res: Response) => {
-  res.json({
-    endpoint: "/verify",
-    description: "POST to verify x402 payments",
-    body: {
-      paymentPayload: "PaymentPayload",
-      paymentRequirements: "PaymentRequirements",
-    },
-  });
-});
-
-app.post("/verify", async (req: Request, res: Response) => {
-  try {
-    const body: VerifyRequest = req.body;
-    const paymentRequirements = PaymentRequirementsSchema.parse(body.paymentRequirements);
-    const paymentPayload = PaymentPayloadSchema.parse(body.paymentPayload);
-
-    // use the correct client/signer based on the requested network
-    // svm verify requires a Signer because it signs & simulates the txn
-    let client: Signer | ConnectedClient;
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      client = await createSigner(paymentRequirements.network, SVM_PRIVATE_KEY);
-    } else {
-      throw new Error("Invalid network");
-    }
-
-    // verify
-    const valid = await verify(client, paymentPayload, paymentRequirements, x402Config);
-    res.json(valid);
-  } catch (error) {
-    console.error("error", error);
-    res.status(400).json({ error: "Invalid request" });
-  }
-});
-
-app.get("/settle", (req: Request, res: Response) => {
-  res.json({
-    endpoint: "/settle",
-    description: "POST to settle x402 payments",
-    body: {
-      paymentPayload: "PaymentPayload",
-      paymentRequirements: "PaymentRequirements",
-    },
-  });
-});
-
-app.get("/supported", async (req: Request, res: Response) => {
-  let kinds: SupportedPaymentKind[] = [];
-  // svm
-  if (SVM_PRIVATE_KEY) {
-    const signer = await createSigner(SVM_NETWORK, SVM_PRIVATE_KEY);
-    const feePayer = isSvmSignerWallet(signer) ? signer.address : undefined;
-
-    kinds.push({
-      x402Version: 1,
-      scheme: "exact",
-      network: SVM_NETWORK,
-      extra: {
-        feePayer,
-      },
-    });
-  }
-  res.json({
-    kinds,
-  });
-});
-
-app.post("/settle", async (req: Request, res: Response) => {
-  try {
-    const body: SettleRequest = req.body;
-    const paymentRequirements = PaymentRequirementsSchema.parse(body.paymentRequirements);
-    const paymentPayload = PaymentPayloadSchema.parse(body.paymentPayload);
-
-    // use the correct private key based on the requested network
-    let signer: Signer;
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      signer = await createSigner(paymentRequirements.network, SVM_PRIVATE_KEY);
-    } else {
-      throw new Error("Invalid network");
-    }
-
-    // settle
-    const response = await settle(signer, paymentPayload, paymentRequirements, x402Config);
-    res.json(response);
-  } catch (error) {
-    console.error("error", error);
-    res.status(400).json({ error: `Invalid request: ${error}` });
-  }
+const app = await createFacilitatorServer({
+  signers: {
+    [SVM_NETWORK]: await createSigner(SVM_NETWORK, SVM_PRIVATE_KEY),
+  },
+  x402Config,
 });
 
 app.listen(process.env.PORT || 3000, () => {
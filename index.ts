@@ -21,6 +21,9 @@ export type {
   X402Config,
   TokenConfig,
   SvmConfig,
+  EvmConfig,
+  FacilitatorPolicy,
+  PriorityFeeStrategy,
 
   // Network types
   Network,
@@ -37,17 +40,29 @@ export type {
   Resource,
   RouteConfig,
   RoutesConfig,
+  PaymentOption,
+  RequestValue,
+  ResolvedRouteConfig,
   PaymentMiddlewareConfig,
 
   // Middleware types
   FacilitatorConfig,
   PaywallConfig,
+  PaywallTheme,
+  PaywallMessages,
 } from "./lib/x402/types/index.js";
+export type { PaywallOptions, PaywallPaymentOption } from "./lib/x402/shared/paywall.js";
 
 // SVM specific exports
 export { createSvmConnectedClient } from "./lib/x402/shared/svm/wallet.js";
 export type { SvmSigner, SvmConnectedClient } from "./lib/x402/shared/svm/wallet.js";
 export { getRpcClient } from "./lib/x402/shared/svm/rpc.js";
+export { createWalletStandardSigner } from "./lib/x402/shared/svm/walletStandard.js";
+export type {
+  WalletStandardAccount,
+  WalletStandardWallet,
+  SolanaSignTransactionFeature,
+} from "./lib/x402/shared/svm/walletStandard.js";
 
 // Address type from @solana/kit
 export type { Address as SolanaAddress } from "@solana/kit";
@@ -60,9 +75,25 @@ export * as exact from "./lib/x402/schemes/exact/index.js";
 
 // Shared utilities
 export {
+  buildPaymentRequirements,
+  findMatchingPaymentRequirements,
   processPriceToAtomicAmount,
+  resolveRouteConfig,
   getDefaultAsset,
 } from "./lib/x402/shared/middleware.js";
 
+// Decimal amount utilities
+export {
+  normalizeDecimal,
+  compareDecimals,
+  toAtomicAmount,
+  formatAtomicAmount,
+} from "./lib/x402/shared/decimal.js";
+export type { RoundingMode } from "./lib/x402/shared/decimal.js";
+
+// Token registry
+export { tokenRegistry, createTokenRegistry } from "./lib/x402/shared/tokenRegistry.js";
+export type { TokenInfo, TokenRegistry } from "./lib/x402/shared/tokenRegistry.js";
+
 // Version
 export const VERSION = "1.0.0";
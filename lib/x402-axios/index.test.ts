@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createInMemoryPaymentLedger, createPaymentHeader, PaymentLedger } from "../x402/client";
+import { PaymentRequirements } from "../x402/types/verify";
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse, withPaymentInterceptor } from "./index";
+
+vi.mock("../x402/client", async importOriginal => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  createPaymentHeader: vi.fn(),
+}));
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "solana-devnet",
+  payTo: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4",
+  asset: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+  maxAmountRequired: "10000",
+  resource: "https://api.example.com/weather",
+  description: "Weather data",
+  mimeType: "application/json",
+  maxTimeoutSeconds: 60,
+  extra: { feePayer: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd" },
+};
+
+const settleResponse = {
+  success: true,
+  transaction:
+    "5UfDuX7WXYxjng1PYxWbJmPKDsTfLt8yd5yF3tmVJXTBrMS3YNDqBDcHzNvYDvqo9tJrjjm5oRyJG1pjBnQRsTsC",
+  network: "solana-devnet",
+  payer: "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin",
+};
+
+/**
+ * Creates a fake axios instance whose requests are answered by the given adapter, and that rejects
+ * responses with an error status like axios
+ *
+ * @param adapter - Answers the requests of the instance
+ * @returns The fake axios instance
+ */
+function createAxiosInstance(
+  adapter: (config: AxiosRequestConfig) => Promise<Omit<AxiosResponse, "config">>,
+): AxiosInstance {
+  const handlers: Parameters<AxiosInstance["interceptors"]["response"]["use"]>[] = [];
+
+  const instance: AxiosInstance = {
+    interceptors: {
+      response: {
+        use(onFulfilled, onRejected) {
+          return handlers.push([onFulfilled, onRejected]) - 1;
+        },
+      },
+    },
+    async request(config) {
+      const response = { ...(await adapter(config)), config };
+      let result: Promise<AxiosResponse> =
+        response.status >= 400 ? Promise.reject({ config, response }) : Promise.resolve(response);
+      for (const [onFulfilled, onRejected] of handlers) {
+        result = result.then(onFulfilled, onRejected) as Promise<AxiosResponse>;
+      }
+      return result;
+    },
+  };
+  return instance;
+}
+
+describe("withPaymentInterceptor()", () => {
+  const signer = { address: "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin" } as never;
+  let adapter: ReturnType<typeof vi.fn>;
+  let axiosInstance: AxiosInstance;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    adapter = vi.fn();
+    axiosInstance = createAxiosInstance(adapter);
+    vi.mocked(createPaymentHeader).mockResolvedValue("payment-header");
+  });
+
+  it("should return responses that do not require payment", async () => {
+    adapter.mockResolvedValue({ status: 200, data: "free", headers: {} });
+    withPaymentInterceptor(axiosInstance, signer);
+
+    const response = await axiosInstance.request({ url: "https://api.example.com/free" });
+
+    expect(response.data).toBe("free");
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  it("should pay a 402 response and replay the request with the payment header", async () => {
+    const config = { svmConfig: { rpcUrl: "http://localhost:8899" } };
+    adapter
+      .mockResolvedValueOnce({
+        status: 402,
+        data: { x402Version: 1, accepts: [paymentRequirements] },
+        headers: {},
+      })
+      .mockResolvedValueOnce({
+        status: 200,
+        data: "paid",
+        headers: {
+          "x-payment-response": Buffer.from(JSON.stringify(settleResponse)).toString("base64"),
+        },
+      });
+    withPaymentInterceptor(axiosInstance, signer, { config });
+
+    const response = await axiosInstance.request({
+      url: "/weather",
+      baseURL: "https://api.example.com",
+      headers: { Accept: "application/json" },
+    });
+
+    expect(response.data).toBe("paid");
+    expect(createPaymentHeader).toHaveBeenCalledWith(signer, 1, paymentRequirements, config);
+    expect(adapter).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: {
+          Accept: "application/json",
+          "X-PAYMENT": "payment-header",
+          "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+        },
+      }),
+    );
+    expect((response as { paymentResponse?: unknown }).paymentResponse).toEqual(settleResponse);
+  });
+
+  it("should pay a request only once", async () => {
+    adapter.mockResolvedValue({
+      status: 402,
+      data: { x402Version: 1, accepts: [paymentRequirements] },
+      headers: {},
+    });
+    withPaymentInterceptor(axiosInstance, signer);
+
+    await expect(
+      axiosInstance.request({ url: "https://api.example.com/weather" }),
+    ).rejects.toMatchObject({ response: { status: 402 } });
+    expect(createPaymentHeader).toHaveBeenCalledTimes(1);
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject payments that exceed the maximum value", async () => {
+    adapter.mockResolvedValue({
+      status: 402,
+      data: { x402Version: 1, accepts: [paymentRequirements] },
+      headers: {},
+    });
+    withPaymentInterceptor(axiosInstance, signer, { maxValue: 9999n });
+
+    await expect(axiosInstance.request({ url: "https://api.example.com/weather" })).rejects.toThrow(
+      "Payment amount exceeds maximum allowed",
+    );
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  it("should reject payments that exceed the budget before signing them", async () => {
+    adapter.mockResolvedValue({
+      status: 402,
+      data: { x402Version: 1, accepts: [paymentRequirements] },
+      headers: {},
+    });
+    withPaymentInterceptor(axiosInstance, signer, {
+      budget: { rules: [{ network: "solana-devnet", asset: "USDC", perRequest: "0.001" }] },
+    });
+
+    await expect(
+      axiosInstance.request({ url: "https://api.example.com/weather" }),
+    ).rejects.toMatchObject({ name: "PaymentBudgetError", reason: "per_request_limit_exceeded" });
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  describe("budget", () => {
+    let ledger: PaymentLedger;
+
+    beforeEach(() => {
+      ledger = createInMemoryPaymentLedger();
+      withPaymentInterceptor(axiosInstance, signer, {
+        budget: {
+          rules: [{ network: "solana-devnet", asset: "USDC", perRequest: "0.01" }],
+          ledger,
+        },
+      });
+      adapter.mockResolvedValueOnce({
+        status: 402,
+        data: { x402Version: 1, accepts: [paymentRequirements] },
+        headers: {},
+      });
+    });
+
+    it("should keep the payment of a settled request", async () => {
+      const header = Buffer.from(JSON.stringify(settleResponse)).toString("base64");
+      adapter.mockResolvedValueOnce({
+        status: 200,
+        data: "paid",
+        headers: { "x-payment-response": header },
+      });
+
+      await axiosInstance.request({ url: "https://api.example.com/weather" });
+
+      expect(await ledger.getEntries()).toHaveLength(1);
+    });
+
+    it("should release the payment of a failed settlement", async () => {
+      const header = Buffer.from(
+        JSON.stringify({
+          ...settleResponse,
+          success: false,
+          errorReason: "invalid_transaction_state",
+        }),
+      ).toString("base64");
+      adapter.mockResolvedValueOnce({
+        status: 402,
+        data: { x402Version: 1, error: "invalid_transaction_state", accepts: [] },
+        headers: { "x-payment-response": header },
+      });
+
+      await expect(
+        axiosInstance.request({ url: "https://api.example.com/weather" }),
+      ).rejects.toMatchObject({ response: { status: 402 } });
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of an invalid settlement", async () => {
+      adapter.mockResolvedValueOnce({
+        status: 200,
+        data: "paid",
+        headers: { "x-payment-response": "invalid" },
+      });
+
+      await expect(
+        axiosInstance.request({ url: "https://api.example.com/weather" }),
+      ).rejects.toThrow();
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of a response without settlement", async () => {
+      adapter.mockResolvedValueOnce({ status: 200, data: "free", headers: {} });
+
+      await axiosInstance.request({ url: "https://api.example.com/weather" });
+
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of a request that failed", async () => {
+      adapter.mockResolvedValueOnce({ status: 500, data: "error", headers: {} });
+
+      await expect(
+        axiosInstance.request({ url: "https://api.example.com/weather" }),
+      ).rejects.toMatchObject({ response: { status: 500 } });
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of a request that was not answered", async () => {
+      const networkError = new Error("Network Error");
+      adapter.mockRejectedValueOnce(networkError);
+
+      await expect(axiosInstance.request({ url: "https://api.example.com/weather" })).rejects.toBe(
+        networkError,
+      );
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+  });
+});
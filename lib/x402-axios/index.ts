@@ -0,0 +1,270 @@
+import {
+  MultiNetworkSigner,
+  PaymentRequirementsSchema,
+  SettleResponse,
+  Signer,
+  X402Config,
+} from "../x402/types/index.js";
+import {
+  createPaymentBudgetManager,
+  createPaymentHeader,
+  getSignerNetworks,
+  getSignerSchemes,
+  PaymentBudget,
+  PaymentRequirementsSelector,
+  PaymentReservation,
+  selectPaymentRequirements,
+} from "../x402/client/index.js";
+import { decodeXPaymentResponse } from "../x402/shared/index.js";
+
+/**
+ * The subset of the axios request config that the payment interceptor needs
+ */
+export type AxiosRequestConfig = {
+  url?: string;
+  baseURL?: string;
+  headers?: Record<string, unknown>;
+};
+
+/**
+ * The subset of the axios response that the payment interceptor needs
+ */
+export type AxiosResponse = {
+  status: number;
+  data: unknown;
+  headers: Record<string, unknown>;
+  config: AxiosRequestConfig;
+};
+
+/**
+ * The subset of the axios instance that the payment interceptor needs
+ */
+export type AxiosInstance = {
+  interceptors: {
+    response: {
+      use(
+        onFulfilled: (response: AxiosResponse) => AxiosResponse,
+        onRejected: (error: { config?: AxiosRequestConfig; response?: AxiosResponse }) => unknown,
+      ): number;
+    };
+  };
+  request(config: AxiosRequestConfig): Promise<AxiosResponse>;
+};
+
+/**
+ * A response of a paid request, with the decoded `X-PAYMENT-RESPONSE` header of the settlement
+ */
+export type PaymentAxiosResponse = AxiosResponse & {
+  paymentResponse?: ReturnType<typeof decodeXPaymentResponse>;
+};
+
+/**
+ * Options of `withPaymentInterceptor`
+ */
+export interface PaymentInterceptorOptions {
+  /**
+   * The maximum allowed payment amount in base units (defaults to 0.1 USDC).
+   */
+  maxValue?: bigint;
+  /**
+   * Selects the payment requirements from the response (defaults to `selectPaymentRequirements`).
+   */
+  paymentRequirementsSelector?: PaymentRequirementsSelector;
+  /**
+   * Optional configuration for X402 operations (e.g., custom RPC URLs).
+   */
+  config?: X402Config;
+  /**
+   * The spending limits of the payments per asset and network, checked before a payment is signed.
+   */
+  budget?: PaymentBudget;
+}
+
+/**
+ * Gets the absolute URL of an axios request, if its base URL is known
+ *
+ * @param config - The config of the request
+ * @returns The URL of the request
+ */
+function getRequestUrl({ url = "", baseURL }: AxiosRequestConfig): string {
+  try {
+    return new URL(url, baseURL).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Decodes the `X-PAYMENT-RESPONSE` header of a paid response, and releases the budget reservation
+ * of the payment unless the header reports a successful settlement.
+ *
+ * @param header - The `X-PAYMENT-RESPONSE` header of the response, if any
+ * @param reservation - The budget reservation of the payment
+ * @returns The decoded settle response, or undefined if the response has no header
+ */
+async function decodeSettlement(
+  header: unknown,
+  reservation?: PaymentReservation,
+): Promise<SettleResponse | undefined> {
+  let settleResponse: SettleResponse | undefined;
+  try {
+    settleResponse = typeof header === "string" ? decodeXPaymentResponse(header) : undefined;
+  } finally {
+    if (!settleResponse?.success) {
+      // no successful settlement came back, so the payment was not made
+      await reservation?.release();
+    }
+  }
+  return settleResponse;
+}
+
+/**
+ * Enables the payment of APIs using the x402 payment protocol with axios.
+ *
+ * This function adds a response interceptor to the axios instance that handles 402 Payment
+ * Required responses like `wrapFetchWithPayment`. It will:
+ * 1. Parse the payment requirements of a 402 response
+ * 2. Verify the payment amount is within the allowed maximum and the budget
+ * 3. Create a payment header using the provided signer
+ * 4. Replay the request once with the payment header
+ * 5. Decode the `X-PAYMENT-RESPONSE` header of the paid response into `response.paymentResponse`
+ *
+ * @param axiosInstance - The axios instance to add the interceptor to
+ * @param walletClient - The wallet client used to sign payment messages
+ * @param options - Optional options of the payments
+ * @returns The axios instance
+ *
+ * @example
+ * ```typescript
+ * const api = withPaymentInterceptor(axios.create({ baseURL: "https://api.example.com" }), signer, {
+ *   config: { svmConfig: { rpcUrl: "http://localhost:8899" } },
+ * });
+ *
+ * const response = await api.get("/paid-endpoint");
+ * console.log(response.paymentResponse?.transaction);
+ * ```
+ *
+ * @throws {Error} If none of the payment requirements can be paid
+ * @throws {Error} If the payment amount exceeds the maximum allowed value
+ * @throws {PaymentBudgetError} If the payment is refused by the budget, see `isPaymentBudgetError`
+ * @throws {Error} If there's an error creating the payment header
+ */
+export function withPaymentInterceptor<T extends AxiosInstance>(
+  axiosInstance: T,
+  walletClient: Signer | MultiNetworkSigner,
+  options: PaymentInterceptorOptions = {},
+): T {
+  const {
+    maxValue = BigInt(0.1 * 10 ** 6), // Default to 0.10 USDC
+    paymentRequirementsSelector = selectPaymentRequirements,
+    config,
+  } = options;
+  const budgetManager = options.budget && createPaymentBudgetManager(options.budget);
+
+  axiosInstance.interceptors.response.use(
+    response => response,
+    async error => {
+      const { response, config: requestConfig } = error;
+      if (response?.status !== 402 || !requestConfig) {
+        throw error;
+      }
+
+      // a paid request that is answered with 402 again is not paid twice
+      const originalConfig = requestConfig as AxiosRequestConfig & { __is402Retry?: boolean };
+      if (originalConfig.__is402Retry) {
+        throw error;
+      }
+
+      const { x402Version, accepts } = response.data as {
+        x402Version: number;
+        accepts: unknown[];
+      };
+      const parsedPaymentRequirements = accepts.map(x => PaymentRequirementsSchema.parse(x));
+
+      const selectedPaymentRequirements = await paymentRequirementsSelector(
+        parsedPaymentRequirements,
+        getSignerNetworks(walletClient),
+        getSignerSchemes(walletClient),
+      );
+
+      if (BigInt(selectedPaymentRequirements.maxAmountRequired) > maxValue) {
+        throw new Error("Payment amount exceeds maximum allowed");
+      }
+
+      // record the payment in the budget before it is signed, and remove it if it is not made
+      const reservation = await budgetManager?.reserve(
+        selectedPaymentRequirements,
+        getRequestUrl(originalConfig),
+      );
+
+      let paymentHeader: string;
+      try {
+        paymentHeader = await createPaymentHeader(
+          walletClient,
+          x402Version,
+          selectedPaymentRequirements,
+          config,
+        );
+      } catch (paymentError) {
+        await reservation?.release();
+        throw paymentError;
+      }
+
+      originalConfig.__is402Retry = true;
+      originalConfig.headers = {
+        ...originalConfig.headers,
+        "X-PAYMENT": paymentHeader,
+        "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+      };
+
+      let secondResponse: PaymentAxiosResponse;
+      try {
+        secondResponse = await axiosInstance.request(originalConfig);
+      } catch (secondError) {
+        // a failed request or an error response without a settlement did not make the payment
+        const errorResponse = (secondError as { response?: AxiosResponse }).response;
+        await decodeSettlement(errorResponse?.headers["x-payment-response"], reservation).catch(
+          () => undefined,
+        );
+        throw secondError;
+      }
+
+      const paymentResponse = await decodeSettlement(
+        secondResponse.headers["x-payment-response"],
+        reservation,
+      );
+      if (paymentResponse) {
+        secondResponse.paymentResponse = paymentResponse;
+      }
+      return secondResponse;
+    },
+  );
+
+  return axiosInstance;
+}
+
+export { decodeXPaymentResponse } from "../x402/shared/index.js";
+export {
+  createSigner,
+  type Signer,
+  type MultiNetworkSigner,
+  type X402Config,
+} from "../x402/types/index.js";
+export {
+  createInMemoryPaymentLedger,
+  createPaymentRequirementsSelector,
+  createTokenBalanceGetter,
+  isPaymentBudgetError,
+  preferCheapestInUsd,
+  preferNetworks,
+  requireFeePayer,
+  requireTokenBalance,
+  selectPaymentRequirements,
+  type PaymentBudget,
+  type PaymentBudgetError,
+  type PaymentRequirementsSelector,
+  type PaymentRequirementsStrategy,
+  type TokenBalanceGetter,
+  type UsdPriceOracle,
+} from "../x402/client/index.js";
+export { createWalletStandardSigner } from "../x402/shared/svm/walletStandard.js";
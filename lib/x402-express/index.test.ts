@@ -10,7 +10,7 @@ import {
   RouteConfig,
 } from "x402/types";
 import { useFacilitator } from "x402/verify";
-import { paymentMiddleware } from "./index";
+import { paymentMiddleware, setUptoSettleAmount } from "./index";
 import { Address as SolanaAddress } from "@solana/kit";
 
 // Mock dependencies
@@ -150,6 +150,20 @@ describe("paymentMiddleware()", () => {
   };
   const encodedValidPayment = "encoded-payment";
 
+  /**
+   * Ends the response like a route handler does, which settles the payment
+   */
+  const endResponse = () => {
+    mockRes.end!();
+  };
+
+  /**
+   * Waits for the settlement that was started when the response was ended
+   *
+   * @returns A promise that resolves once the pending settlement is done
+   */
+  const flushSettlement = () => new Promise(resolve => setImmediate(resolve));
+
   beforeEach(() => {
     vi.resetAllMocks();
     mockReq = {
@@ -337,7 +351,9 @@ describe("paymentMiddleware()", () => {
       },
     );
 
+    mockNext = vi.fn().mockImplementation(endResponse);
     await middleware(mockReq as Request, mockRes as Response, mockNext);
+    await flushSettlement();
 
     expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockSettle).toHaveBeenCalledWith(validPayment, expect.any(Object));
@@ -351,7 +367,9 @@ describe("paymentMiddleware()", () => {
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
     (mockSettle as ReturnType<typeof vi.fn>).mockRejectedValue(new Error("Settlement failed"));
 
+    mockNext = vi.fn().mockImplementation(endResponse);
     await middleware(mockReq as Request, mockRes as Response, mockNext);
+    await flushSettlement();
 
     expect(mockRes.status).toHaveBeenCalledWith(402);
     expect(mockRes.json).toHaveBeenCalledWith({
@@ -391,7 +409,9 @@ describe("paymentMiddleware()", () => {
       payer: "0x123",
     });
 
+    mockNext = vi.fn().mockImplementation(endResponse);
     await middleware(mockReq as Request, mockRes as Response, mockNext);
+    await flushSettlement();
 
     expect(mockRes.status).toHaveBeenCalledWith(402);
     expect(mockRes.json).toHaveBeenCalledWith({
@@ -434,7 +454,9 @@ describe("paymentMiddleware()", () => {
       },
     );
 
+    mockNext = vi.fn().mockImplementation(endResponse);
     await middleware(mockReq as Request, mockRes as Response, mockNext);
+    await flushSettlement();
 
     expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockSettle).toHaveBeenCalledWith(validPayment, expect.any(Object));
@@ -464,13 +486,70 @@ describe("paymentMiddleware()", () => {
     mockRes.statusCode = 500;
 
     // call the middleware
+    mockNext = vi.fn().mockImplementation(endResponse);
     await middleware(mockReq as Request, mockRes as Response, mockNext);
+    await flushSettlement();
 
     // make assertions
     expect(mockSettle).not.toHaveBeenCalled();
     expect(mockRes.statusCode).toBe(500);
   });
 
+  it("should settle the amount that an async route handler reports for upto payments", async () => {
+    const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+    const uptoRoute: RouteConfig = {
+      price: "$1",
+      network: "solana-devnet",
+      scheme: "upto",
+      config: middlewareConfig,
+    };
+    (mockSupported as ReturnType<typeof vi.fn>).mockResolvedValue({
+      kinds: [{ x402Version: 1, scheme: "upto", network: "solana-devnet", extra: { feePayer } }],
+    });
+    vi.mocked(findMatchingRoute).mockReturnValue({
+      pattern: /^\/test$/,
+      verb: "GET",
+      config: uptoRoute,
+    });
+    vi.mocked(exact.evm.decodePayment).mockReturnValue({
+      scheme: "upto",
+      x402Version: 1,
+      network: "solana-devnet",
+      payload: { transaction: "AQIDBA==" },
+    });
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      transaction: "transactionSignature",
+      network: "solana-devnet",
+    });
+    middleware = paymentMiddleware(
+      "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4" as SolanaAddress,
+      { "/test": uptoRoute },
+      facilitatorConfig,
+    );
+    mockReq.headers = { "x-payment": encodedValidPayment };
+    // an async handler that reports the amount after the middleware has returned from next()
+    mockNext = vi.fn().mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      setUptoSettleAmount(mockRes as Response, 5n);
+      endResponse();
+    });
+
+    await middleware(mockReq as Request, mockRes as Response, mockNext);
+    expect(mockSettle).not.toHaveBeenCalled();
+
+    await vi.waitFor(() =>
+      expect(mockSettle).toHaveBeenCalledWith(
+        expect.objectContaining({ scheme: "upto" }),
+        expect.objectContaining({
+          scheme: "upto",
+          extra: expect.objectContaining({ settleAmount: "5" }),
+        }),
+      ),
+    );
+  });
+
   it("should return 402 with feePayer for solana-devnet when no payment header is present", async () => {
     const solanaRoutesConfig: RoutesConfig = {
       "/test": {
@@ -1,31 +1,68 @@
 import { NextFunction, Request, Response } from "express";
-import { Address, getAddress } from "viem";
+import { Address } from "viem";
 import { Address as SolanaAddress } from "@solana/kit";
 import { exact } from "../x402/schemes/index.js";
 import {
+  buildPaymentRequirements,
   computeRoutePatterns,
   findMatchingPaymentRequirements,
   findMatchingRoute,
   getPaywallHtml,
-  processPriceToAtomicAmount,
+  getPaywallPaymentOptions,
+  PaywallOptions,
+  resolveRouteConfig,
   toJsonSafe,
 } from "../x402/shared/index.js";
 import {
   FacilitatorConfig,
-  ERC20TokenAmount,
-  moneySchema,
   PaymentPayload,
-  PaymentRequirements,
   PaywallConfig,
+  PaymentMiddlewareConfig as BasePaymentMiddlewareConfig,
   Resource,
-  RoutesConfig,
+  RouteConfig as BaseRouteConfig,
+  RoutesConfig as BaseRoutesConfig,
   settleResponseHeader,
-  SupportedEVMNetworks,
-  SupportedSVMNetworks,
   X402Config,
 } from "../x402/types/index.js";
 import { useFacilitator } from "../x402/verify/index.js";
 
+/**
+ * The maximum and reported settle amounts of the upto payments that are being served
+ */
+const uptoPayments = new WeakMap<Response, { maxAmountRequired: bigint; settleAmount?: bigint }>();
+
+/**
+ * Sets the amount that is charged for an upto payment, must be called by the route handler
+ * before the response is sent. If it is never called, the maximum amount is charged.
+ *
+ * @param res - The response of the request that is paid with an upto payment
+ * @param amount - The amount to charge in atomic units of the asset
+ *
+ * @example
+ * ```typescript
+ * app.post("/completions", async (req, res) => {
+ *   const { text, tokensUsed } = await complete(req.body);
+ *   setUptoSettleAmount(res, BigInt(tokensUsed) * 10n);
+ *   res.json({ text });
+ * });
+ * ```
+ */
+export function setUptoSettleAmount(res: Response, amount: string | bigint): void {
+  const uptoPayment = uptoPayments.get(res);
+  if (!uptoPayment) {
+    throw new Error("The response is not paid with an upto payment");
+  }
+
+  const settleAmount = BigInt(amount);
+  if (settleAmount < 0n || settleAmount > uptoPayment.maxAmountRequired) {
+    throw new Error(
+      `The settle amount ${settleAmount} must be between 0 and ${uptoPayment.maxAmountRequired}`,
+    );
+  }
+
+  uptoPayment.settleAmount = settleAmount;
+}
+
 /**
  * Creates a payment middleware factory for Express
  *
@@ -85,7 +122,7 @@ import { useFacilitator } from "../x402/verify/index.js";
  */
 export function paymentMiddleware(
   payTo: Address | SolanaAddress,
-  routes: RoutesConfig,
+  routes: RoutesConfig<Request>,
   facilitator?: FacilitatorConfig,
   paywall?: PaywallConfig,
   x402Config?: X402Config,
@@ -107,106 +144,17 @@ export function paymentMiddleware(
       return next();
     }
 
-    const { price, network, config = {} } = matchingRoute.config;
-    const {
-      description,
-      mimeType,
-      maxTimeoutSeconds,
-      inputSchema,
-      outputSchema,
-      customPaywallHtml,
-      resource,
-      discoverable,
-    } = config;
-
-    const atomicAmountForAsset = processPriceToAtomicAmount(
-      price,
-      network,
-      x402Config?.svmConfig?.defaultToken
-    );
-    if ("error" in atomicAmountForAsset) {
-      throw new Error(atomicAmountForAsset.error);
-    }
-    const { maxAmountRequired, asset } = atomicAmountForAsset;
-
-    const resourceUrl: Resource =
-      resource || (`${req.protocol}://${req.headers.host}${req.path}` as Resource);
-
-    let paymentRequirements: PaymentRequirements[] = [];
-
-    // TODO: create a shared middleware function to build payment requirements
-    // evm networks
-    if (SupportedEVMNetworks.includes(network)) {
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: getAddress(payTo),
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
-        asset: getAddress(asset.address),
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method: req.method.toUpperCase(),
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: (asset as ERC20TokenAmount["asset"]).eip712,
-      });
-    }
-
-    // svm networks
-    else if (SupportedSVMNetworks.includes(network)) {
-      // get the supported payments from the facilitator
-      const paymentKinds = await supported();
-
-      // find the payment kind that matches the network and scheme
-      let feePayer: string | undefined;
-      for (const kind of paymentKinds.kinds) {
-        if (kind.network === network && kind.scheme === "exact") {
-          feePayer = kind?.extra?.feePayer;
-          break;
-        }
-      }
-
-      // if no fee payer is found, throw an error
-      if (!feePayer) {
-        throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
-      }
+    const routeConfig = await resolveRouteConfig(matchingRoute.config, req);
+    const { customPaywallHtml } = routeConfig.config ?? {};
 
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: payTo,
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
-        asset: asset.address,
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method: req.method.toUpperCase(),
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: {
-          feePayer,
-        },
-      });
-    } else {
-      throw new Error(`Unsupported network: ${network}`);
-    }
+    const paymentRequirements = await buildPaymentRequirements({
+      payTo,
+      routeConfig,
+      method: req.method,
+      resourceUrl: `${req.protocol}://${req.headers.host}${req.path}` as Resource,
+      facilitatorSupported: supported,
+      x402Config,
+    });
 
     const payment = req.header("X-PAYMENT");
     const userAgent = req.header("User-Agent") || "";
@@ -214,34 +162,26 @@ export function paymentMiddleware(
     const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
 
     if (!payment) {
-      // TODO handle paywall html for solana
       if (isWebBrowser) {
-        let displayAmount: number;
-        if (typeof price === "string" || typeof price === "number") {
-          const parsed = moneySchema.safeParse(price);
-          if (parsed.success) {
-            displayAmount = parsed.data;
-          } else {
-            displayAmount = Number.NaN;
-          }
-        } else {
-          displayAmount = Number(price.amount) / 10 ** price.asset.decimals;
-        }
-
+        const paywallOptions: PaywallOptions = {
+          paymentOptions: getPaywallPaymentOptions(
+            toJsonSafe(paymentRequirements) as typeof paymentRequirements,
+          ),
+          currentUrl: req.originalUrl,
+          cdpClientKey: paywall?.cdpClientKey,
+          appName: paywall?.appName,
+          appLogo: paywall?.appLogo,
+          sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
+          svmRpcUrl: paywall?.svmRpcUrl,
+          theme: paywall?.theme,
+          locale: paywall?.locale,
+          messages: paywall?.messages,
+          header: paywall?.header,
+          footer: paywall?.footer,
+        };
         const html =
           customPaywallHtml ||
-          getPaywallHtml({
-            amount: displayAmount,
-            paymentRequirements: toJsonSafe(paymentRequirements) as Parameters<
-              typeof getPaywallHtml
-            >[0]["paymentRequirements"],
-            currentUrl: req.originalUrl,
-            testnet: network === "base-sepolia",
-            cdpClientKey: paywall?.cdpClientKey,
-            appName: paywall?.appName,
-            appLogo: paywall?.appLogo,
-            sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
-          });
+          (paywall?.render ? await paywall.render(paywallOptions) : getPaywallHtml(paywallOptions));
         res.status(402).send(html);
         return;
       }
@@ -267,7 +207,7 @@ export function paymentMiddleware(
       return;
     }
 
-    const selectedPaymentRequirements = findMatchingPaymentRequirements(
+    const selectedPaymentRequirements = await findMatchingPaymentRequirements(
       paymentRequirements,
       decodedPayment,
     );
@@ -301,6 +241,13 @@ export function paymentMiddleware(
       return;
     }
 
+    // let the route handler report the amount to charge for an upto payment
+    if (selectedPaymentRequirements.scheme === "upto") {
+      uptoPayments.set(res, {
+        maxAmountRequired: BigInt(selectedPaymentRequirements.maxAmountRequired),
+      });
+    }
+
     /* eslint-disable @typescript-eslint/no-explicit-any */
     type EndArgs =
       | [cb?: () => void]
@@ -309,67 +256,89 @@ export function paymentMiddleware(
     /* eslint-enable @typescript-eslint/no-explicit-any */
 
     const originalEnd = res.end.bind(res);
-    let endArgs: EndArgs | null = null;
-
-    res.end = function (...args: EndArgs) {
-      endArgs = args;
-      return res; // maintain correct return type
-    };
 
-    // Proceed to the next middleware or route handler
-    await next();
-
-    // If the response from the protected route is >= 400, do not settle payment
-    if (res.statusCode >= 400) {
+    /**
+     * Settles the payment once the route handler has ended the response, then sends it
+     *
+     * @param endArgs - The arguments that the route handler passed to `res.end`
+     */
+    const settleAndEnd = async (endArgs: EndArgs) => {
       res.end = originalEnd;
-      if (endArgs) {
+
+      // If the response from the protected route is >= 400, do not settle payment
+      if (res.statusCode >= 400) {
         originalEnd(...(endArgs as Parameters<typeof res.end>));
+        return;
       }
-      return;
-    }
 
-    try {
-      const settleResponse = await settle(decodedPayment, selectedPaymentRequirements);
-      const responseHeader = settleResponseHeader(settleResponse);
-      res.setHeader("X-PAYMENT-RESPONSE", responseHeader);
+      try {
+        const uptoPayment = uptoPayments.get(res);
+        // nothing is charged, so the payment is not settled
+        if (uptoPayment?.settleAmount === 0n) {
+          originalEnd(...(endArgs as Parameters<typeof res.end>));
+          return;
+        }
+        if (uptoPayment) {
+          selectedPaymentRequirements.extra = {
+            ...selectedPaymentRequirements.extra,
+            settleAmount: (uptoPayment.settleAmount ?? uptoPayment.maxAmountRequired).toString(),
+          };
+        }
 
-      // if the settle fails, return an error
-      if (!settleResponse.success) {
-        res.status(402).json({
-          x402Version,
-          error: settleResponse.errorReason,
-          accepts: toJsonSafe(paymentRequirements),
-        });
-        return;
-      }
-    } catch (error) {
-      console.error(error);
-      // If settlement fails and the response hasn't been sent yet, return an error
-      if (!res.headersSent) {
-        res.status(402).json({
-          x402Version,
-          error,
-          accepts: toJsonSafe(paymentRequirements),
-        });
-        return;
-      }
-    } finally {
-      res.end = originalEnd;
-      if (endArgs) {
-        originalEnd(...(endArgs as Parameters<typeof res.end>));
+        const settleResponse = await settle(decodedPayment, selectedPaymentRequirements);
+        const responseHeader = settleResponseHeader(settleResponse);
+        res.setHeader("X-PAYMENT-RESPONSE", responseHeader);
+
+        // if the settle fails, return an error
+        if (!settleResponse.success) {
+          res.status(402).json({
+            x402Version,
+            error: settleResponse.errorReason,
+            accepts: toJsonSafe(paymentRequirements),
+          });
+          return;
+        }
+      } catch (error) {
+        console.error(error);
+        // If settlement fails and the response hasn't been sent yet, return an error
+        if (!res.headersSent) {
+          res.status(402).json({
+            x402Version,
+            error,
+            accepts: toJsonSafe(paymentRequirements),
+          });
+          return;
+        }
       }
-    }
+
+      originalEnd(...(endArgs as Parameters<typeof res.end>));
+    };
+
+    // settle when the route handler ends the response, as next() does not wait for async handlers
+    res.end = function (...args: EndArgs) {
+      void settleAndEnd(args);
+      return res; // maintain correct return type
+    };
+
+    // Proceed to the next middleware or route handler
+    next();
   };
 }
 
-export type {
-  Money,
-  Network,
-  PaymentMiddlewareConfig,
-  Resource,
-  RouteConfig,
-  RoutesConfig,
-  X402Config,
-  TokenConfig,
-} from "../x402/types/index.js";
+/**
+ * The payment config of a route, whose request values are resolved from the Express `Request`
+ */
+export type PaymentMiddlewareConfig<TRequest = Request> = BasePaymentMiddlewareConfig<TRequest>;
+
+/**
+ * The config of a protected route, whose request values are resolved from the Express `Request`
+ */
+export type RouteConfig<TRequest = Request> = BaseRouteConfig<TRequest>;
+
+/**
+ * The protected routes, whose request values are resolved from the Express `Request`
+ */
+export type RoutesConfig<TRequest = Request> = BaseRoutesConfig<TRequest>;
+
+export type { Money, Network, Resource, X402Config, TokenConfig } from "../x402/types/index.js";
 export type { Address as SolanaAddress } from "@solana/kit";
@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PaymentPayload, RoutesConfig, settleResponseHeader } from "../x402/types";
+import { exact } from "../x402/schemes";
+import { useFacilitator } from "../x402/verify";
+import {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  paymentPlugin,
+  setUptoSettleAmount,
+} from "./index";
+
+vi.mock("../x402/verify/index.js", () => ({
+  useFacilitator: vi.fn().mockReturnValue({
+    verify: vi.fn(),
+    settle: vi.fn(),
+    supported: vi.fn(),
+    list: vi.fn(),
+  }),
+}));
+
+vi.mock("../x402/shared/paywall.js", async importOriginal => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  getPaywallHtml: vi.fn().mockReturnValue("<html>paywall</html>"),
+}));
+
+type PreHandlerHook = (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>;
+type OnSendHook = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+) => Promise<unknown>;
+
+describe("paymentPlugin", () => {
+  const payTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+  const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+  const routes: RoutesConfig = {
+    "GET /weather": { price: "$0.001", network: "solana-devnet" },
+    "POST /completions": { price: "$0.01", network: "solana-devnet", scheme: "upto" },
+  };
+  const payment: PaymentPayload = {
+    scheme: "exact",
+    network: "solana-devnet",
+    x402Version: 1,
+    payload: { transaction: "AQIDBA==" },
+  };
+  const settleResponse = {
+    success: true,
+    transaction: "transactionSignature",
+    network: "solana-devnet" as const,
+    payer: "payerAddress",
+  };
+
+  const { verify, settle, supported } = vi.mocked(useFacilitator)();
+  let preHandler: PreHandlerHook;
+  let onSend: OnSendHook;
+  let reply: FastifyReply & { headers: Record<string, string>; payload?: unknown };
+
+  const createRequest = (
+    url: string,
+    headers: FastifyRequest["headers"] = {},
+    method = "GET",
+  ): FastifyRequest => ({
+    method,
+    url,
+    protocol: "https",
+    headers: { host: "api.example.com", ...headers },
+  });
+
+  const paidRequest = (url: string, method = "GET", paymentPayload = payment) =>
+    createRequest(url, { "x-payment": exact.evm.encodePayment(paymentPayload) }, method);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(supported).mockResolvedValue({
+      kinds: [
+        { x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } },
+        { x402Version: 1, scheme: "upto", network: "solana-devnet", extra: { feePayer } },
+      ],
+    });
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: "payerAddress" });
+    vi.mocked(settle).mockResolvedValue(settleResponse);
+
+    reply = {
+      statusCode: 200,
+      headers: {},
+      code(statusCode) {
+        this.statusCode = statusCode;
+        return this;
+      },
+      header(key, value) {
+        this.headers[key] = value;
+        return this;
+      },
+      send(payload) {
+        this.payload = payload;
+        return this;
+      },
+    };
+
+    const fastify: FastifyInstance = {
+      addHook: vi.fn().mockImplementation((name: string, hook: PreHandlerHook | OnSendHook) => {
+        if (name === "preHandler") preHandler = hook as PreHandlerHook;
+        if (name === "onSend") onSend = hook as OnSendHook;
+      }),
+    };
+    await paymentPlugin(fastify, { payTo, routes });
+  });
+
+  it("should expose its hooks to the parent scope", () => {
+    expect((paymentPlugin as unknown as Record<symbol, unknown>)[Symbol.for("skip-override")]).toBe(
+      true,
+    );
+  });
+
+  it("should not handle unprotected routes", async () => {
+    const request = createRequest("/free");
+
+    await preHandler(request, reply);
+    const payload = await onSend(request, reply, "body");
+
+    expect(reply.payload).toBeUndefined();
+    expect(payload).toBe("body");
+    expect(verify).not.toHaveBeenCalled();
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it("should reply 402 with the same JSON body as the Express middleware", async () => {
+    await preHandler(createRequest("/weather?city=paris"), reply);
+
+    expect(reply.statusCode).toBe(402);
+    expect(reply.headers["Content-Type"]).toBe("application/json; charset=utf-8");
+    const body = JSON.parse(reply.payload as string);
+    expect(reply.payload).toBe(JSON.stringify(body));
+    expect(body.error).toBe("X-PAYMENT header is required");
+    expect(body.accepts).toEqual([
+      expect.objectContaining({
+        scheme: "exact",
+        resource: "https://api.example.com/weather",
+        maxAmountRequired: "1000",
+        extra: { feePayer, decimals: 6, symbol: "USDC" },
+      }),
+    ]);
+  });
+
+  it("should reply with the paywall html to web browsers", async () => {
+    await preHandler(
+      createRequest("/weather", { accept: "text/html", "user-agent": "Mozilla/5.0" }),
+      reply,
+    );
+
+    expect(reply.statusCode).toBe(402);
+    expect(reply.headers["Content-Type"]).toBe("text/html; charset=utf-8");
+    expect(reply.payload).toBe("<html>paywall</html>");
+  });
+
+  it("should reply 402 if the payment is invalid", async () => {
+    vi.mocked(verify).mockResolvedValue({
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: "payerAddress",
+    });
+
+    await preHandler(paidRequest("/weather"), reply);
+
+    expect(reply.statusCode).toBe(402);
+    expect(JSON.parse(reply.payload as string)).toEqual(
+      expect.objectContaining({ error: "insufficient_funds", payer: "payerAddress" }),
+    );
+  });
+
+  it("should settle the payment when the route replies with a 2xx status code", async () => {
+    const request = paidRequest("/weather");
+
+    await preHandler(request, reply);
+    const payload = await onSend(request, reply, '{"weather":"sunny"}');
+
+    expect(settle).toHaveBeenCalledOnce();
+    expect(reply.headers["X-PAYMENT-RESPONSE"]).toBe(settleResponseHeader(settleResponse));
+    expect(payload).toBe('{"weather":"sunny"}');
+  });
+
+  it.each([302, 404, 500])(
+    "should not settle the payment when the route replies with %i",
+    async statusCode => {
+      const request = paidRequest("/weather");
+
+      await preHandler(request, reply);
+      reply.code(statusCode);
+      const payload = await onSend(request, reply, "body");
+
+      expect(settle).not.toHaveBeenCalled();
+      expect(payload).toBe("body");
+    },
+  );
+
+  it("should replace the reply with a 402 if settlement fails", async () => {
+    vi.mocked(settle).mockResolvedValue({
+      success: false,
+      errorReason: "settle_exact_svm_block_height_exceeded",
+      transaction: "",
+      network: "solana-devnet",
+    });
+    const request = paidRequest("/weather");
+
+    await preHandler(request, reply);
+    const payload = await onSend(request, reply, '{"weather":"sunny"}');
+
+    expect(reply.statusCode).toBe(402);
+    expect(reply.headers["X-PAYMENT-RESPONSE"]).toBeDefined();
+    expect(JSON.parse(payload as string).error).toBe("settle_exact_svm_block_height_exceeded");
+  });
+
+  it("should settle the amount reported by the route for upto payments", async () => {
+    const request = paidRequest("/completions", "POST", { ...payment, scheme: "upto" });
+
+    await preHandler(request, reply);
+    setUptoSettleAmount(request, "2500");
+    await onSend(request, reply, "body");
+
+    expect(settle).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ scheme: "upto", extra: { feePayer, decimals: 6, symbol: "USDC", settleAmount: "2500" } }),
+    );
+  });
+
+  it("should not settle upto payments with a settle amount of 0", async () => {
+    const request = paidRequest("/completions", "POST", { ...payment, scheme: "upto" });
+
+    await preHandler(request, reply);
+    setUptoSettleAmount(request, 0n);
+    const payload = await onSend(request, reply, "body");
+
+    expect(settle).not.toHaveBeenCalled();
+    expect(payload).toBe("body");
+    expect(reply.headers["X-PAYMENT-RESPONSE"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,361 @@
+import { Address } from "viem";
+import { Address as SolanaAddress } from "@solana/kit";
+import { exact } from "../x402/schemes/index.js";
+import {
+  buildPaymentRequirements,
+  computeRoutePatterns,
+  findMatchingPaymentRequirements,
+  findMatchingRoute,
+  getPaywallHtml,
+  getPaywallPaymentOptions,
+  PaywallOptions,
+  resolveRouteConfig,
+  toJsonSafe,
+} from "../x402/shared/index.js";
+import {
+  FacilitatorConfig,
+  PaymentPayload,
+  PaymentRequirements,
+  PaywallConfig,
+  PaymentMiddlewareConfig as BasePaymentMiddlewareConfig,
+  Resource,
+  RouteConfig as BaseRouteConfig,
+  RoutesConfig as BaseRoutesConfig,
+  settleResponseHeader,
+  X402Config,
+} from "../x402/types/index.js";
+import { useFacilitator } from "../x402/verify/index.js";
+
+/**
+ * The subset of the Fastify request that the payment plugin and the request values of the routes
+ * config need
+ */
+export type FastifyRequest = {
+  method: string;
+  url: string;
+  protocol: string;
+  headers: Record<string, string | string[] | undefined>;
+  query?: unknown;
+  body?: unknown;
+};
+
+/**
+ * The subset of the Fastify reply that the payment plugin needs
+ */
+export type FastifyReply = {
+  statusCode: number;
+  code(statusCode: number): FastifyReply;
+  header(key: string, value: string): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+};
+
+/**
+ * The subset of the Fastify instance that the payment plugin needs
+ */
+export type FastifyInstance = {
+  addHook(
+    name: "preHandler",
+    hook: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>,
+  ): unknown;
+  addHook(
+    name: "onSend",
+    hook: (request: FastifyRequest, reply: FastifyReply, payload: unknown) => Promise<unknown>,
+  ): unknown;
+};
+
+export type PaymentPluginOptions = {
+  payTo: Address | SolanaAddress;
+  routes: RoutesConfig<FastifyRequest>;
+  facilitator?: FacilitatorConfig;
+  paywall?: PaywallConfig;
+  x402Config?: X402Config;
+};
+
+/**
+ * A verified payment of a request that is settled once the route has replied
+ */
+type VerifiedPayment = {
+  decodedPayment: PaymentPayload;
+  selectedPaymentRequirements: PaymentRequirements;
+  paymentRequirements: PaymentRequirements[];
+  uptoPayment?: { maxAmountRequired: bigint; settleAmount?: bigint };
+};
+
+const verifiedPayments = new WeakMap<FastifyRequest, VerifiedPayment>();
+
+/**
+ * Sets the amount that is charged for an upto payment, must be called by the route handler
+ * before it replies. If it is never called, the maximum amount is charged.
+ *
+ * @param request - The request that is paid with an upto payment
+ * @param amount - The amount to charge in atomic units of the asset
+ */
+export function setUptoSettleAmount(request: FastifyRequest, amount: string | bigint): void {
+  const uptoPayment = verifiedPayments.get(request)?.uptoPayment;
+  if (!uptoPayment) {
+    throw new Error("The request is not paid with an upto payment");
+  }
+
+  const settleAmount = BigInt(amount);
+  if (settleAmount < 0n || settleAmount > uptoPayment.maxAmountRequired) {
+    throw new Error(
+      `The settle amount ${settleAmount} must be between 0 and ${uptoPayment.maxAmountRequired}`,
+    );
+  }
+
+  uptoPayment.settleAmount = settleAmount;
+}
+
+/**
+ * Creates a Fastify plugin that protects routes with x402 payments. Payments are verified in a
+ * `preHandler` hook and settled in an `onSend` hook when the route replies with a 2xx status code.
+ * The 402 responses and the `X-PAYMENT-RESPONSE` header are identical to the Express middleware.
+ *
+ * The hooks are registered on the instance the plugin is registered on (like `fastify-plugin`),
+ * so they apply to the routes of the parent scope.
+ *
+ * @example
+ * ```typescript
+ * const fastify = Fastify();
+ *
+ * await fastify.register(paymentPlugin, {
+ *   payTo: 'SolanaAddress...',
+ *   routes: { 'GET /weather': { price: '$0.001', network: 'solana-devnet' } },
+ *   facilitator: { url: 'https://facilitator.example.com' },
+ * });
+ * ```
+ */
+export const paymentPlugin = Object.assign(
+  async function paymentPlugin(fastify: FastifyInstance, options: PaymentPluginOptions) {
+    const { payTo, routes, facilitator, paywall, x402Config } = options;
+    const { verify, settle, supported } = useFacilitator(facilitator);
+    const x402Version = 1;
+
+    // Pre-compile route patterns to regex and extract verbs
+    const routePatterns = computeRoutePatterns(routes);
+
+    fastify.addHook("preHandler", async (request, reply) => {
+      const path = request.url.split("?")[0];
+      const matchingRoute = findMatchingRoute(routePatterns, path, request.method.toUpperCase());
+
+      if (!matchingRoute) {
+        return;
+      }
+
+      const routeConfig = await resolveRouteConfig(matchingRoute.config, request);
+      const { customPaywallHtml } = routeConfig.config ?? {};
+
+      const paymentRequirements = await buildPaymentRequirements({
+        payTo,
+        routeConfig,
+        method: request.method,
+        resourceUrl: `${request.protocol}://${request.headers.host}${path}` as Resource,
+        facilitatorSupported: supported,
+        x402Config,
+      });
+
+      const payment = getHeader(request, "x-payment");
+      const userAgent = getHeader(request, "user-agent") || "";
+      const acceptHeader = getHeader(request, "accept") || "";
+      const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
+
+      if (!payment) {
+        if (isWebBrowser) {
+          const paywallOptions: PaywallOptions = {
+            paymentOptions: getPaywallPaymentOptions(
+              toJsonSafe(paymentRequirements) as typeof paymentRequirements,
+            ),
+            currentUrl: request.url,
+            cdpClientKey: paywall?.cdpClientKey,
+            appName: paywall?.appName,
+            appLogo: paywall?.appLogo,
+            sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
+            svmRpcUrl: paywall?.svmRpcUrl,
+            theme: paywall?.theme,
+            locale: paywall?.locale,
+            messages: paywall?.messages,
+            header: paywall?.header,
+            footer: paywall?.footer,
+          };
+          const html =
+            customPaywallHtml ||
+            (paywall?.render
+              ? await paywall.render(paywallOptions)
+              : getPaywallHtml(paywallOptions));
+          return reply.code(402).header("Content-Type", "text/html; charset=utf-8").send(html);
+        }
+        return sendJson(reply.code(402), {
+          x402Version,
+          error: "X-PAYMENT header is required",
+          accepts: toJsonSafe(paymentRequirements),
+        });
+      }
+
+      let decodedPayment: PaymentPayload;
+      try {
+        decodedPayment = exact.evm.decodePayment(payment);
+        decodedPayment.x402Version = x402Version;
+      } catch (error) {
+        console.error(error);
+        return sendJson(reply.code(402), {
+          x402Version,
+          error: error || "Invalid or malformed payment header",
+          accepts: toJsonSafe(paymentRequirements),
+        });
+      }
+
+      const selectedPaymentRequirements = await findMatchingPaymentRequirements(
+        paymentRequirements,
+        decodedPayment,
+      );
+      if (!selectedPaymentRequirements) {
+        return sendJson(reply.code(402), {
+          x402Version,
+          error: "Unable to find matching payment requirements",
+          accepts: toJsonSafe(paymentRequirements),
+        });
+      }
+
+      try {
+        const response = await verify(decodedPayment, selectedPaymentRequirements);
+        if (!response.isValid) {
+          return sendJson(reply.code(402), {
+            x402Version,
+            error: response.invalidReason,
+            accepts: toJsonSafe(paymentRequirements),
+            payer: response.payer,
+          });
+        }
+      } catch (error) {
+        console.error(error);
+        return sendJson(reply.code(402), {
+          x402Version,
+          error,
+          accepts: toJsonSafe(paymentRequirements),
+        });
+      }
+
+      // remember the verified payment so that it is settled once the route has replied
+      verifiedPayments.set(request, {
+        decodedPayment,
+        selectedPaymentRequirements,
+        paymentRequirements,
+        uptoPayment:
+          selectedPaymentRequirements.scheme === "upto"
+            ? { maxAmountRequired: BigInt(selectedPaymentRequirements.maxAmountRequired) }
+            : undefined,
+      });
+    });
+
+    fastify.addHook("onSend", async (request, reply, payload) => {
+      const verifiedPayment = verifiedPayments.get(request);
+      if (!verifiedPayment) {
+        return payload;
+      }
+      // settle each payment at most once
+      verifiedPayments.delete(request);
+
+      // If the response from the protected route is not 2xx, do not settle payment
+      if (reply.statusCode < 200 || reply.statusCode >= 300) {
+        return payload;
+      }
+
+      const { decodedPayment, selectedPaymentRequirements, paymentRequirements, uptoPayment } =
+        verifiedPayment;
+
+      // nothing is charged, so the payment is not settled
+      if (uptoPayment?.settleAmount === 0n) {
+        return payload;
+      }
+
+      try {
+        if (uptoPayment) {
+          selectedPaymentRequirements.extra = {
+            ...selectedPaymentRequirements.extra,
+            settleAmount: (uptoPayment.settleAmount ?? uptoPayment.maxAmountRequired).toString(),
+          };
+        }
+
+        const settleResponse = await settle(decodedPayment, selectedPaymentRequirements);
+        const responseHeader = settleResponseHeader(settleResponse);
+        reply.header("X-PAYMENT-RESPONSE", responseHeader);
+
+        // if the settle fails, return an error
+        if (!settleResponse.success) {
+          return replaceWithJson(reply.code(402), {
+            x402Version,
+            error: settleResponse.errorReason,
+            accepts: toJsonSafe(paymentRequirements),
+          });
+        }
+      } catch (error) {
+        console.error(error);
+        return replaceWithJson(reply.code(402), {
+          x402Version,
+          error,
+          accepts: toJsonSafe(paymentRequirements),
+        });
+      }
+
+      return payload;
+    });
+  },
+  {
+    // expose the hooks to the parent scope, as `fastify-plugin` does
+    [Symbol.for("skip-override")]: true,
+  },
+);
+
+/**
+ * Gets a request header as a single string.
+ *
+ * @param request - The Fastify request
+ * @param name - The lower case name of the header
+ * @returns The header value, or undefined if the header is not set
+ */
+function getHeader(request: FastifyRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Sends a JSON body serialized the same way as Express' `res.json`.
+ *
+ * @param reply - The Fastify reply
+ * @param body - The body to send
+ * @returns The reply
+ */
+function sendJson(reply: FastifyReply, body: object): FastifyReply {
+  return reply.header("Content-Type", "application/json; charset=utf-8").send(JSON.stringify(body));
+}
+
+/**
+ * Replaces the payload of a reply in an `onSend` hook with a JSON body serialized
+ * the same way as Express' `res.json`.
+ *
+ * @param reply - The Fastify reply
+ * @param body - The body to send
+ * @returns The serialized body to use as the new payload
+ */
+function replaceWithJson(reply: FastifyReply, body: object): string {
+  reply.header("Content-Type", "application/json; charset=utf-8");
+  return JSON.stringify(body);
+}
+
+/**
+ * The payment config of a route, whose request values are resolved from the Fastify request
+ */
+export type PaymentMiddlewareConfig<TRequest = FastifyRequest> = BasePaymentMiddlewareConfig<TRequest>;
+
+/**
+ * The config of a protected route, whose request values are resolved from the Fastify request
+ */
+export type RouteConfig<TRequest = FastifyRequest> = BaseRouteConfig<TRequest>;
+
+/**
+ * The protected routes, whose request values are resolved from the Fastify request
+ */
+export type RoutesConfig<TRequest = FastifyRequest> = BaseRoutesConfig<TRequest>;
+
+export type { Money, Network, Resource, X402Config, TokenConfig } from "../x402/types/index.js";
+export type { Address as SolanaAddress } from "@solana/kit";
@@ -1,18 +1,24 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { wrapFetchWithPayment } from "./index";
 import { evm, PaymentRequirements } from "x402/types";
+import {
+  createInMemoryPaymentLedger,
+  createPaymentHeader,
+  PaymentLedger,
+  selectPaymentRequirements,
+} from "../x402/client";
 
-vi.mock("x402/client", () => ({
+vi.mock("../x402/client", async importOriginal => ({
+  ...((await importOriginal()) as Record<string, unknown>),
   createPaymentHeader: vi.fn(),
   selectPaymentRequirements: vi.fn(),
 }));
 
-type RequestInitWithRetry = RequestInit & { __is402Retry?: boolean };
-
 describe("fetchWithPayment()", () => {
   let mockFetch: ReturnType<typeof vi.fn>;
   let mockWalletClient: typeof evm.SignerWallet;
   let wrappedFetch: ReturnType<typeof wrapFetchWithPayment>;
+  const paymentHeader = "payment-header-value";
   const validPaymentRequirements: PaymentRequirements[] = [
     {
       scheme: "exact",
@@ -36,6 +42,14 @@ describe("fetchWithPayment()", () => {
     return response;
   };
 
+  /**
+   * Gets the request of a call of the wrapped fetch
+   *
+   * @param call - The index of the call
+   * @returns The request that was passed to the wrapped fetch
+   */
+  const getRequest = (call: number): Request => mockFetch.mock.calls[call][0];
+
   beforeEach(async () => {
     vi.resetAllMocks();
 
@@ -46,14 +60,25 @@ describe("fetchWithPayment()", () => {
     } as unknown as typeof evm.SignerWallet;
 
     // Mock payment requirements selector
-    const { selectPaymentRequirements } = await import("x402/client");
-    (selectPaymentRequirements as ReturnType<typeof vi.fn>).mockImplementation(
-      (requirements, _) => requirements[0],
-    );
+    vi.mocked(selectPaymentRequirements).mockImplementation(requirements => requirements[0]);
+    vi.mocked(createPaymentHeader).mockResolvedValue(paymentHeader);
 
     wrappedFetch = wrapFetchWithPayment(mockFetch, mockWalletClient);
   });
 
+  /**
+   * Answers the first request with a 402 response and the second one with the given response
+   *
+   * @param secondResponse - The response to the paid request
+   */
+  const mockPaymentRequired = (secondResponse = createResponse(200, { data: "success" })) => {
+    mockFetch
+      .mockResolvedValueOnce(
+        createResponse(402, { accepts: validPaymentRequirements, x402Version: 1 }),
+      )
+      .mockResolvedValueOnce(secondResponse);
+  };
+
   it("should return the original response for non-402 status codes", async () => {
     const successResponse = createResponse(200, { data: "success" });
     mockFetch.mockResolvedValue(successResponse);
@@ -61,28 +86,18 @@ describe("fetchWithPayment()", () => {
     const result = await wrappedFetch("https://api.example.com");
 
     expect(result).toBe(successResponse);
-    expect(mockFetch).toHaveBeenCalledWith("https://api.example.com", undefined);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(getRequest(0).url).toBe("https://api.example.com/");
   });
 
   it("should handle 402 errors and retry with payment header", async () => {
-    const paymentHeader = "payment-header-value";
     const successResponse = createResponse(200, { data: "success" });
-
-    const { createPaymentHeader, selectPaymentRequirements } = await import("x402/client");
-    (createPaymentHeader as ReturnType<typeof vi.fn>).mockResolvedValue(paymentHeader);
-    (selectPaymentRequirements as ReturnType<typeof vi.fn>).mockImplementation(
-      (requirements, _) => requirements[0],
-    );
-    mockFetch
-      .mockResolvedValueOnce(
-        createResponse(402, { accepts: validPaymentRequirements, x402Version: 1 }),
-      )
-      .mockResolvedValueOnce(successResponse);
+    mockPaymentRequired(successResponse);
 
     const result = await wrappedFetch("https://api.example.com", {
       method: "GET",
       headers: { "Content-Type": "application/json" },
-    } as RequestInitWithRetry);
+    });
 
     expect(result).toBe(successResponse);
     expect(selectPaymentRequirements).toHaveBeenCalledWith(
@@ -97,41 +112,327 @@ describe("fetchWithPayment()", () => {
       undefined,
     );
     expect(mockFetch).toHaveBeenCalledTimes(2);
-    expect(mockFetch).toHaveBeenLastCalledWith("https://api.example.com", {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        "X-PAYMENT": paymentHeader,
-        "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+    const paidRequest = getRequest(1);
+    expect(paidRequest.method).toBe("GET");
+    expect(paidRequest.headers.get("Content-Type")).toBe("application/json");
+    expect(paidRequest.headers.get("X-PAYMENT")).toBe(paymentHeader);
+    expect(paidRequest.headers.get("Access-Control-Expose-Headers")).toBe("X-PAYMENT-RESPONSE");
+  });
+
+  it("should pay a request without request configuration", async () => {
+    mockPaymentRequired();
+
+    await wrappedFetch("https://api.example.com");
+
+    expect(getRequest(1).method).toBe("GET");
+    expect(getRequest(1).headers.get("X-PAYMENT")).toBe(paymentHeader);
+  });
+
+  it("should pay a request with a URL input", async () => {
+    mockPaymentRequired();
+
+    await wrappedFetch(new URL("https://api.example.com/resource"));
+
+    expect(getRequest(1).url).toBe("https://api.example.com/resource");
+    expect(getRequest(1).headers.get("X-PAYMENT")).toBe(paymentHeader);
+  });
+
+  it("should replay the method, headers and body of a Request input", async () => {
+    mockPaymentRequired();
+
+    await wrappedFetch(
+      new Request("https://api.example.com/resource", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: "weather" }),
+      }),
+    );
+
+    const paidRequest = getRequest(1);
+    expect(paidRequest.method).toBe("POST");
+    expect(paidRequest.headers.get("Content-Type")).toBe("application/json");
+    expect(paidRequest.headers.get("X-PAYMENT")).toBe(paymentHeader);
+    expect(await paidRequest.json()).toEqual({ query: "weather" });
+  });
+
+  it("should buffer a streamed body to replay it", async () => {
+    mockPaymentRequired();
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("streamed "));
+        controller.enqueue(new TextEncoder().encode("body"));
+        controller.close();
       },
-      __is402Retry: true,
-    } as RequestInitWithRetry);
+    });
+
+    await wrappedFetch("https://api.example.com/resource", {
+      method: "POST",
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    expect(await getRequest(0).text()).toBe("streamed body");
+    expect(await getRequest(1).text()).toBe("streamed body");
   });
 
-  it("should not retry if already retried", async () => {
-    const errorResponse = createResponse(402, {
-      accepts: validPaymentRequirements,
+  it.each([
+    ["a Headers instance", new Headers({ "X-Api-Key": "key" })],
+    ["a tuple array", [["X-Api-Key", "key"]] as [string, string][]],
+    ["a record", { "X-Api-Key": "key" }],
+  ])("should keep the headers of %s", async (_, headers) => {
+    mockPaymentRequired();
+
+    await wrappedFetch("https://api.example.com/resource", { headers });
+
+    expect(getRequest(1).headers.get("X-Api-Key")).toBe("key");
+    expect(getRequest(1).headers.get("X-PAYMENT")).toBe(paymentHeader);
+  });
+
+  it("should not pay a paid request again", async () => {
+    const paymentRequiredResponse = () =>
+      createResponse(402, { accepts: validPaymentRequirements, x402Version: 1 });
+    mockFetch.mockImplementation(async () => paymentRequiredResponse());
+
+    const result = await wrappedFetch("https://api.example.com");
+    expect(result.status).toBe(402);
+
+    // a payment-aware fetch that is wrapped again is given the paid request
+    await expect(wrappedFetch(getRequest(1))).rejects.toThrow("Payment already attempted");
+    expect(createPaymentHeader).toHaveBeenCalledTimes(1);
+  });
+
+  describe("receipts", () => {
+    const paymentPayload = {
       x402Version: 1,
+      scheme: "exact",
+      network: "solana-devnet",
+      payload: { transaction: "AQID" },
+    };
+    const settleResponse = {
+      success: true,
+      transaction:
+        "5UfDuX7WXYxjng1PYxWbJmPKDsTfLt8yd5yF3tmVJXTBrMS3YNDqBDcHzNvYDvqo9tJrjjm5oRyJG1pjBnQRsTsC",
+      network: "solana-devnet",
+      payer: "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin",
+    };
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64");
+
+    beforeEach(() => {
+      vi.mocked(createPaymentHeader).mockResolvedValue(encode(paymentPayload));
     });
-    mockFetch.mockResolvedValue(errorResponse);
 
-    await expect(
-      wrappedFetch("https://api.example.com", {
-        __is402Retry: true,
-      } as RequestInitWithRetry),
-    ).rejects.toThrow("Payment already attempted");
+    /**
+     * Creates the response of a paid request with the given X-PAYMENT-RESPONSE header
+     *
+     * @param header - The X-PAYMENT-RESPONSE header of the response
+     * @returns The response of the paid request
+     */
+    const createPaidResponse = (header: string) =>
+      new Response("paid", { status: 200, headers: { "X-PAYMENT-RESPONSE": header } });
+
+    it("should call onPaymentSettled with the receipt of a settled payment", async () => {
+      const onPaymentSettled = vi.fn();
+      wrappedFetch = wrapFetchWithPayment(
+        mockFetch,
+        mockWalletClient,
+        undefined,
+        undefined,
+        undefined,
+        {
+          onPaymentSettled,
+        },
+      );
+      mockPaymentRequired(createPaidResponse(encode(settleResponse)));
+
+      const response = await wrappedFetch("https://api.example.com/resource");
+
+      expect(onPaymentSettled).toHaveBeenCalledWith({
+        url: "https://api.example.com/resource",
+        paymentRequirements: validPaymentRequirements[0],
+        paymentPayload,
+        settleResponse,
+        requestedAt: expect.any(Number),
+        paidAt: expect.any(Number),
+        settledAt: expect.any(Number),
+      });
+      const { requestedAt, paidAt, settledAt } = onPaymentSettled.mock.calls[0][0];
+      expect(requestedAt).toBeLessThanOrEqual(paidAt);
+      expect(paidAt).toBeLessThanOrEqual(settledAt);
+      expect(response.paymentReceipt).toBeUndefined();
+    });
+
+    it("should attach the receipt to the response", async () => {
+      wrappedFetch = wrapFetchWithPayment(
+        mockFetch,
+        mockWalletClient,
+        undefined,
+        undefined,
+        undefined,
+        {
+          attachReceipt: true,
+        },
+      );
+      mockPaymentRequired(createPaidResponse(encode(settleResponse)));
+
+      const response = await wrappedFetch("https://api.example.com/resource");
+
+      expect(response.paymentReceipt?.settleResponse).toEqual(settleResponse);
+      expect(await response.text()).toBe("paid");
+    });
+
+    it("should not create a receipt without X-PAYMENT-RESPONSE header", async () => {
+      const onPaymentSettled = vi.fn();
+      wrappedFetch = wrapFetchWithPayment(
+        mockFetch,
+        mockWalletClient,
+        undefined,
+        undefined,
+        undefined,
+        {
+          onPaymentSettled,
+          attachReceipt: true,
+        },
+      );
+      mockPaymentRequired();
+
+      const response = await wrappedFetch("https://api.example.com/resource");
+
+      expect(onPaymentSettled).not.toHaveBeenCalled();
+      expect(response.paymentReceipt).toBeUndefined();
+    });
+
+    it("should not create a receipt for a failed settlement", async () => {
+      const onPaymentSettled = vi.fn();
+      wrappedFetch = wrapFetchWithPayment(
+        mockFetch,
+        mockWalletClient,
+        undefined,
+        undefined,
+        undefined,
+        {
+          onPaymentSettled,
+          attachReceipt: true,
+        },
+      );
+      mockPaymentRequired(
+        createPaidResponse(
+          encode({ ...settleResponse, success: false, errorReason: "invalid_transaction_state" }),
+        ),
+      );
+
+      const response = await wrappedFetch("https://api.example.com/resource");
+
+      expect(onPaymentSettled).not.toHaveBeenCalled();
+      expect(response.paymentReceipt).toBeUndefined();
+    });
+
+    it("should reject an invalid X-PAYMENT-RESPONSE header", async () => {
+      wrappedFetch = wrapFetchWithPayment(
+        mockFetch,
+        mockWalletClient,
+        undefined,
+        undefined,
+        undefined,
+        {
+          attachReceipt: true,
+        },
+      );
+      mockPaymentRequired(createPaidResponse(encode({ ...settleResponse, network: "unknown" })));
+
+      await expect(wrappedFetch("https://api.example.com/resource")).rejects.toThrow();
+    });
   });
 
-  it("should reject if missing request config", async () => {
-    const errorResponse = createResponse(402, {
-      accepts: validPaymentRequirements,
-      x402Version: 1,
+  describe("budget", () => {
+    let ledger: PaymentLedger;
+    const settleResponse = {
+      success: true,
+      transaction: "0x1234567890123456789012345678901234567890123456789012345678901234",
+      network: "base-sepolia",
+      payer: "0x1234567890123456789012345678901234567890",
+    };
+
+    /**
+     * Creates the response of a paid request with the given settle response
+     *
+     * @param settlement - The settle response of the X-PAYMENT-RESPONSE header
+     * @param status - The status of the response
+     * @returns The response of the paid request
+     */
+    const createSettledResponse = (settlement: unknown, status = 200) =>
+      new Response("paid", {
+        status,
+        headers: {
+          "X-PAYMENT-RESPONSE": Buffer.from(JSON.stringify(settlement)).toString("base64"),
+        },
+      });
+
+    beforeEach(() => {
+      ledger = createInMemoryPaymentLedger();
+      wrappedFetch = wrapFetchWithPayment(
+        mockFetch,
+        mockWalletClient,
+        undefined,
+        undefined,
+        undefined,
+        {
+          budget: {
+            rules: [{ network: "base-sepolia", asset: "USDC", perRequest: "0.1" }],
+            ledger,
+          },
+        },
+      );
     });
-    mockFetch.mockResolvedValue(errorResponse);
 
-    await expect(wrappedFetch("https://api.example.com")).rejects.toThrow(
-      "Missing fetch request configuration",
-    );
+    it("should keep the payment of a settled request", async () => {
+      mockPaymentRequired(createSettledResponse(settleResponse));
+
+      await wrappedFetch("https://api.example.com/resource");
+
+      expect(await ledger.getEntries()).toHaveLength(1);
+    });
+
+    it("should release the payment of a failed settlement", async () => {
+      mockPaymentRequired(
+        createSettledResponse(
+          { ...settleResponse, success: false, errorReason: "invalid_transaction_state" },
+          402,
+        ),
+      );
+
+      await wrappedFetch("https://api.example.com/resource");
+
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of an invalid settlement", async () => {
+      mockPaymentRequired(
+        new Response("paid", { status: 200, headers: { "X-PAYMENT-RESPONSE": "invalid" } }),
+      );
+
+      await expect(wrappedFetch("https://api.example.com/resource")).rejects.toThrow();
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of a request that was not settled", async () => {
+      mockPaymentRequired(createResponse(500, { error: "Internal Server Error" }));
+
+      await wrappedFetch("https://api.example.com/resource");
+
+      expect(await ledger.getEntries()).toEqual([]);
+    });
+
+    it("should release the payment of a request that failed", async () => {
+      const networkError = new TypeError("fetch failed");
+      mockFetch
+        .mockResolvedValueOnce(
+          createResponse(402, { accepts: validPaymentRequirements, x402Version: 1 }),
+        )
+        .mockRejectedValueOnce(networkError);
+
+      await expect(wrappedFetch("https://api.example.com/resource")).rejects.toBe(networkError);
+      expect(await ledger.getEntries()).toEqual([]);
+    });
   });
 
   it("should reject if payment amount exceeds maximum", async () => {
@@ -149,14 +450,13 @@ describe("fetchWithPayment()", () => {
     await expect(
       wrappedFetch("https://api.example.com", {
         method: "GET",
-      } as RequestInitWithRetry),
+      }),
     ).rejects.toThrow("Payment amount exceeds maximum allowed");
   });
 
   it("should reject if payment header creation fails", async () => {
     const paymentError = new Error("Payment failed");
-    const { createPaymentHeader } = await import("x402/client");
-    (createPaymentHeader as ReturnType<typeof vi.fn>).mockRejectedValue(paymentError);
+    vi.mocked(createPaymentHeader).mockRejectedValue(paymentError);
     mockFetch.mockResolvedValue(
       createResponse(402, { accepts: validPaymentRequirements, x402Version: 1 }),
     );
@@ -164,7 +464,7 @@ describe("fetchWithPayment()", () => {
     await expect(
       wrappedFetch("https://api.example.com", {
         method: "GET",
-      } as RequestInitWithRetry),
+      }),
     ).rejects.toBe(paymentError);
   });
 });
@@ -1,19 +1,112 @@
 import {
-  ChainIdToNetwork,
+  PaymentPayload,
+  PaymentRequirements,
   PaymentRequirementsSchema,
+  SettleResponse,
   Signer,
-  evm,
   MultiNetworkSigner,
-  isMultiNetworkSigner,
-  isSvmSignerWallet,
-  Network,
   X402Config,
 } from "../x402/types/index.js";
 import {
+  createPaymentBudgetManager,
   createPaymentHeader,
+  getSignerNetworks,
+  getSignerSchemes,
+  PaymentBudget,
   PaymentRequirementsSelector,
   selectPaymentRequirements,
 } from "../x402/client/index.js";
+import { exact } from "../x402/schemes/index.js";
+import { decodeXPaymentResponse } from "../x402/shared/index.js";
+
+/**
+ * The receipt of a settled payment, e.g. to log the spending and reconcile it with the explorer
+ */
+export interface PaymentReceipt {
+  /**
+   * The URL of the paid request.
+   */
+  url: string;
+  /**
+   * The payment requirements that were paid.
+   */
+  paymentRequirements: PaymentRequirements;
+  /**
+   * The signed payment payload of the `X-PAYMENT` header.
+   */
+  paymentPayload: PaymentPayload;
+  /**
+   * The decoded and validated `X-PAYMENT-RESPONSE` header, with the transaction of the payment.
+   */
+  settleResponse: SettleResponse;
+  /**
+   * The time the request was first sent, in milliseconds since the epoch.
+   */
+  requestedAt: number;
+  /**
+   * The time the paid request was sent, in milliseconds since the epoch.
+   */
+  paidAt: number;
+  /**
+   * The time the response of the paid request was received, in milliseconds since the epoch.
+   */
+  settledAt: number;
+}
+
+/**
+ * A response of a payment-aware fetch, with the receipt of its payment if `attachReceipt` is set
+ */
+export type ResponseWithReceipt = Response & { paymentReceipt?: PaymentReceipt };
+
+/**
+ * Additional options of `wrapFetchWithPayment`
+ */
+export interface WrapFetchWithPaymentOptions {
+  /**
+   * The spending limits of the payments per asset and network, checked before a payment is signed.
+   */
+  budget?: PaymentBudget;
+  /**
+   * Called with the receipt of every payment that the server settled, before the response is
+   * returned.
+   */
+  onPaymentSettled?: (receipt: PaymentReceipt) => void | Promise<void>;
+  /**
+   * Whether to attach the receipt of a settled payment to the response as `paymentReceipt`.
+   */
+  attachReceipt?: boolean;
+}
+
+/**
+ * The requests with a payment header that were sent by a payment-aware fetch, which are never
+ * paid again
+ */
+const paidRequests = new WeakSet<Request>();
+
+/**
+ * Creates copies of a request, so that it can be sent again with a payment header. The body is
+ * buffered once, so that `Request` inputs and streamed bodies can be replayed.
+ *
+ * @param input - The URL or `Request` of the fetch call
+ * @param init - The options of the fetch call, e.g. its method, headers and body
+ * @returns A function that creates a copy of the request with additional headers
+ */
+async function createRequestCloner(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+): Promise<(headers?: Record<string, string>) => Request> {
+  const request = new Request(input, init);
+  const body = request.body ? await request.arrayBuffer() : null;
+
+  return (headers = {}) => {
+    // Headers accepts every header shape of the request: records, tuple arrays and Headers
+    const requestHeaders = new Headers(request.headers);
+    for (const [name, value] of Object.entries(headers)) {
+      requestHeaders.set(name, value);
+    }
+    return new Request(request, { body, headers: requestHeaders });
+  };
+}
 
 /**
  * Enables the payment of APIs using the x402 payment protocol.
@@ -22,7 +115,7 @@ import {
  * by creating and sending a payment header. It will:
  * 1. Make the initial request
  * 2. If a 402 response is received, parse the payment requirements
- * 3. Verify the payment amount is within the allowed maximum
+ * 3. Verify the payment amount is within the allowed maximum and the budget
  * 4. Create a payment header using the provided wallet client
  * 5. Retry the request with the payment header
  *
@@ -31,6 +124,7 @@ import {
  * @param maxValue - The maximum allowed payment amount in base units (defaults to 0.1 USDC)
  * @param paymentRequirementsSelector - A function that selects the payment requirements from the response
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param options - Optional options, e.g. the budget of the payments
  * @returns A wrapped fetch function that handles 402 responses automatically
  *
  * @example
@@ -43,14 +137,24 @@ import {
  *   svmConfig: { rpcUrl: "http://localhost:8899" }
  * });
  *
+ * // With a budget of 0.10 USDC per request and 5 USDC per day, persisted to a file
+ * const fetchWithPay = wrapFetchWithPayment(fetch, wallet, undefined, undefined, undefined, {
+ *   budget: {
+ *     rules: [{ network: "solana", asset: "USDC", perRequest: "0.10", perWindow: "5" }],
+ *     ledger: createFilePaymentLedger("./payments.json"),
+ *   },
+ * });
+ *
  * // Make a request that may require payment
  * const response = await fetchWithPay('https://api.example.com/paid-endpoint');
  * ```
  *
+ * @throws {Error} If none of the payment requirements can be paid
  * @throws {Error} If the payment amount exceeds the maximum allowed value
- * @throws {Error} If the request configuration is missing
+ * @throws {PaymentBudgetError} If the payment is refused by the budget, see `isPaymentBudgetError`
  * @throws {Error} If a payment has already been attempted for this request
  * @throws {Error} If there's an error creating the payment header
+ * @throws {Error} If the X-PAYMENT-RESPONSE header of the paid response is not a valid settle response
  */
 export function wrapFetchWithPayment(
   fetch: typeof globalThis.fetch,
@@ -58,69 +162,131 @@ export function wrapFetchWithPayment(
   maxValue: bigint = BigInt(0.1 * 10 ** 6), // Default to 0.10 USDC
   paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
   config?: X402Config,
+  options: WrapFetchWithPaymentOptions = {},
 ) {
-  return async (input: RequestInfo, init?: RequestInit) => {
-    const response = await fetch(input, init);
+  const budgetManager = options.budget && createPaymentBudgetManager(options.budget);
+
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<ResponseWithReceipt> => {
+    const requestedAt = Date.now();
+    const cloneRequest = await createRequestCloner(input, init);
+    const response = await fetch(cloneRequest());
 
     if (response.status !== 402) {
       return response;
     }
 
+    if (input instanceof Request && paidRequests.has(input)) {
+      throw new Error("Payment already attempted");
+    }
+
     const { x402Version, accepts } = (await response.json()) as {
       x402Version: number;
       accepts: unknown[];
     };
     const parsedPaymentRequirements = accepts.map(x => PaymentRequirementsSchema.parse(x));
 
-    const network = isMultiNetworkSigner(walletClient)
-      ? undefined
-      : evm.isSignerWallet(walletClient as evm.EvmSigner)
-        ? ChainIdToNetwork[(walletClient as evm.SignerWallet).chain?.id]
-        : isSvmSignerWallet(walletClient)
-          ? (["solana", "solana-devnet"] as Network[])
-          : undefined;
+    const network = getSignerNetworks(walletClient);
 
-    const selectedPaymentRequirements = paymentRequirementsSelector(
+    const selectedPaymentRequirements = await paymentRequirementsSelector(
       parsedPaymentRequirements,
       network,
-      "exact",
+      getSignerSchemes(walletClient),
     );
 
     if (BigInt(selectedPaymentRequirements.maxAmountRequired) > maxValue) {
       throw new Error("Payment amount exceeds maximum allowed");
     }
 
-    const paymentHeader = await createPaymentHeader(
-      walletClient,
-      x402Version,
+    // record the payment in the budget before it is signed, and remove it if it is not made
+    const reservation = await budgetManager?.reserve(
       selectedPaymentRequirements,
-      config,
+      cloneRequest().url,
     );
 
-    if (!init) {
-      throw new Error("Missing fetch request configuration");
+    let paymentHeader: string;
+    try {
+      paymentHeader = await createPaymentHeader(
+        walletClient,
+        x402Version,
+        selectedPaymentRequirements,
+        config,
+      );
+    } catch (error) {
+      await reservation?.release();
+      throw error;
     }
 
-    if ((init as { __is402Retry?: boolean }).__is402Retry) {
-      throw new Error("Payment already attempted");
-    }
+    const paidRequest = cloneRequest({
+      "X-PAYMENT": paymentHeader,
+      "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+    });
+    paidRequests.add(paidRequest);
 
-    const newInit = {
-      ...init,
-      headers: {
-        ...(init.headers || {}),
-        "X-PAYMENT": paymentHeader,
-        "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
-      },
-      __is402Retry: true,
-    };
+    const paidAt = Date.now();
+    let secondResponse: ResponseWithReceipt;
+    try {
+      secondResponse = await fetch(paidRequest);
+    } catch (error) {
+      await reservation?.release();
+      throw error;
+    }
 
-    const secondResponse = await fetch(input, newInit);
+    // the header is only readable in browsers if the server exposes it with CORS
+    const paymentResponseHeader = secondResponse.headers.get("X-PAYMENT-RESPONSE");
+    let settleResponse: SettleResponse | undefined;
+    try {
+      settleResponse = paymentResponseHeader
+        ? decodeXPaymentResponse(paymentResponseHeader)
+        : undefined;
+    } finally {
+      if (!settleResponse?.success) {
+        // no successful settlement came back, so the payment was not made
+        await reservation?.release();
+      }
+    }
+    if (settleResponse?.success && (options.onPaymentSettled || options.attachReceipt)) {
+      const receipt: PaymentReceipt = {
+        url: paidRequest.url,
+        paymentRequirements: selectedPaymentRequirements,
+        paymentPayload: exact.evm.decodePayment(paymentHeader),
+        settleResponse,
+        requestedAt,
+        paidAt,
+        settledAt: Date.now(),
+      };
+      if (options.attachReceipt) {
+        secondResponse.paymentReceipt = receipt;
+      }
+      await options.onPaymentSettled?.(receipt);
+    }
     return secondResponse;
   };
 }
 
 export { decodeXPaymentResponse } from "../x402/shared/index.js";
+export type { PaymentPayload, PaymentRequirements, SettleResponse } from "../x402/types/index.js";
 export { createSigner, type Signer, type MultiNetworkSigner, type X402Config } from "../x402/types/index.js";
-export { type PaymentRequirementsSelector } from "../x402/client/index.js";
+export {
+  createInMemoryPaymentLedger,
+  createPaymentRequirementsSelector,
+  createTokenBalanceGetter,
+  isPaymentBudgetError,
+  preferCheapestInUsd,
+  preferNetworks,
+  requireFeePayer,
+  requireTokenBalance,
+  selectPaymentRequirements,
+  type PaymentBudget,
+  type PaymentBudgetError,
+  type PaymentBudgetErrorReason,
+  type PaymentBudgetRule,
+  type PaymentLedger,
+  type PaymentLedgerEntry,
+  type PaymentRequirementsSelector,
+  type PaymentRequirementsStrategy,
+  type TokenBalanceGetter,
+  type UsdPriceOracle,
+  type PendingPayment,
+} from "../x402/client/index.js";
+export { createWalletStandardSigner } from "../x402/shared/svm/walletStandard.js";
 export type { Hex } from "viem";
@@ -0,0 +1,392 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PaymentPayload, RoutesConfig, settleResponseHeader } from "../x402/types";
+import { exact } from "../x402/schemes";
+import { getPaywallHtml } from "../x402/shared";
+import { useFacilitator } from "../x402/verify";
+import { createPaymentHandler, paymentMiddleware, setUptoSettleAmount } from "./index";
+
+vi.mock("../x402/verify/index.js", () => ({
+  useFacilitator: vi.fn().mockReturnValue({
+    verify: vi.fn(),
+    settle: vi.fn(),
+    supported: vi.fn(),
+    list: vi.fn(),
+  }),
+}));
+
+vi.mock("../x402/shared/paywall.js", async importOriginal => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  getPaywallHtml: vi.fn().mockReturnValue("<html>paywall</html>"),
+}));
+
+describe("createPaymentHandler()", () => {
+  const payTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+  const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+  const routes: RoutesConfig = {
+    "GET /weather": { price: "$0.001", network: "solana-devnet" },
+    "POST /completions": { price: "$0.01", network: "solana-devnet", scheme: "upto" },
+  };
+  const payment: PaymentPayload = {
+    scheme: "exact",
+    network: "solana-devnet",
+    x402Version: 1,
+    payload: { transaction: "AQIDBA==" },
+  };
+  const settleResponse = {
+    success: true,
+    transaction: "transactionSignature",
+    network: "solana-devnet" as const,
+    payer: "payerAddress",
+  };
+
+  const { verify, settle, supported } = vi.mocked(useFacilitator)();
+  const handler = vi.fn();
+  let paymentHandler: ReturnType<typeof createPaymentHandler>;
+
+  const paidRequest = (path: string, init?: RequestInit, paymentPayload = payment) =>
+    new Request(`https://api.example.com${path}`, {
+      ...init,
+      headers: { "X-PAYMENT": exact.evm.encodePayment(paymentPayload) },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(supported).mockResolvedValue({
+      kinds: [
+        { x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } },
+        { x402Version: 1, scheme: "upto", network: "solana-devnet", extra: { feePayer } },
+      ],
+    });
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: "payerAddress" });
+    vi.mocked(settle).mockResolvedValue(settleResponse);
+    handler.mockImplementation(async () => Response.json({ weather: "sunny" }));
+    paymentHandler = createPaymentHandler(payTo, routes);
+  });
+
+  it("should call the handler for unprotected routes", async () => {
+    const response = await paymentHandler(new Request("https://api.example.com/free"), handler);
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(await response.json()).toEqual({ weather: "sunny" });
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("should return 402 with the payment requirements if no payment is provided", async () => {
+    const response = await paymentHandler(new Request("https://api.example.com/weather"), handler);
+
+    expect(response.status).toBe(402);
+    const body = await response.json();
+    expect(body.error).toBe("X-PAYMENT header is required");
+    expect(body.accepts).toEqual([
+      expect.objectContaining({
+        scheme: "exact",
+        network: "solana-devnet",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/weather",
+        payTo,
+        extra: { feePayer, decimals: 6, symbol: "USDC" },
+      }),
+    ]);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should return the paywall html to web browsers", async () => {
+    const request = new Request("https://api.example.com/weather?city=paris", {
+      headers: { Accept: "text/html", "User-Agent": "Mozilla/5.0" },
+    });
+
+    const response = await paymentHandler(request, handler);
+
+    expect(response.status).toBe(402);
+    expect(await response.text()).toBe("<html>paywall</html>");
+    expect(getPaywallHtml).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paymentOptions: [
+          expect.objectContaining({
+            networkName: "Solana Devnet",
+            tokenSymbol: "USDC",
+            amount: "0.001",
+            testnet: true,
+          }),
+        ],
+        currentUrl: "/weather?city=paris",
+      }),
+    );
+  });
+
+  it("should render the paywall with the render function of the paywall config", async () => {
+    const render = vi.fn().mockResolvedValue("<html>custom paywall</html>");
+    const theme = { colors: { primary: "#9945ff" } };
+    paymentHandler = createPaymentHandler(payTo, routes, undefined, {
+      theme,
+      locale: "zh-CN",
+      render,
+    });
+    const request = new Request("https://api.example.com/weather", {
+      headers: { Accept: "text/html", "User-Agent": "Mozilla/5.0" },
+    });
+
+    const response = await paymentHandler(request, handler);
+
+    expect(await response.text()).toBe("<html>custom paywall</html>");
+    expect(render).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paymentOptions: [expect.objectContaining({ tokenSymbol: "USDC", amount: "0.001" })],
+        currentUrl: "/weather",
+        theme,
+        locale: "zh-CN",
+      }),
+    );
+    expect(getPaywallHtml).not.toHaveBeenCalled();
+  });
+
+  it("should return 402 if the payment is invalid", async () => {
+    vi.mocked(verify).mockResolvedValue({
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: "payerAddress",
+    });
+
+    const response = await paymentHandler(paidRequest("/weather"), handler);
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toEqual(
+      expect.objectContaining({ error: "insufficient_funds", payer: "payerAddress" }),
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should settle the payment and add the payment response header", async () => {
+    const response = await paymentHandler(paidRequest("/weather"), handler);
+
+    expect(settle).toHaveBeenCalledOnce();
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-RESPONSE")).toBe(settleResponseHeader(settleResponse));
+    expect(await response.json()).toEqual({ weather: "sunny" });
+  });
+
+  it("should not settle the payment if the handler fails", async () => {
+    handler.mockResolvedValue(new Response("Internal error", { status: 500 }));
+
+    const response = await paymentHandler(paidRequest("/weather"), handler);
+
+    expect(settle).not.toHaveBeenCalled();
+    expect(response.status).toBe(500);
+    expect(await response.text()).toBe("Internal error");
+  });
+
+  it("should return 402 instead of the response if settlement fails", async () => {
+    vi.mocked(settle).mockResolvedValue({
+      success: false,
+      errorReason: "settle_exact_svm_block_height_exceeded",
+      transaction: "",
+      network: "solana-devnet",
+    });
+
+    const response = await paymentHandler(paidRequest("/weather"), handler);
+
+    expect(response.status).toBe(402);
+    expect(response.headers.get("X-PAYMENT-RESPONSE")).not.toBeNull();
+    expect((await response.json()).error).toBe("settle_exact_svm_block_height_exceeded");
+  });
+
+  it("should settle the amount reported by the handler for upto payments", async () => {
+    handler.mockImplementation(async (request: Request) => {
+      setUptoSettleAmount(request, 2500n);
+      return Response.json({ text: "hello" });
+    });
+
+    await paymentHandler(
+      paidRequest("/completions", { method: "POST" }, { ...payment, scheme: "upto" }),
+      handler,
+    );
+
+    expect(settle).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        scheme: "upto",
+        extra: { feePayer, decimals: 6, symbol: "USDC", settleAmount: "2500" },
+      }),
+    );
+  });
+
+  it("should not settle upto payments with a settle amount of 0", async () => {
+    handler.mockImplementation(async (request: Request) => {
+      setUptoSettleAmount(request, 0n);
+      return Response.json({ text: "hello" });
+    });
+
+    const response = await paymentHandler(
+      paidRequest("/completions", { method: "POST" }, { ...payment, scheme: "upto" }),
+      handler,
+    );
+
+    expect(settle).not.toHaveBeenCalled();
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-RESPONSE")).toBeNull();
+  });
+
+  it("should leave the body for the handler when the price reads it", async () => {
+    paymentHandler = createPaymentHandler(payTo, {
+      "POST /chat": {
+        price: async request =>
+          ((await request.json()) as { model: string }).model === "large" ? "$0.1" : "$0.01",
+        network: "solana-devnet",
+      },
+    });
+    handler.mockImplementation(async (request: Request) => Response.json(await request.json()));
+
+    const response = await paymentHandler(
+      paidRequest("/chat", { method: "POST", body: JSON.stringify({ model: "large" }) }),
+      handler,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ model: "large" });
+    expect(verify).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ maxAmountRequired: "100000" }),
+    );
+  });
+
+  it("should price the paid retry from the request instead of the payment", async () => {
+    paymentHandler = createPaymentHandler(payTo, {
+      "POST /images": {
+        price: request =>
+          new URL(request.url).searchParams.get("size") === "4k" ? "$0.1" : "$0.01",
+        network: "solana-devnet",
+      },
+    });
+
+    const quote = await paymentHandler(
+      new Request("https://api.example.com/images?size=hd", { method: "POST" }),
+      handler,
+    );
+    await paymentHandler(paidRequest("/images?size=4k", { method: "POST" }), handler);
+
+    expect((await quote.json()).accepts[0].maxAmountRequired).toBe("10000");
+    expect(verify).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ maxAmountRequired: "100000" }),
+    );
+  });
+
+  it("should reject upto settle amounts above the maximum amount", async () => {
+    handler.mockImplementation(async (request: Request) => {
+      setUptoSettleAmount(request, 10001n);
+      return Response.json({ text: "hello" });
+    });
+
+    await expect(
+      paymentHandler(
+        paidRequest("/completions", { method: "POST" }, { ...payment, scheme: "upto" }),
+        handler,
+      ),
+    ).rejects.toThrow("The settle amount 10001 must be between 0 and 10000");
+  });
+});
+
+describe("paymentMiddleware()", () => {
+  const payTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+  const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+  const { verify, settle, supported } = vi.mocked(useFacilitator)();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(supported).mockResolvedValue({
+      kinds: [{ x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } }],
+    });
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: "payerAddress" });
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction: "transactionSignature",
+      network: "solana-devnet",
+    });
+  });
+
+  it("should return the 402 response without calling next", async () => {
+    const middleware = paymentMiddleware(payTo, {
+      "/weather": { price: "$0.001", network: "solana-devnet" },
+    });
+    const next = vi.fn();
+    const c = { req: { raw: new Request("https://api.example.com/weather") }, res: new Response() };
+
+    const response = await middleware(c, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response?.status).toBe(402);
+  });
+
+  it("should replace the response of the route with the settled response", async () => {
+    const middleware = paymentMiddleware(payTo, {
+      "/weather": { price: "$0.001", network: "solana-devnet" },
+    });
+    const request = new Request("https://api.example.com/weather", {
+      headers: {
+        "X-PAYMENT": exact.evm.encodePayment({
+          scheme: "exact",
+          network: "solana-devnet",
+          x402Version: 1,
+          payload: { transaction: "AQIDBA==" },
+        }),
+      },
+    });
+    const c = { req: { raw: request }, res: new Response() };
+    const next = vi.fn().mockImplementation(async () => {
+      c.res = Response.json({ weather: "sunny" });
+    });
+
+    const response = await middleware(c, next);
+
+    expect(response).toBeUndefined();
+    expect(next).toHaveBeenCalledOnce();
+    expect(c.res.headers.get("X-PAYMENT-RESPONSE")).not.toBeNull();
+    expect(await c.res.json()).toEqual({ weather: "sunny" });
+  });
+
+  it("should not copy the headers of the route into the 402 of a failed settlement", async () => {
+    vi.mocked(settle).mockResolvedValue({
+      success: false,
+      errorReason: "settle_exact_svm_block_height_exceeded",
+      transaction: "",
+      network: "solana-devnet",
+    });
+    const middleware = paymentMiddleware(payTo, {
+      "/weather": { price: "$0.001", network: "solana-devnet" },
+    });
+    const request = new Request("https://api.example.com/weather", {
+      headers: {
+        "X-PAYMENT": exact.evm.encodePayment({
+          scheme: "exact",
+          network: "solana-devnet",
+          x402Version: 1,
+          payload: { transaction: "AQIDBA==" },
+        }),
+      },
+    });
+    // like the Hono context, copies the headers of the current response into a new one
+    let res: Response | undefined = new Response();
+    const c = {
+      req: { raw: request },
+      get res() {
+        return res!;
+      },
+      set res(response: Response | undefined) {
+        if (res && response) {
+          response = new Response(response.body, response);
+          res.headers.forEach((value, key) => response!.headers.set(key, value));
+        }
+        res = response;
+      },
+    };
+    const next = vi.fn().mockImplementation(async () => {
+      c.res = Response.json({ weather: "sunny" }, { headers: { "X-Secret": "secret" } });
+    });
+
+    await middleware(c, next);
+
+    expect(c.res.status).toBe(402);
+    expect(c.res.headers.get("X-Secret")).toBeNull();
+    expect((await c.res.json()).error).toBe("settle_exact_svm_block_height_exceeded");
+  });
+});
@@ -0,0 +1,363 @@
+import { Address } from "viem";
+import { Address as SolanaAddress } from "@solana/kit";
+import { exact } from "../x402/schemes/index.js";
+import {
+  buildPaymentRequirements,
+  computeRoutePatterns,
+  findMatchingPaymentRequirements,
+  findMatchingRoute,
+  getPaywallHtml,
+  getPaywallPaymentOptions,
+  PaywallOptions,
+  resolveRouteConfig,
+  toJsonSafe,
+} from "../x402/shared/index.js";
+import {
+  FacilitatorConfig,
+  PaymentPayload,
+  PaywallConfig,
+  PaymentMiddlewareConfig as BasePaymentMiddlewareConfig,
+  Resource,
+  RouteConfig as BaseRouteConfig,
+  RoutesConfig as BaseRoutesConfig,
+  settleResponseHeader,
+  X402Config,
+} from "../x402/types/index.js";
+import { useFacilitator } from "../x402/verify/index.js";
+
+/**
+ * A WHATWG fetch handler, e.g. the protected route of a Bun, Deno or edge runtime server
+ */
+export type FetchHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * The subset of the Hono context that the payment middleware needs
+ */
+export type HonoContext = {
+  req: { raw: Request };
+  get res(): Response;
+  set res(response: Response | undefined);
+};
+
+/**
+ * The maximum and reported settle amounts of the upto payments that are being served
+ */
+const uptoPayments = new WeakMap<Request, { maxAmountRequired: bigint; settleAmount?: bigint }>();
+
+/**
+ * Sets the amount that is charged for an upto payment, must be called by the route handler
+ * before it returns its response. If it is never called, the maximum amount is charged.
+ *
+ * @param request - The request that is paid with an upto payment
+ * @param amount - The amount to charge in atomic units of the asset
+ */
+export function setUptoSettleAmount(request: Request, amount: string | bigint): void {
+  const uptoPayment = uptoPayments.get(request);
+  if (!uptoPayment) {
+    throw new Error("The request is not paid with an upto payment");
+  }
+
+  const settleAmount = BigInt(amount);
+  if (settleAmount < 0n || settleAmount > uptoPayment.maxAmountRequired) {
+    throw new Error(
+      `The settle amount ${settleAmount} must be between 0 and ${uptoPayment.maxAmountRequired}`,
+    );
+  }
+
+  uptoPayment.settleAmount = settleAmount;
+}
+
+/**
+ * Creates a payment handler for any server built on the WHATWG Fetch API (Bun, Deno, Cloudflare
+ * Workers, ...). The returned function verifies the payment of a request, calls the protected
+ * handler, buffers its response and settles the payment before returning the response.
+ *
+ * @param payTo - The address to receive payments
+ * @param routes - Configuration for protected routes and their payment requirements
+ * @param facilitator - Optional configuration for the payment facilitator service
+ * @param paywall - Optional configuration for the default paywall
+ * @param x402Config - Optional X402 configuration including custom token settings
+ * @returns A function that serves a request through the protected handler
+ *
+ * @example
+ * ```typescript
+ * const withPayment = createPaymentHandler('SolanaAddress...', {
+ *   '/weather': { price: '$0.001', network: 'solana-devnet' },
+ * });
+ *
+ * Bun.serve({
+ *   fetch: request => withPayment(request, () => Response.json({ weather: 'sunny' })),
+ * });
+ * ```
+ */
+export function createPaymentHandler(
+  payTo: Address | SolanaAddress,
+  routes: RoutesConfig<Request>,
+  facilitator?: FacilitatorConfig,
+  paywall?: PaywallConfig,
+  x402Config?: X402Config,
+) {
+  const { verify, settle, supported } = useFacilitator(facilitator);
+  const x402Version = 1;
+
+  // Pre-compile route patterns to regex and extract verbs
+  const routePatterns = computeRoutePatterns(routes);
+
+  return async function paymentHandler(request: Request, handler: FetchHandler): Promise<Response> {
+    const url = new URL(request.url);
+    const matchingRoute = findMatchingRoute(
+      routePatterns,
+      url.pathname,
+      request.method.toUpperCase(),
+    );
+
+    if (!matchingRoute) {
+      return await handler(request);
+    }
+
+    // resolve the route from a copy, so that reading its body leaves the body for the handler
+    const routeConfig = await resolveRouteConfig(matchingRoute.config, request.clone());
+    const { customPaywallHtml } = routeConfig.config ?? {};
+
+    const paymentRequirements = await buildPaymentRequirements({
+      payTo,
+      routeConfig,
+      method: request.method,
+      resourceUrl: `${url.origin}${url.pathname}` as Resource,
+      facilitatorSupported: supported,
+      x402Config,
+    });
+
+    const payment = request.headers.get("X-PAYMENT");
+    const userAgent = request.headers.get("User-Agent") || "";
+    const acceptHeader = request.headers.get("Accept") || "";
+    const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
+
+    if (!payment) {
+      if (isWebBrowser) {
+        const paywallOptions: PaywallOptions = {
+          paymentOptions: getPaywallPaymentOptions(
+            toJsonSafe(paymentRequirements) as typeof paymentRequirements,
+          ),
+          currentUrl: `${url.pathname}${url.search}`,
+          cdpClientKey: paywall?.cdpClientKey,
+          appName: paywall?.appName,
+          appLogo: paywall?.appLogo,
+          sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
+          svmRpcUrl: paywall?.svmRpcUrl,
+          theme: paywall?.theme,
+          locale: paywall?.locale,
+          messages: paywall?.messages,
+          header: paywall?.header,
+          footer: paywall?.footer,
+        };
+        const html =
+          customPaywallHtml ||
+          (paywall?.render ? await paywall.render(paywallOptions) : getPaywallHtml(paywallOptions));
+        return new Response(html, {
+          status: 402,
+          headers: { "Content-Type": "text/html; charset=utf-8" },
+        });
+      }
+      return Response.json(
+        {
+          x402Version,
+          error: "X-PAYMENT header is required",
+          accepts: toJsonSafe(paymentRequirements),
+        },
+        { status: 402 },
+      );
+    }
+
+    let decodedPayment: PaymentPayload;
+    try {
+      decodedPayment = exact.evm.decodePayment(payment);
+      decodedPayment.x402Version = x402Version;
+    } catch (error) {
+      console.error(error);
+      return Response.json(
+        {
+          x402Version,
+          error: error || "Invalid or malformed payment header",
+          accepts: toJsonSafe(paymentRequirements),
+        },
+        { status: 402 },
+      );
+    }
+
+    const selectedPaymentRequirements = await findMatchingPaymentRequirements(
+      paymentRequirements,
+      decodedPayment,
+    );
+    if (!selectedPaymentRequirements) {
+      return Response.json(
+        {
+          x402Version,
+          error: "Unable to find matching payment requirements",
+          accepts: toJsonSafe(paymentRequirements),
+        },
+        { status: 402 },
+      );
+    }
+
+    try {
+      const response = await verify(decodedPayment, selectedPaymentRequirements);
+      if (!response.isValid) {
+        return Response.json(
+          {
+            x402Version,
+            error: response.invalidReason,
+            accepts: toJsonSafe(paymentRequirements),
+            payer: response.payer,
+          },
+          { status: 402 },
+        );
+      }
+    } catch (error) {
+      console.error(error);
+      return Response.json(
+        {
+          x402Version,
+          error,
+          accepts: toJsonSafe(paymentRequirements),
+        },
+        { status: 402 },
+      );
+    }
+
+    // let the route handler report the amount to charge for an upto payment
+    if (selectedPaymentRequirements.scheme === "upto") {
+      uptoPayments.set(request, {
+        maxAmountRequired: BigInt(selectedPaymentRequirements.maxAmountRequired),
+      });
+    }
+
+    // Call the protected handler and buffer its response, so that it is complete before settling
+    const response = await handler(request);
+    const body = response.body === null ? null : await response.arrayBuffer();
+
+    // If the response from the protected route is >= 400, do not settle payment
+    if (response.status >= 400) {
+      return new Response(body, response);
+    }
+
+    const headers = new Headers(response.headers);
+    try {
+      const uptoPayment = uptoPayments.get(request);
+      // nothing is charged, so the payment is not settled
+      if (uptoPayment?.settleAmount === 0n) {
+        return new Response(body, response);
+      }
+      if (uptoPayment) {
+        selectedPaymentRequirements.extra = {
+          ...selectedPaymentRequirements.extra,
+          settleAmount: (uptoPayment.settleAmount ?? uptoPayment.maxAmountRequired).toString(),
+        };
+      }
+
+      const settleResponse = await settle(decodedPayment, selectedPaymentRequirements);
+      const responseHeader = settleResponseHeader(settleResponse);
+
+      // if the settle fails, return an error
+      if (!settleResponse.success) {
+        return Response.json(
+          {
+            x402Version,
+            error: settleResponse.errorReason,
+            accepts: toJsonSafe(paymentRequirements),
+          },
+          { status: 402, headers: { "X-PAYMENT-RESPONSE": responseHeader } },
+        );
+      }
+
+      headers.set("X-PAYMENT-RESPONSE", responseHeader);
+    } catch (error) {
+      console.error(error);
+      return Response.json(
+        {
+          x402Version,
+          error,
+          accepts: toJsonSafe(paymentRequirements),
+        },
+        { status: 402 },
+      );
+    }
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Creates a payment middleware for Hono
+ *
+ * @param payTo - The address to receive payments
+ * @param routes - Configuration for protected routes and their payment requirements
+ * @param facilitator - Optional configuration for the payment facilitator service
+ * @param paywall - Optional configuration for the default paywall
+ * @param x402Config - Optional X402 configuration including custom token settings
+ * @returns A Hono middleware handler
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono();
+ *
+ * app.use(paymentMiddleware('SolanaAddress...', {
+ *   '/weather': { price: '$0.001', network: 'solana-devnet' },
+ * }));
+ * ```
+ */
+export function paymentMiddleware(
+  payTo: Address | SolanaAddress,
+  routes: RoutesConfig<Request>,
+  facilitator?: FacilitatorConfig,
+  paywall?: PaywallConfig,
+  x402Config?: X402Config,
+) {
+  const paymentHandler = createPaymentHandler(payTo, routes, facilitator, paywall, x402Config);
+
+  return async function paymentMiddleware(
+    c: HonoContext,
+    next: () => Promise<void>,
+  ): Promise<Response | void> {
+    let nextCalled = false;
+    const response = await paymentHandler(c.req.raw, async () => {
+      nextCalled = true;
+      await next();
+      return c.res;
+    });
+
+    // replace the response of the protected route with the settled (or rejected) one
+    if (nextCalled) {
+      if (response !== c.res) {
+        // Hono copies the headers of the current response into a new one, so clear it first to
+        // not leak the headers of the route into a 402 of a failed settlement
+        c.res = undefined;
+        c.res = response;
+      }
+      return;
+    }
+    return response;
+  };
+}
+
+/**
+ * The payment config of a route, whose request values are resolved from the Fetch `Request`
+ */
+export type PaymentMiddlewareConfig<TRequest = Request> = BasePaymentMiddlewareConfig<TRequest>;
+
+/**
+ * The config of a protected route, whose request values are resolved from the Fetch `Request`
+ */
+export type RouteConfig<TRequest = Request> = BaseRouteConfig<TRequest>;
+
+/**
+ * The protected routes, whose request values are resolved from the Fetch `Request`
+ */
+export type RoutesConfig<TRequest = Request> = BaseRoutesConfig<TRequest>;
+
+export type { Money, Network, Resource, X402Config, TokenConfig } from "../x402/types/index.js";
+export type { Address as SolanaAddress } from "@solana/kit";
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PaymentPayload, RouteConfig } from "../x402/types";
+import { exact } from "../x402/schemes";
+import { getPaywallHtml } from "../x402/shared";
+import { useFacilitator } from "../x402/verify";
+import { paymentMiddleware, withPayment } from "./index";
+
+vi.mock("../x402/verify/index.js", () => ({
+  useFacilitator: vi.fn().mockReturnValue({
+    verify: vi.fn(),
+    settle: vi.fn(),
+    supported: vi.fn(),
+    list: vi.fn(),
+  }),
+}));
+
+vi.mock("../x402/shared/paywall.js", async importOriginal => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  getPaywallHtml: vi.fn().mockReturnValue("<html>paywall</html>"),
+}));
+
+describe("x402-next", () => {
+  const payTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+  const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+  const routeConfig: RouteConfig = { price: "$0.001", network: "solana-devnet" };
+  const payment: PaymentPayload = {
+    scheme: "exact",
+    network: "solana-devnet",
+    x402Version: 1,
+    payload: { transaction: "AQIDBA==" },
+  };
+
+  const { verify, settle, supported } = vi.mocked(useFacilitator)();
+
+  const paidRequest = (url: string) =>
+    new Request(url, { headers: { "X-PAYMENT": exact.evm.encodePayment(payment) } });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(supported).mockResolvedValue({
+      kinds: [{ x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } }],
+    });
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: "payerAddress" });
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction: "transactionSignature",
+      network: "solana-devnet",
+    });
+  });
+
+  describe("paymentMiddleware()", () => {
+    const middleware = paymentMiddleware(payTo, { "/api/weather": routeConfig });
+
+    it("should continue to unprotected routes", async () => {
+      const response = await middleware(new Request("https://example.com/api/free"));
+
+      expect(response.headers.get("x-middleware-next")).toBe("1");
+      expect(verify).not.toHaveBeenCalled();
+    });
+
+    it("should return the JSON 402 body to API clients", async () => {
+      const response = await middleware(new Request("https://example.com/api/weather"));
+
+      expect(response.status).toBe(402);
+      expect((await response.json()).error).toBe("X-PAYMENT header is required");
+    });
+
+    it("should return the paywall html to web browsers", async () => {
+      const response = await middleware(
+        new Request("https://example.com/api/weather", {
+          headers: { Accept: "text/html", "User-Agent": "Mozilla/5.0" },
+        }),
+      );
+
+      expect(response.status).toBe(402);
+      expect(await response.text()).toBe("<html>paywall</html>");
+      expect(getPaywallHtml).toHaveBeenCalledOnce();
+    });
+
+    it("should settle the payment and continue to the route", async () => {
+      const response = await middleware(paidRequest("https://example.com/api/weather"));
+
+      expect(settle).toHaveBeenCalledOnce();
+      expect(response.body).toBeNull();
+      expect(response.headers.get("x-middleware-next")).toBe("1");
+      expect(response.headers.get("X-PAYMENT-RESPONSE")).not.toBeNull();
+    });
+  });
+
+  describe("withPayment()", () => {
+    const handler = vi.fn();
+    const GET = withPayment(handler, routeConfig, payTo);
+
+    beforeEach(() => {
+      handler.mockResolvedValue(Response.json({ weather: "sunny" }));
+    });
+
+    it("should return 402 without calling the handler if no payment is provided", async () => {
+      const response = await GET(new Request("https://example.com/api/weather"), {});
+
+      expect(response.status).toBe(402);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should call the handler with its context and settle after it resolves", async () => {
+      const request = paidRequest("https://example.com/api/weather");
+      const context = { params: Promise.resolve({}) };
+
+      const response = await GET(request, context);
+
+      expect(handler).toHaveBeenCalledWith(request, context);
+      expect(settle).toHaveBeenCalledOnce();
+      expect(response.headers.get("X-PAYMENT-RESPONSE")).not.toBeNull();
+      expect(await response.json()).toEqual({ weather: "sunny" });
+    });
+
+    it("should not settle the payment if the handler fails", async () => {
+      handler.mockResolvedValue(new Response("Internal error", { status: 500 }));
+
+      const response = await GET(paidRequest("https://example.com/api/weather"), {});
+
+      expect(settle).not.toHaveBeenCalled();
+      expect(response.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { Address } from "viem";
+import { Address as SolanaAddress } from "@solana/kit";
+import { createPaymentHandler } from "../x402-hono/index.js";
+import {
+  FacilitatorConfig,
+  PaymentMiddlewareConfig as BasePaymentMiddlewareConfig,
+  PaywallConfig,
+  RouteConfig as BaseRouteConfig,
+  RoutesConfig as BaseRoutesConfig,
+  X402Config,
+} from "../x402/types/index.js";
+
+export { setUptoSettleAmount } from "../x402-hono/index.js";
+
+/**
+ * Creates a payment middleware for the Next.js `middleware.ts` file
+ *
+ * Next.js middleware runs before the route and cannot see its response, so the payment is
+ * verified and settled before the request continues to the route. Use `withPayment` to only
+ * settle once a route handler has succeeded.
+ *
+ * @param payTo - The address to receive payments
+ * @param routes - Configuration for protected routes and their payment requirements
+ * @param facilitator - Optional configuration for the payment facilitator service
+ * @param paywall - Optional configuration for the default paywall
+ * @param x402Config - Optional X402 configuration including custom token settings
+ * @returns A Next.js middleware function
+ *
+ * @example
+ * ```typescript
+ * // middleware.ts
+ * export const middleware = paymentMiddleware('SolanaAddress...', {
+ *   '/api/weather': { price: '$0.001', network: 'solana-devnet' },
+ * });
+ *
+ * export const config = { matcher: ['/api/:path*'] };
+ * ```
+ */
+export function paymentMiddleware(
+  payTo: Address | SolanaAddress,
+  routes: RoutesConfig<Request>,
+  facilitator?: FacilitatorConfig,
+  paywall?: PaywallConfig,
+  x402Config?: X402Config,
+) {
+  const paymentHandler = createPaymentHandler(payTo, routes, facilitator, paywall, x402Config);
+
+  return async function paymentMiddleware(request: Request): Promise<Response> {
+    return await paymentHandler(request, continueToRoute);
+  };
+}
+
+/**
+ * Wraps a Next.js App Router route handler so that it requires a payment. The payment is verified
+ * before the handler is called and settled after it resolves with a status code below 400.
+ *
+ * @param handler - The route handler to protect
+ * @param routeConfig - The payment requirements of the route
+ * @param payTo - The address to receive payments
+ * @param facilitator - Optional configuration for the payment facilitator service
+ * @param paywall - Optional configuration for the default paywall
+ * @param x402Config - Optional X402 configuration including custom token settings
+ * @returns The protected route handler
+ *
+ * @example
+ * ```typescript
+ * // app/api/weather/route.ts
+ * export const GET = withPayment(
+ *   async () => Response.json({ weather: 'sunny' }),
+ *   { price: '$0.001', network: 'solana-devnet' },
+ *   'SolanaAddress...',
+ * );
+ * ```
+ */
+export function withPayment<R extends Request, A extends unknown[]>(
+  handler: (request: R, ...args: A) => Response | Promise<Response>,
+  routeConfig: RouteConfig<Request>,
+  payTo: Address | SolanaAddress,
+  facilitator?: FacilitatorConfig,
+  paywall?: PaywallConfig,
+  x402Config?: X402Config,
+) {
+  // the handler is only mounted on its own route, so the payment applies to every request
+  const paymentHandler = createPaymentHandler(
+    payTo,
+    { "*": routeConfig },
+    facilitator,
+    paywall,
+    x402Config,
+  );
+
+  return async function protectedHandler(request: R, ...args: A): Promise<Response> {
+    return await paymentHandler(request, () => handler(request, ...args));
+  };
+}
+
+/**
+ * Lets the request continue to the route, the equivalent of `NextResponse.next()`
+ *
+ * @returns A response that tells Next.js to continue to the route
+ */
+function continueToRoute(): Response {
+  return new Response(null, { headers: { "x-middleware-next": "1" } });
+}
+
+/**
+ * The payment config of a route, whose request values are resolved from the Fetch `Request`
+ */
+export type PaymentMiddlewareConfig<TRequest = Request> = BasePaymentMiddlewareConfig<TRequest>;
+
+/**
+ * The config of a protected route, whose request values are resolved from the Fetch `Request`
+ */
+export type RouteConfig<TRequest = Request> = BaseRouteConfig<TRequest>;
+
+/**
+ * The protected routes, whose request values are resolved from the Fetch `Request`
+ */
+export type RoutesConfig<TRequest = Request> = BaseRoutesConfig<TRequest>;
+
+export type { Money, Network, Resource, X402Config, TokenConfig } from "../x402/types/index.js";
+export type { Address as SolanaAddress } from "@solana/kit";
@@ -1,5 +1,6 @@
 import { createPaymentHeader as createPaymentHeaderExactEVM } from "../schemes/exact/evm/client.js";
 import { createPaymentHeader as createPaymentHeaderExactSVM } from "../schemes/exact/svm/client.js";
+import { createPaymentHeader as createPaymentHeaderUptoSVM } from "../schemes/upto/svm/client.js";
 import { isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Signer, SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared/index.js";
 import { PaymentRequirements } from "../types/verify/index.js";
 import { X402Config } from "../types/config.js";
@@ -51,5 +52,24 @@ export async function createPaymentHeader(
     }
     throw new Error("Unsupported network");
   }
+
+  // upto scheme
+  if (paymentRequirements.scheme === "upto") {
+    // svm
+    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
+      const svmClient = isMultiNetworkSigner(client) ? client.svm : client;
+      if (!isSvmSignerWallet(svmClient)) {
+        throw new Error("Invalid svm wallet client provided");
+      }
+
+      return await createPaymentHeaderUptoSVM(
+        svmClient,
+        x402Version,
+        paymentRequirements,
+        config,
+      );
+    }
+    throw new Error("Unsupported network");
+  }
   throw new Error("Unsupported scheme");
 }
\ No newline at end of file
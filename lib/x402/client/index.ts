@@ -1,4 +1,6 @@
 export * from "./createPaymentHeader.js";
+export * from "./paymentBudget.js";
+export * from "./paymentRequirementsStrategies.js";
 export * from "./preparePaymentHeader.js";
 export * from "./selectPaymentRequirements.js";
 export * from "./signPaymentHeader.js";
\ No newline at end of file
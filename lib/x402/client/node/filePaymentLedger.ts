@@ -0,0 +1,82 @@
+import { readFile, rename, writeFile } from "fs/promises";
+import { PaymentLedger, PaymentLedgerEntry } from "../paymentBudget.js";
+
+/**
+ * Creates a payment ledger that persists its payments to a JSON file. It is only available in
+ * Node.js, from the `x402-sdk-for-solana/client/node` entry point.
+ * Writes are serialized within the process, so a file must not be shared
+ * between several client processes.
+ *
+ * @param path - The path of the JSON file to store the payments in
+ * @returns A payment ledger backed by the given file
+ */
+export function createFilePaymentLedger(path: string): PaymentLedger {
+  let entries: PaymentLedgerEntry[] | undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Loads the payments from the file, starting an empty ledger if the file does not exist.
+   *
+   * @returns The recorded payments
+   */
+  async function load(): Promise<PaymentLedgerEntry[]> {
+    if (entries) {
+      return entries;
+    }
+    try {
+      entries = JSON.parse(await readFile(path, "utf8")) as PaymentLedgerEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      entries = [];
+    }
+    return entries;
+  }
+
+  /**
+   * Writes the payments to a temporary file and moves it over the ledger file.
+   *
+   * @param data - The payments to persist
+   */
+  async function persist(data: PaymentLedgerEntry[]): Promise<void> {
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data), "utf8");
+    await rename(tmpPath, path);
+  }
+
+  /**
+   * Runs the given operation after every previously queued operation has finished.
+   *
+   * @param operation - The operation to run
+   * @returns The result of the operation
+   */
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    getEntries() {
+      return enqueue(async () => [...(await load())]);
+    },
+    add(entry) {
+      return enqueue(async () => {
+        const data = await load();
+        data.push(entry);
+        await persist(data);
+      });
+    },
+    remove(id) {
+      return enqueue(async () => {
+        const data = await load();
+        const index = data.findIndex(entry => entry.id === id);
+        if (index !== -1) {
+          data.splice(index, 1);
+          await persist(data);
+        }
+      });
+    },
+  };
+}
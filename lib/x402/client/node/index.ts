@@ -0,0 +1 @@
+export * from "./filePaymentLedger.js";
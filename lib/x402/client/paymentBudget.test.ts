@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PaymentRequirements } from "../types/verify";
+import { createFilePaymentLedger } from "./node";
+import {
+  createInMemoryPaymentLedger,
+  createPaymentBudgetManager,
+  isPaymentBudgetError,
+  PaymentBudgetErrorReason,
+  PaymentBudgetManager,
+} from "./paymentBudget";
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "solana-devnet",
+  payTo: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4",
+  asset: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+  maxAmountRequired: "100000", // 0.1 USDC
+  resource: "https://api.example.com/weather",
+  description: "Weather data",
+  mimeType: "application/json",
+  maxTimeoutSeconds: 60,
+  extra: { feePayer: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd" },
+};
+
+/**
+ * Expects a reservation to be refused by the budget for the given reason
+ *
+ * @param reservation - The reservation of the payment
+ * @param reason - The expected reason of the refusal
+ */
+async function expectRefused(
+  reservation: Promise<unknown>,
+  reason: PaymentBudgetErrorReason,
+): Promise<void> {
+  const error = await reservation.catch(error => error);
+  expect(isPaymentBudgetError(error)).toBe(true);
+  expect(error.reason).toBe(reason);
+}
+
+describe("createPaymentBudgetManager", () => {
+  it("should look up the asset and decimals of a rule in the token registry", async () => {
+    const manager = createPaymentBudgetManager({
+      rules: [{ network: "solana-devnet", asset: "USDC", perRequest: "0.1" }],
+    });
+
+    await manager.reserve(paymentRequirements, "https://api.example.com/weather");
+    await expectRefused(
+      manager.reserve(
+        { ...paymentRequirements, maxAmountRequired: "100001" },
+        "https://api.example.com/weather",
+      ),
+      "per_request_limit_exceeded",
+    );
+  });
+
+  it("should throw if the decimals of an unknown asset are not set", () => {
+    expect(() =>
+      createPaymentBudgetManager({
+        rules: [{ network: "solana", asset: "YourTokenMint", perRequest: "1" }],
+      }),
+    ).toThrow("Unknown decimals of the asset YourTokenMint on solana");
+  });
+
+  it("should refuse assets without a rule", async () => {
+    const manager = createPaymentBudgetManager({
+      rules: [{ network: "solana-devnet", asset: "USDC", perRequest: "1" }],
+    });
+
+    await expectRefused(
+      manager.reserve(
+        { ...paymentRequirements, asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU" },
+        "https://api.example.com/weather",
+      ),
+      "asset_not_budgeted",
+    );
+  });
+
+  describe("limits", () => {
+    let manager: PaymentBudgetManager;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      manager = createPaymentBudgetManager({
+        rules: [
+          {
+            network: "solana-devnet",
+            asset: "USDC",
+            perHost: "0.2",
+            perWindow: "0.3",
+            windowMs: 60_000,
+            lifetime: "0.4",
+          },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should limit the payments to a host", async () => {
+      await manager.reserve(paymentRequirements, "https://api.example.com/weather");
+      await manager.reserve(paymentRequirements, "https://api.example.com/news");
+
+      await expectRefused(
+        manager.reserve(paymentRequirements, "https://api.example.com/weather"),
+        "per_host_limit_exceeded",
+      );
+      await manager.reserve(paymentRequirements, "https://other.example.com/weather");
+    });
+
+    it("should limit the payments within the time window", async () => {
+      await manager.reserve(paymentRequirements, "https://a.example.com");
+      await manager.reserve(paymentRequirements, "https://b.example.com");
+      await manager.reserve(paymentRequirements, "https://c.example.com");
+
+      await expectRefused(
+        manager.reserve(paymentRequirements, "https://d.example.com"),
+        "window_limit_exceeded",
+      );
+      vi.advanceTimersByTime(60_000);
+      await manager.reserve(paymentRequirements, "https://d.example.com");
+    });
+
+    it("should limit the payments over the lifetime", async () => {
+      for (const host of ["a", "b", "c", "d"]) {
+        await manager.reserve(paymentRequirements, `https://${host}.example.com`);
+        vi.advanceTimersByTime(60_000);
+      }
+
+      await expectRefused(
+        manager.reserve(paymentRequirements, "https://e.example.com"),
+        "lifetime_limit_exceeded",
+      );
+    });
+
+    it("should not count released payments", async () => {
+      const reservation = await manager.reserve(paymentRequirements, "https://a.example.com");
+      await manager.reserve(paymentRequirements, "https://a.example.com");
+      await reservation.release();
+
+      await manager.reserve(paymentRequirements, "https://a.example.com");
+    });
+
+    it("should not exceed the budget with concurrent payments", async () => {
+      const results = await Promise.allSettled(
+        ["a", "b", "c", "d"].map(host =>
+          manager.reserve(paymentRequirements, `https://${host}.example.com`),
+        ),
+      );
+
+      expect(results.map(result => result.status)).toEqual([
+        "fulfilled",
+        "fulfilled",
+        "fulfilled",
+        "rejected",
+      ]);
+    });
+  });
+
+  it("should ask for approval of payments within the budget", async () => {
+    const onBeforePay = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const ledger = createInMemoryPaymentLedger();
+    const manager = createPaymentBudgetManager({
+      rules: [{ network: "solana-devnet", asset: "USDC" }],
+      ledger,
+      onBeforePay,
+    });
+
+    await manager.reserve(paymentRequirements, "https://api.example.com/weather");
+    await expectRefused(
+      manager.reserve(paymentRequirements, "https://api.example.com/weather"),
+      "payment_not_approved",
+    );
+
+    expect(onBeforePay).toHaveBeenCalledWith({
+      paymentRequirements,
+      url: "https://api.example.com/weather",
+      host: "api.example.com",
+      amount: "0.1",
+    });
+    expect(await ledger.getEntries()).toHaveLength(1);
+  });
+});
+
+describe("createFilePaymentLedger", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-payment-ledger-"));
+    path = join(dir, "payments.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep the spending of a budget across ledger instances", async () => {
+    const rules = [{ network: "solana-devnet" as const, asset: "USDC", lifetime: "0.1" }];
+    const manager = createPaymentBudgetManager({ rules, ledger: createFilePaymentLedger(path) });
+    await manager.reserve(paymentRequirements, "https://api.example.com/weather");
+
+    const reopened = createPaymentBudgetManager({ rules, ledger: createFilePaymentLedger(path) });
+    await expectRefused(
+      reopened.reserve(paymentRequirements, "https://api.example.com/weather"),
+      "lifetime_limit_exceeded",
+    );
+  });
+
+  it("should remove released payments from the file", async () => {
+    const ledger = createFilePaymentLedger(path);
+    const manager = createPaymentBudgetManager({
+      rules: [{ network: "solana-devnet", asset: "USDC" }],
+      ledger,
+    });
+
+    const reservation = await manager.reserve(paymentRequirements, "https://api.example.com");
+    await reservation.release();
+
+    expect(await createFilePaymentLedger(path).getEntries()).toEqual([]);
+  });
+});
@@ -0,0 +1,377 @@
+import { Network, PaymentRequirements, SupportedSVMNetworks } from "../types/index.js";
+import { formatAtomicAmount, toAtomicAmount } from "../shared/decimal.js";
+import { tokenRegistry } from "../shared/tokenRegistry.js";
+
+/**
+ * Default length of the time window of the `perWindow` limit (24 hours)
+ */
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The spending limits of an asset on a network. Limits are amounts in whole tokens, e.g. "0.50",
+ * and a limit that is not set does not restrict the payments.
+ */
+export interface PaymentBudgetRule {
+  /**
+   * The network of the asset.
+   */
+  network: Network;
+  /**
+   * The symbol of a token of the token registry (e.g. "USDC") or the address of the asset.
+   */
+  asset: string;
+  /**
+   * The decimals of the asset, required if the asset is not in the token registry.
+   */
+  decimals?: number;
+  /**
+   * The maximum amount of a single payment.
+   */
+  perRequest?: string;
+  /**
+   * The maximum amount paid to a single host, e.g. "api.example.com".
+   */
+  perHost?: string;
+  /**
+   * The maximum amount paid within the last `windowMs` milliseconds.
+   */
+  perWindow?: string;
+  /**
+   * The length of the time window of `perWindow` in milliseconds (defaults to 24 hours).
+   */
+  windowMs?: number;
+  /**
+   * The maximum amount paid over the lifetime of the ledger.
+   */
+  lifetime?: string;
+}
+
+/**
+ * A payment recorded in a payment ledger
+ */
+export interface PaymentLedgerEntry {
+  id: string;
+  network: Network;
+  /** The address of the asset */
+  asset: string;
+  host: string;
+  /** The amount in atomic units of the asset */
+  amount: string;
+  /** The time of the payment in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Storage for the payments of a budget. Use a persistent ledger to keep the spending of the
+ * `perHost`, `perWindow` and `lifetime` limits across restarts.
+ */
+export interface PaymentLedger {
+  /**
+   * Gets all payments of the ledger.
+   *
+   * @returns The recorded payments
+   */
+  getEntries(): Promise<PaymentLedgerEntry[]>;
+  /**
+   * Records a payment.
+   *
+   * @param entry - The payment to record
+   */
+  add(entry: PaymentLedgerEntry): Promise<void>;
+  /**
+   * Removes a payment that was not made, e.g. because the server rejected it.
+   *
+   * @param id - The id of the payment
+   */
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * A payment that is within the budget and waits for approval
+ */
+export interface PendingPayment {
+  paymentRequirements: PaymentRequirements;
+  url: string;
+  host: string;
+  /** The amount in whole tokens, e.g. "0.01" */
+  amount: string;
+}
+
+/**
+ * The spending limits of a payment client
+ */
+export interface PaymentBudget {
+  /**
+   * The limits of each asset and network. Payments of assets without a rule are refused.
+   */
+  rules: PaymentBudgetRule[];
+  /**
+   * The ledger that the payments are recorded in (defaults to an in-memory ledger).
+   */
+  ledger?: PaymentLedger;
+  /**
+   * Called for every payment that is within the budget, before it is signed. Return false to
+   * refuse the payment.
+   */
+  onBeforePay?: (payment: PendingPayment) => boolean | Promise<boolean>;
+}
+
+export type PaymentBudgetErrorReason =
+  | "asset_not_budgeted"
+  | "per_request_limit_exceeded"
+  | "per_host_limit_exceeded"
+  | "window_limit_exceeded"
+  | "lifetime_limit_exceeded"
+  | "payment_not_approved";
+
+/**
+ * The error thrown when a payment is refused by the budget
+ */
+export type PaymentBudgetError = Error & {
+  name: "PaymentBudgetError";
+  reason: PaymentBudgetErrorReason;
+  paymentRequirements: PaymentRequirements;
+};
+
+/**
+ * Checks if an error was thrown because a payment was refused by the budget
+ *
+ * @param error - The error to check
+ * @returns True if the error is a payment budget error, false otherwise
+ */
+export function isPaymentBudgetError(error: unknown): error is PaymentBudgetError {
+  return error instanceof Error && error.name === "PaymentBudgetError";
+}
+
+/**
+ * Creates the error of a payment that is refused by the budget
+ *
+ * @param reason - The reason the payment is refused
+ * @param paymentRequirements - The payment requirements of the refused payment
+ * @param message - The error message
+ * @returns The payment budget error
+ */
+function createPaymentBudgetError(
+  reason: PaymentBudgetErrorReason,
+  paymentRequirements: PaymentRequirements,
+  message: string,
+): PaymentBudgetError {
+  return Object.assign(new Error(message), {
+    name: "PaymentBudgetError" as const,
+    reason,
+    paymentRequirements,
+  });
+}
+
+/**
+ * A payment that is recorded in the ledger of the budget
+ */
+export interface PaymentReservation {
+  /**
+   * Removes the payment from the ledger, if it was not made after all.
+   */
+  release(): Promise<void>;
+}
+
+/**
+ * Checks payments against a budget and records them in its ledger
+ */
+export interface PaymentBudgetManager {
+  /**
+   * Checks a payment against the budget and records it in the ledger. Payments are checked one at
+   * a time, so concurrent payments cannot exceed the budget together.
+   *
+   * @param paymentRequirements - The payment requirements that are about to be paid
+   * @param url - The URL of the paid request
+   * @returns The reservation of the payment
+   * @throws PaymentBudgetError if the payment is refused
+   */
+  reserve(paymentRequirements: PaymentRequirements, url: string): Promise<PaymentReservation>;
+}
+
+/**
+ * Creates a payment ledger that keeps its payments in memory.
+ * Payments are lost when the process exits, so use a persistent ledger for the `perHost`,
+ * `perWindow` and `lifetime` limits of long-running agents.
+ *
+ * @returns A payment ledger backed by an array
+ */
+export function createInMemoryPaymentLedger(): PaymentLedger {
+  let entries: PaymentLedgerEntry[] = [];
+
+  return {
+    async getEntries() {
+      return [...entries];
+    },
+    async add(entry) {
+      entries.push(entry);
+    },
+    async remove(id) {
+      entries = entries.filter(entry => entry.id !== id);
+    },
+  };
+}
+
+/**
+ * Checks if two asset addresses are the same on a network. EVM addresses are case insensitive.
+ *
+ * @param network - The network of the assets
+ * @param a - The first address
+ * @param b - The second address
+ * @returns True if the addresses are the same asset, false otherwise
+ */
+function isSameAsset(network: Network, a: string, b: string): boolean {
+  return SupportedSVMNetworks.includes(network) ? a === b : a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Gets the host of a URL, e.g. "api.example.com"
+ *
+ * @param url - The URL of the request
+ * @returns The host of the URL, or the URL itself if it is relative
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Creates a manager that refuses payments that exceed a budget before they are signed
+ *
+ * @param budget - The budget to enforce
+ * @returns The payment budget manager
+ * @throws Error if the decimals of a budgeted asset are not known
+ *
+ * @example
+ * ```typescript
+ * const budgetManager = createPaymentBudgetManager({
+ *   rules: [{ network: "solana", asset: "USDC", perRequest: "0.10", perWindow: "5", lifetime: "50" }],
+ *   ledger: createFilePaymentLedger("./payments.json"),
+ * });
+ * ```
+ */
+export function createPaymentBudgetManager(budget: PaymentBudget): PaymentBudgetManager {
+  const ledger = budget.ledger ?? createInMemoryPaymentLedger();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // resolve the assets and limits of the rules once, so that invalid rules fail early
+  const rules = budget.rules.map(rule => {
+    const token = tokenRegistry.getToken(rule.network, rule.asset);
+    const decimals = rule.decimals ?? token?.decimals;
+    if (decimals === undefined) {
+      throw new Error(
+        `Unknown decimals of the asset ${rule.asset} on ${rule.network}, set the decimals of its budget rule`,
+      );
+    }
+    const toLimit = (limit?: string) =>
+      limit === undefined ? undefined : BigInt(toAtomicAmount(limit, decimals, "down"));
+
+    return {
+      network: rule.network,
+      address: token?.address ?? rule.asset,
+      decimals,
+      perRequest: toLimit(rule.perRequest),
+      perHost: toLimit(rule.perHost),
+      perWindow: toLimit(rule.perWindow),
+      windowMs: rule.windowMs ?? DEFAULT_WINDOW_MS,
+      lifetime: toLimit(rule.lifetime),
+    };
+  });
+
+  /**
+   * Runs the given operation after every previously queued operation has finished.
+   *
+   * @param operation - The operation to run
+   * @returns The result of the operation
+   */
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    reserve(paymentRequirements, url) {
+      return enqueue(async () => {
+        const { network, asset } = paymentRequirements;
+        const rule = rules.find(
+          rule => rule.network === network && isSameAsset(network, rule.address, asset),
+        );
+        if (!rule) {
+          throw createPaymentBudgetError(
+            "asset_not_budgeted",
+            paymentRequirements,
+            `The budget has no rule for the asset ${asset} on ${network}`,
+          );
+        }
+
+        const amount = BigInt(paymentRequirements.maxAmountRequired);
+        const host = getHost(url);
+        const now = Date.now();
+        const entries = (await ledger.getEntries()).filter(
+          entry => entry.network === network && isSameAsset(network, entry.asset, rule.address),
+        );
+        const sum = (filtered: PaymentLedgerEntry[]) =>
+          filtered.reduce((total, entry) => total + BigInt(entry.amount), 0n);
+
+        const limits: [PaymentBudgetErrorReason, string, bigint | undefined, bigint][] = [
+          ["per_request_limit_exceeded", "per request", rule.perRequest, 0n],
+          [
+            "per_host_limit_exceeded",
+            `for ${host}`,
+            rule.perHost,
+            sum(entries.filter(entry => entry.host === host)),
+          ],
+          [
+            "window_limit_exceeded",
+            "in the time window",
+            rule.perWindow,
+            sum(entries.filter(entry => entry.timestamp > now - rule.windowMs)),
+          ],
+          ["lifetime_limit_exceeded", "in total", rule.lifetime, sum(entries)],
+        ];
+        for (const [reason, description, limit, spent] of limits) {
+          if (limit !== undefined && spent + amount > limit) {
+            const format = (value: bigint) => formatAtomicAmount(value, rule.decimals);
+            throw createPaymentBudgetError(
+              reason,
+              paymentRequirements,
+              `Payment of ${format(amount)} exceeds the budget of ${format(limit)} ${description}` +
+                (spent > 0n ? `, ${format(spent)} already spent` : ""),
+            );
+          }
+        }
+
+        const approved =
+          !budget.onBeforePay ||
+          (await budget.onBeforePay({
+            paymentRequirements,
+            url,
+            host,
+            amount: formatAtomicAmount(amount, rule.decimals),
+          }));
+        if (!approved) {
+          throw createPaymentBudgetError(
+            "payment_not_approved",
+            paymentRequirements,
+            "Payment was not approved",
+          );
+        }
+
+        const id = globalThis.crypto.randomUUID();
+        await ledger.add({
+          id,
+          network,
+          asset: rule.address,
+          host,
+          amount: amount.toString(),
+          timestamp: now,
+        });
+        return { release: () => enqueue(() => ledger.remove(id)) };
+      });
+    },
+  };
+}
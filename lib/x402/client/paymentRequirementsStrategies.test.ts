@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from "vitest";
+import { privateKeyToAccount } from "viem/accounts";
+import { Network, PaymentRequirements } from "../types";
+import { getERC20Balance } from "../shared/evm";
+import {
+  createPaymentRequirementsSelector,
+  createTokenBalanceGetter,
+  preferCheapestInUsd,
+  preferNetworks,
+  requireFeePayer,
+  requireTokenBalance,
+} from "./paymentRequirementsStrategies";
+
+vi.mock("../shared/evm", () => ({
+  getERC20Balance: vi.fn(),
+}));
+
+const devnetUsdc = "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb";
+const baseSepoliaUsdc = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const unknownMint = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+
+/**
+ * Test helper to create a payment requirement with the given network, asset, and overrides.
+ *
+ * @param network - The network to create the payment requirement for.
+ * @param asset - The asset to create the payment requirement for.
+ * @param overrides - The overrides to apply to the payment requirement.
+ * @returns The created payment requirement.
+ */
+function makeRequirement(
+  network: Network,
+  asset: string,
+  overrides: Partial<PaymentRequirements> = {},
+): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network,
+    maxAmountRequired: "10000",
+    resource: "https://example.com/resource",
+    description: "Test",
+    mimeType: "application/json",
+    payTo: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4",
+    maxTimeoutSeconds: 60,
+    asset,
+    extra: { feePayer: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd" },
+    ...overrides,
+  };
+}
+
+describe("createPaymentRequirementsSelector", () => {
+  it("filters by the networks and scheme and selects the first candidate", async () => {
+    const selector = createPaymentRequirementsSelector();
+    const reqs = [
+      makeRequirement("base-sepolia", baseSepoliaUsdc),
+      makeRequirement("solana-devnet", devnetUsdc),
+    ];
+
+    expect(await selector(reqs, ["solana", "solana-devnet"], "exact")).toBe(reqs[1]);
+  });
+
+  it("applies the strategies in order", async () => {
+    const selector = createPaymentRequirementsSelector(
+      requireFeePayer(),
+      preferNetworks(["base-sepolia"]),
+    );
+    const reqs = [
+      makeRequirement("solana-devnet", devnetUsdc),
+      makeRequirement("base-sepolia", baseSepoliaUsdc),
+    ];
+
+    expect(await selector(reqs)).toBe(reqs[1]);
+  });
+
+  it("throws instead of selecting a requirement that a strategy excluded", async () => {
+    const selector = createPaymentRequirementsSelector(requireFeePayer());
+
+    await expect(
+      selector([makeRequirement("solana-devnet", devnetUsdc, { extra: undefined })]),
+    ).rejects.toThrow(
+      "No payment requirements are left by the requireFeePayer strategy, the candidates were exact USDC on solana-devnet",
+    );
+  });
+});
+
+describe("preferNetworks", () => {
+  it("orders the candidates by the networks and keeps other networks last", () => {
+    const reqs = [
+      makeRequirement("avalanche-fuji", "0x5425890298aed601595a70AB815c96711a31Bc65"),
+      makeRequirement("solana-devnet", devnetUsdc),
+      makeRequirement("base-sepolia", baseSepoliaUsdc),
+    ];
+
+    const sorted = preferNetworks(["solana-devnet", "base-sepolia"]).apply(reqs);
+
+    expect(sorted).toEqual([reqs[1], reqs[2], reqs[0]]);
+  });
+});
+
+describe("preferCheapestInUsd", () => {
+  it("ranks the candidates by their price in USD", async () => {
+    const reqs = [
+      makeRequirement("solana-devnet", devnetUsdc, { maxAmountRequired: "2000000" }), // 2 USDC
+      makeRequirement("solana-devnet", unknownMint, {
+        maxAmountRequired: "1000000000", // 1 token of 9 decimals
+        extra: { feePayer: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd", decimals: 9 },
+      }),
+    ];
+    const getUsdPrice = vi.fn(async (_: Network, asset: string) =>
+      asset === devnetUsdc ? 1 : 1.5,
+    );
+
+    const sorted = await preferCheapestInUsd(getUsdPrice).apply(reqs);
+
+    expect(sorted).toEqual([reqs[1], reqs[0]]);
+    expect(getUsdPrice).toHaveBeenCalledWith("solana-devnet", unknownMint);
+  });
+
+  it("compares the costs without losing precision", async () => {
+    const reqs = [
+      makeRequirement("solana-devnet", unknownMint, {
+        maxAmountRequired: "1000000000000000001",
+        extra: { decimals: 18 },
+      }),
+      makeRequirement("solana-devnet", devnetUsdc, {
+        maxAmountRequired: "1000000000000000000",
+        extra: { decimals: 18 },
+      }),
+    ];
+
+    const sorted = await preferCheapestInUsd(() => "0.1").apply(reqs);
+
+    expect(sorted).toEqual([reqs[1], reqs[0]]);
+  });
+
+  it("ranks candidates with an unknown price or decimals last", async () => {
+    const reqs = [
+      makeRequirement("solana-devnet", unknownMint),
+      makeRequirement("solana-devnet", devnetUsdc, { maxAmountRequired: "5000000" }),
+      makeRequirement("base-sepolia", baseSepoliaUsdc),
+    ];
+
+    const sorted = await preferCheapestInUsd(async (network: Network) =>
+      network === "base-sepolia" ? undefined : 1,
+    ).apply(reqs);
+
+    expect(sorted).toEqual([reqs[1], reqs[0], reqs[2]]);
+  });
+});
+
+describe("requireFeePayer", () => {
+  it("keeps SVM candidates with a fee payer and EVM candidates", () => {
+    const reqs = [
+      makeRequirement("solana-devnet", devnetUsdc, { extra: {} }),
+      makeRequirement("solana-devnet", devnetUsdc),
+      makeRequirement("base-sepolia", baseSepoliaUsdc, { extra: undefined }),
+    ];
+
+    expect(requireFeePayer().apply(reqs)).toEqual([reqs[1], reqs[2]]);
+  });
+});
+
+describe("requireTokenBalance", () => {
+  it("keeps the candidates that the balance can pay", async () => {
+    const reqs = [
+      makeRequirement("solana-devnet", devnetUsdc),
+      makeRequirement("base-sepolia", baseSepoliaUsdc),
+    ];
+    const getBalance = vi.fn(async ({ network }: PaymentRequirements) =>
+      network === "solana-devnet" ? 9999n : 10000n,
+    );
+
+    expect(await requireTokenBalance(getBalance).apply(reqs)).toEqual([reqs[1]]);
+    expect(getBalance).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createTokenBalanceGetter", () => {
+  it("reads the ERC20 balances from the configured EVM RPC", async () => {
+    const account = privateKeyToAccount(
+      "0x0123456789012345678901234567890123456789012345678901234567890123",
+    );
+    vi.mocked(getERC20Balance).mockResolvedValue(10000n);
+
+    const getBalance = createTokenBalanceGetter(account, {
+      evmConfig: { rpcUrl: "https://rpc.example.com" },
+    });
+
+    expect(await getBalance(makeRequirement("base-sepolia", baseSepoliaUsdc))).toBe(10000n);
+    expect(vi.mocked(getERC20Balance).mock.calls[0][0].transport.url).toBe(
+      "https://rpc.example.com",
+    );
+  });
+});
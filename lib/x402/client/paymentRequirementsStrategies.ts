@@ -0,0 +1,271 @@
+import { Address as EvmAddress } from "viem";
+import { Address } from "@solana/kit";
+import {
+  evm,
+  isMultiNetworkSigner,
+  isSvmSignerWallet,
+  MultiNetworkSigner,
+  Network,
+  PaymentRequirements,
+  Signer,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+  X402Config,
+} from "../types/index.js";
+import { getERC20Balance } from "../shared/evm/index.js";
+import { getRpcClient } from "../shared/svm/rpc.js";
+import { formatAtomicAmount, MAX_DECIMALS, toAtomicAmount } from "../shared/decimal.js";
+import { tokenRegistry } from "../shared/tokenRegistry.js";
+import {
+  describePaymentRequirements,
+  filterPaymentRequirements,
+  PaymentRequirementsSelector,
+} from "./selectPaymentRequirements.js";
+
+/**
+ * A step of a composed payment requirements selector, that filters or ranks the candidates
+ */
+export interface PaymentRequirementsStrategy {
+  /**
+   * The name of the strategy, used in the error when it leaves no candidates.
+   */
+  name: string;
+  /**
+   * Filters or reorders the candidates, the first remaining candidate is selected.
+   *
+   * @param paymentRequirements - The candidates left by the previous strategies
+   * @returns The remaining candidates, best first
+   */
+  apply(
+    paymentRequirements: PaymentRequirements[],
+  ): PaymentRequirements[] | Promise<PaymentRequirements[]>;
+}
+
+/**
+ * Gets the price in USD of one whole token of an asset, as a number or a decimal string, or
+ * undefined if the price is not known
+ */
+export type UsdPriceOracle = (
+  network: Network,
+  asset: string,
+) => number | string | undefined | Promise<number | string | undefined>;
+
+/**
+ * Gets the balance in atomic units that the client holds of the asset of payment requirements
+ */
+export type TokenBalanceGetter = (paymentRequirements: PaymentRequirements) => Promise<bigint>;
+
+/**
+ * Creates a payment requirements selector from strategies. The selector keeps the payment
+ * requirements of the scheme and networks of the signer, applies the strategies in order and
+ * selects the first remaining candidate.
+ *
+ * @param strategies - The strategies to apply, in order
+ * @returns The payment requirements selector
+ *
+ * @example
+ * ```typescript
+ * const selector = createPaymentRequirementsSelector(
+ *   requireFeePayer(),
+ *   requireTokenBalance(createTokenBalanceGetter(signer)),
+ *   preferNetworks(["solana", "base"]),
+ *   preferCheapestInUsd(async (network, asset) => prices[asset]),
+ * );
+ * ```
+ */
+export function createPaymentRequirementsSelector(
+  ...strategies: PaymentRequirementsStrategy[]
+): PaymentRequirementsSelector {
+  return async (paymentRequirements, network, scheme) => {
+    let candidates = filterPaymentRequirements(paymentRequirements, network, scheme);
+
+    for (const strategy of strategies) {
+      const remaining = await strategy.apply(candidates);
+      if (remaining.length === 0) {
+        throw new Error(
+          `No payment requirements are left by the ${strategy.name} strategy, the candidates were ${describePaymentRequirements(candidates)}`,
+        );
+      }
+      candidates = remaining;
+    }
+
+    return candidates[0];
+  };
+}
+
+/**
+ * Sorts the candidates by a rank, keeping the order of candidates of the same rank
+ *
+ * @param paymentRequirements - The candidates to sort
+ * @param ranks - The rank of each candidate, lowest first
+ * @returns The sorted candidates
+ */
+function sortByRank(paymentRequirements: PaymentRequirements[], ranks: (number | bigint)[]) {
+  return paymentRequirements
+    .map((requirement, index) => ({ requirement, rank: ranks[index] }))
+    .sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0))
+    .map(({ requirement }) => requirement);
+}
+
+/**
+ * Prefers the networks in the given order, candidates on other networks are ranked last.
+ *
+ * @param networks - The networks from the most to the least preferred
+ * @returns The strategy
+ */
+export function preferNetworks(networks: Network[]): PaymentRequirementsStrategy {
+  return {
+    name: "preferNetworks",
+    apply(paymentRequirements) {
+      return sortByRank(
+        paymentRequirements,
+        paymentRequirements.map(({ network }) =>
+          networks.includes(network) ? networks.indexOf(network) : Infinity,
+        ),
+      );
+    },
+  };
+}
+
+/**
+ * Prefers the cheapest candidates in USD, compared with exact decimal math. The decimals of an asset
+ * are taken from the `decimals` of the `extra` field or the token registry, candidates with an
+ * unknown price or unknown decimals are ranked last.
+ *
+ * @param getUsdPrice - Gets the price in USD of one whole token of an asset
+ * @returns The strategy
+ */
+export function preferCheapestInUsd(getUsdPrice: UsdPriceOracle): PaymentRequirementsStrategy {
+  return {
+    name: "preferCheapestInUsd",
+    async apply(paymentRequirements) {
+      const costs = await Promise.all(
+        paymentRequirements.map(async ({ network, asset, maxAmountRequired, extra }) => {
+          const decimals =
+            typeof extra?.decimals === "number"
+              ? extra.decimals
+              : tokenRegistry.getToken(network, asset)?.decimals;
+          const price = await getUsdPrice(network, asset);
+          if (decimals === undefined || price === undefined) {
+            return Infinity;
+          }
+          try {
+            // the cost in USD scaled by 10^36, exact for prices and tokens of up to 18 decimals
+            const priceUnits = BigInt(toAtomicAmount(price, MAX_DECIMALS, "half-up"));
+            const amountUnits = BigInt(
+              toAtomicAmount(formatAtomicAmount(maxAmountRequired, decimals), MAX_DECIMALS),
+            );
+            return priceUnits * amountUnits;
+          } catch {
+            return Infinity;
+          }
+        }),
+      );
+      return sortByRank(paymentRequirements, costs);
+    },
+  };
+}
+
+/**
+ * Requires the candidates to be paid without gas from the client: SVM candidates must name the
+ * fee payer of the facilitator in `extra.feePayer`, EVM payments are gasless authorizations.
+ *
+ * @returns The strategy
+ */
+export function requireFeePayer(): PaymentRequirementsStrategy {
+  return {
+    name: "requireFeePayer",
+    apply(paymentRequirements) {
+      return paymentRequirements.filter(
+        ({ network, extra }) =>
+          !SupportedSVMNetworks.includes(network) || typeof extra?.feePayer === "string",
+      );
+    },
+  };
+}
+
+/**
+ * Requires the client to hold enough of the asset of the candidates to pay them.
+ *
+ * @param getBalance - Gets the balance of the asset of a candidate, see `createTokenBalanceGetter`
+ * @returns The strategy
+ */
+export function requireTokenBalance(getBalance: TokenBalanceGetter): PaymentRequirementsStrategy {
+  return {
+    name: "requireTokenBalance",
+    async apply(paymentRequirements) {
+      const balances = await Promise.all(paymentRequirements.map(getBalance));
+      return paymentRequirements.filter(
+        ({ maxAmountRequired }, index) => balances[index] >= BigInt(maxAmountRequired),
+      );
+    },
+  };
+}
+
+/**
+ * Gets the EVM and SVM addresses of a signer
+ *
+ * @param walletClient - The signer of the payments
+ * @returns The addresses of the signer
+ */
+function getSignerAddresses(walletClient: Signer | MultiNetworkSigner): {
+  evm?: string;
+  svm?: string;
+} {
+  if (isMultiNetworkSigner(walletClient)) {
+    return {
+      ...getSignerAddresses(walletClient.evm),
+      ...getSignerAddresses(walletClient.svm),
+    };
+  }
+  if (isSvmSignerWallet(walletClient)) {
+    return { svm: walletClient.address };
+  }
+  const evmSigner = walletClient as evm.EvmSigner;
+  return {
+    evm: evm.isSignerWallet(evmSigner) ? evmSigner.account?.address : evmSigner.address,
+  };
+}
+
+/**
+ * Creates a getter of the SPL and ERC20 token balances of a signer. The balance of a network
+ * that the signer cannot pay on is 0.
+ *
+ * @param walletClient - The signer of the payments
+ * @param config - Optional configuration for X402 operations, the SVM and EVM balances are read from their custom RPC URLs
+ * @returns The token balance getter
+ */
+export function createTokenBalanceGetter(
+  walletClient: Signer | MultiNetworkSigner,
+  config?: X402Config,
+): TokenBalanceGetter {
+  const addresses = getSignerAddresses(walletClient);
+
+  return async ({ network, asset }) => {
+    if (SupportedSVMNetworks.includes(network)) {
+      if (!addresses.svm) {
+        return 0n;
+      }
+      const { value } = await getRpcClient(network, config?.svmConfig?.rpcUrl)
+        .getTokenAccountsByOwner(
+          addresses.svm as Address,
+          { mint: asset as Address },
+          { encoding: "jsonParsed" },
+        )
+        .send();
+      return value.reduce(
+        (balance, { account }) => balance + BigInt(account.data.parsed.info.tokenAmount.amount),
+        0n,
+      );
+    }
+
+    if (SupportedEVMNetworks.includes(network) && addresses.evm) {
+      return getERC20Balance(
+        evm.createConnectedClient(network, config?.evmConfig?.rpcUrl),
+        asset as EvmAddress,
+        addresses.evm as EvmAddress,
+      );
+    }
+    return 0n;
+  };
+}
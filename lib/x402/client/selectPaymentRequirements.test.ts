@@ -1,8 +1,10 @@
 import { describe, it, expect } from "vitest";
+import { generateKeyPairSigner } from "@solana/kit";
 import {
+  getSignerSchemes,
   selectPaymentRequirements,
 } from "./selectPaymentRequirements";
-import { PaymentRequirements, Network } from "../types";
+import { PaymentRequirements, Network, evm } from "../types";
 import { getUsdcChainConfigForChain } from "../shared/evm";
 import { getNetworkId } from "../shared/network";
 
@@ -46,17 +48,17 @@ describe("selectPaymentRequirements", () => {
     expect(selected.asset).toBe(avalancheUsdc);
   });
 
-  it("prefers Base network when no USDC requirement exists", () => {
+  it("keeps the input order when no USDC requirement exists", () => {
     const reqs: PaymentRequirements[] = [
       makeRequirement("avalanche", "0x1111111111111111111111111111111111111111"),
       makeRequirement("base", "0x2222222222222222222222222222222222222222"),
     ];
 
     const selected = selectPaymentRequirements(reqs);
-    expect(selected.network).toBe("base");
+    expect(selected.network).toBe("avalanche");
   });
 
-  it("returns the first USDC requirement when multiple are available, respecting Base priority", () => {
+  it("returns the first USDC requirement in input order when multiple are available", () => {
     const baseUsdc = getUsdcChainConfigForChain(getNetworkId("base"))!.usdcAddress as string;
     const avalancheUsdc = getUsdcChainConfigForChain(getNetworkId("avalanche"))!.usdcAddress as string;
     const reqs: PaymentRequirements[] = [
@@ -65,9 +67,10 @@ describe("selectPaymentRequirements", () => {
     ];
 
     const selected = selectPaymentRequirements(reqs);
-    // Base is sorted to the front and both are USDC; the first USDC after sorting will be Base
-    expect(selected.network).toBe("base");
-    expect(selected.asset).toBe(baseUsdc);
+    expect(selected.network).toBe("avalanche");
+    expect(selected.asset).toBe(avalancheUsdc);
+    // the input is not reordered
+    expect(reqs[0].network).toBe("avalanche");
   });
 
   it("filters by a specific network and selects USDC within that network", () => {
@@ -82,7 +85,7 @@ describe("selectPaymentRequirements", () => {
     expect(selected.asset).toBe(avalancheUsdc);
   });
 
-  it("filters by a list of networks and prefers Base USDC if present", () => {
+  it("filters by a list of networks and selects the first USDC requirement", () => {
     const baseUsdc = getUsdcChainConfigForChain(getNetworkId("base"))!.usdcAddress as string;
     const avalancheUsdc = getUsdcChainConfigForChain(getNetworkId("avalanche"))!.usdcAddress as string;
     const reqs: PaymentRequirements[] = [
@@ -91,8 +94,8 @@ describe("selectPaymentRequirements", () => {
     ];
 
     const selected = selectPaymentRequirements(reqs, ["base", "avalanche"]);
-    expect(selected.network).toBe("base");
-    expect(selected.asset).toBe(baseUsdc);
+    expect(selected.network).toBe("avalanche");
+    expect(selected.asset).toBe(avalancheUsdc);
   });
 
   it("filters by ['solana', 'solana-devnet'] and selects the USDC requirement among them", () => {
@@ -118,7 +121,6 @@ describe("selectPaymentRequirements", () => {
     ];
 
     const selected = selectPaymentRequirements(reqs, ["solana", "solana-devnet"]);
-    // Neither is 'base', so original order is preserved; first USDC is solana-devnet
     expect(selected.network).toBe("solana-devnet");
     expect(selected.asset).toBe(solanaDevnetUsdc);
   });
@@ -140,19 +142,28 @@ describe("selectPaymentRequirements", () => {
     ];
 
     const selected = selectPaymentRequirements(reqs, ["base", "avalanche"]);
-    // Base is sorted to the front and both match the accepted networks
-    expect(selected.network).toBe("base");
+    expect(selected.network).toBe("avalanche");
   });
 
-  it("when no broadly accepted requirement exists, returns the first (Base prioritized)", () => {
+  it("throws when no requirement matches the networks and scheme", () => {
     const reqs: PaymentRequirements[] = [
       makeRequirement("avalanche", "0x6666666666666666666666666666666666666666"),
       makeRequirement("base", "0x7777777777777777777777777777777777777777"),
     ];
 
-    const selected = selectPaymentRequirements(reqs, "solana");
-    // No matches for solana; function returns the first element after the Base-priority sort
-    expect(selected.network).toBe("base");
+    expect(() => selectPaymentRequirements(reqs, "solana", "exact")).toThrow(
+      "No payment requirements match the scheme exact and network solana, the server accepts exact 0x6666666666666666666666666666666666666666 on avalanche, exact 0x7777777777777777777777777777777777777777 on base",
+    );
+  });
+
+  it("accepts any of several schemes", () => {
+    const solanaUsdc = getUsdcChainConfigForChain(getNetworkId("solana"))!.usdcAddress as string;
+    const reqs: PaymentRequirements[] = [makeRequirement("solana", solanaUsdc, { scheme: "upto" })];
+
+    expect(selectPaymentRequirements(reqs, "solana", ["exact", "upto"])).toBe(reqs[0]);
+    expect(() => selectPaymentRequirements(reqs, "solana", "exact")).toThrow(
+      `No payment requirements match the scheme exact and network solana, the server accepts upto USDC on solana`,
+    );
   });
 
   it("supports SVM networks by matching their USDC asset", () => {
@@ -166,4 +177,16 @@ describe("selectPaymentRequirements", () => {
     expect(selected.network).toBe("solana");
     expect(selected.asset).toBe(solanaUsdc);
   });
-});
\ No newline at end of file
+});
+
+describe("getSignerSchemes", () => {
+  it("pays the upto scheme only with signers that can pay on Solana", async () => {
+    const svmSigner = await generateKeyPairSigner();
+    const evmSigner = evm.createSignerSepolia(
+      "0x0123456789012345678901234567890123456789012345678901234567890123",
+    );
+
+    expect(getSignerSchemes(svmSigner)).toEqual(["exact", "upto"]);
+    expect(getSignerSchemes(evmSigner)).toBe("exact");
+  });
+});
@@ -1,55 +1,101 @@
-import { Network, PaymentRequirements } from "../types/index.js";
-import { getUsdcChainConfigForChain } from "../shared/evm/index.js";
-import { getNetworkId } from "../shared/network.js";
+import { ChainIdToNetwork, evm, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Network, PaymentRequirements, Signer } from "../types/index.js";
+import { tokenRegistry } from "../shared/tokenRegistry.js";
 
 /**
- * Default selector for payment requirements.
- * Default behavior is to select the first payment requirement that has a USDC asset.
- * If no USDC payment requirement is found, the first payment requirement is selected.
+ * A payment scheme, e.g. "exact" or "upto".
+ */
+type Scheme = PaymentRequirements["scheme"];
+
+/**
+ * Filters the payment requirements down to the scheme and networks that the client can pay with.
  *
- * @param paymentRequirements - The payment requirements to select from.
+ * @param paymentRequirements - The payment requirements to filter.
  * @param network - The network to check against. If not provided, the network will not be checked.
- * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
- * @returns The payment requirement that is the most appropriate for the user.
+ * @param scheme - The scheme or schemes to check against. If not provided, the scheme will not be checked.
+ * @returns The payment requirements of the scheme and networks, in their original order.
+ * @throws Error if none of the payment requirements match the scheme and networks.
  */
-export function selectPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact"): PaymentRequirements {
-  // Sort `base` payment requirements to the front of the list. This is to ensure that base is preferred if available.
-  paymentRequirements.sort((a, b) => {
-    if (a.network === "base" && b.network !== "base") {
-      return -1;
-    }
-    if (a.network !== "base" && b.network === "base") {
-      return 1;
-    }
-    return 0;
-  });
-
-  // Filter down to the scheme/network if provided
-  const broadlyAcceptedPaymentRequirements = paymentRequirements.filter(requirement => {
+export function filterPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: Scheme | Scheme[]): PaymentRequirements[] {
+  const acceptedPaymentRequirements = paymentRequirements.filter(requirement => {
     // If the scheme is not provided, we accept any scheme.
-    const isExpectedScheme = !scheme || requirement.scheme === scheme;
+    const isExpectedScheme = !scheme || (Array.isArray(scheme) ? scheme.includes(requirement.scheme) : scheme == requirement.scheme);
     // If the chain is not provided, we accept any chain.
     const isExpectedChain = !network || (Array.isArray(network) ? network.includes(requirement.network) : network == requirement.network);
 
     return isExpectedScheme && isExpectedChain;
   });
 
-  // Filter down to USDC requirements
-  const usdcRequirements = broadlyAcceptedPaymentRequirements.filter(requirement => {
-    // If the address is a USDC address, we return it.
-    return requirement.asset === getUsdcChainConfigForChain(getNetworkId(requirement.network))?.usdcAddress;
-  });
-
-  // Prioritize USDC requirements if available
-  if (usdcRequirements.length > 0) {
-    return usdcRequirements[0];
+  if (acceptedPaymentRequirements.length === 0) {
+    const expected = [scheme && `scheme ${[scheme].flat().join(" or ")}`, network && `network ${[network].flat().join(" or ")}`].filter(Boolean).join(" and ");
+    throw new Error(`No payment requirements match the ${expected || "client"}, the server accepts ${describePaymentRequirements(paymentRequirements)}`);
   }
-  // If no USDC requirements are found, return the first broadly accepted requirement.
-  if (broadlyAcceptedPaymentRequirements.length > 0) {
-    return broadlyAcceptedPaymentRequirements[0];
+  return acceptedPaymentRequirements;
+}
+
+/**
+ * Describes payment requirements for error messages, e.g. "exact USDC on solana".
+ *
+ * @param paymentRequirements - The payment requirements to describe.
+ * @returns The scheme, token and network of each payment requirement.
+ */
+export function describePaymentRequirements(paymentRequirements: PaymentRequirements[]): string {
+  if (paymentRequirements.length === 0) {
+    return "no payment requirements";
   }
-  // If no matching requirements are found, return the first requirement.
-  return paymentRequirements[0];
+  return paymentRequirements
+    .map(({ scheme, network, asset }) => `${scheme} ${tokenRegistry.getToken(network, asset)?.symbol ?? asset} on ${network}`)
+    .join(", ");
+}
+
+/**
+ * Default selector for payment requirements.
+ * Default behavior is to select the first payment requirement of the scheme and networks that has a USDC asset.
+ * If no USDC payment requirement is found, the first payment requirement of the scheme and networks is selected.
+ * Use `createPaymentRequirementsSelector` to compose other selection strategies.
+ *
+ * @param paymentRequirements - The payment requirements to select from.
+ * @param network - The network to check against. If not provided, the network will not be checked.
+ * @param scheme - The scheme or schemes to check against. If not provided, the scheme will not be checked.
+ * @returns The payment requirement that is the most appropriate for the user.
+ * @throws Error if none of the payment requirements match the scheme and networks.
+ */
+export function selectPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: Scheme | Scheme[]): PaymentRequirements {
+  const acceptedPaymentRequirements = filterPaymentRequirements(paymentRequirements, network, scheme);
+
+  // Prioritize USDC requirements if available
+  const usdcRequirement = acceptedPaymentRequirements.find(requirement => {
+    // If the address is the USDC address of the network in the token registry, we return it.
+    return requirement.asset === tokenRegistry.getToken(requirement.network, "USDC")?.address;
+  });
+
+  // If no USDC requirements are found, return the first accepted requirement.
+  return usdcRequirement ?? acceptedPaymentRequirements[0];
+}
+
+/**
+ * Gets the networks that a signer can pay on, to select the payment requirements for.
+ *
+ * @param walletClient - The signer of the payments.
+ * @returns The network of an EVM signer, the Solana networks for an SVM signer, or undefined if the signer can pay on any network.
+ */
+export function getSignerNetworks(walletClient: Signer | MultiNetworkSigner): Network | Network[] | undefined {
+  return isMultiNetworkSigner(walletClient)
+    ? undefined
+    : evm.isSignerWallet(walletClient as evm.EvmSigner)
+      ? ChainIdToNetwork[(walletClient as evm.SignerWallet).chain?.id]
+      : isSvmSignerWallet(walletClient)
+        ? (["solana", "solana-devnet"] as Network[])
+        : undefined;
+}
+
+/**
+ * Gets the schemes that a signer can pay with, to select the payment requirements for.
+ *
+ * @param walletClient - The signer of the payments.
+ * @returns The exact and upto schemes for a signer that can pay on Solana, or the exact scheme for an EVM signer.
+ */
+export function getSignerSchemes(walletClient: Signer | MultiNetworkSigner): Scheme | Scheme[] {
+  return isMultiNetworkSigner(walletClient) || isSvmSignerWallet(walletClient) ? ["exact", "upto"] : "exact";
 }
 
 /**
@@ -57,8 +103,9 @@ export function selectPaymentRequirements(paymentRequirements: PaymentRequiremen
  *
  * @param paymentRequirements - The payment requirements to select from.
  * @param network - The network to check against. If not provided, the network will not be checked.
- * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
+ * @param scheme - The scheme or schemes to check against. If not provided, the scheme will not be checked.
  * @returns The payment requirement that is the most appropriate for the user.
+ * @throws Error if none of the payment requirements can be paid.
  */
-export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact") => PaymentRequirements;
+export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: Scheme | Scheme[]) => PaymentRequirements | Promise<PaymentRequirements>;
 
@@ -1,12 +1,13 @@
 import { verify as verifyExactEvm, settle as settleExactEvm } from "../schemes/exact/evm/index.js";
 import { verify as verifyExactSvm, settle as settleExactSvm } from "../schemes/exact/svm/index.js";
+import { verify as verifyUptoSvm, settle as settleUptoSvm } from "../schemes/upto/svm/index.js";
 import { SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared/index.js";
 import { X402Config } from "../types/config.js";
 import {
   ConnectedClient as EvmConnectedClient,
   SignerWallet as EvmSignerWallet,
 } from "../types/shared/evm/index.js";
-import { ConnectedClient, Signer } from "../types/shared/wallet.js";
+import { ConnectedClient, FacilitatorSigner } from "../types/shared/wallet.js";
 import {
   PaymentPayload,
   PaymentRequirements,
@@ -15,7 +16,21 @@ import {
   ExactEvmPayload,
 } from "../types/verify/index.js";
 import { Chain, Transport, Account } from "viem";
-import { KeyPairSigner } from "@solana/kit";
+import { isKeyPairSigner, KeyPairSigner } from "@solana/kit";
+
+/**
+ * Narrows the client of an SVM payment to the key pair that co-signs it as the fee payer
+ *
+ * @param client - The client passed to verify or settle
+ * @returns The key pair signer of the facilitator
+ * @throws Error if the client is not a KeyPairSigner
+ */
+function getSvmFeePayer(client: ConnectedClient | FacilitatorSigner): KeyPairSigner {
+  if (!isKeyPairSigner(client as KeyPairSigner)) {
+    throw new Error("SVM payments must be verified and settled with a KeyPairSigner");
+  }
+  return client as KeyPairSigner;
+}
 
 /**
  * Verifies a payment payload against the required payment details regardless of the scheme
@@ -32,7 +47,7 @@ export async function verify<
   chain extends Chain,
   account extends Account | undefined,
 >(
-  client: ConnectedClient | Signer,
+  client: ConnectedClient | FacilitatorSigner,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
@@ -50,7 +65,15 @@ export async function verify<
 
     // svm
     if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      return await verifyExactSvm(client as KeyPairSigner, payload, paymentRequirements, config);
+      return await verifyExactSvm(getSvmFeePayer(client), payload, paymentRequirements, config);
+    }
+  }
+
+  // upto scheme
+  if (paymentRequirements.scheme === "upto") {
+    // svm
+    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
+      return await verifyUptoSvm(getSvmFeePayer(client), payload, paymentRequirements, config);
     }
   }
 
@@ -75,7 +98,7 @@ export async function verify<
  * @returns A SettleResponse indicating if the payment is settled and any settlement reason
  */
 export async function settle<transport extends Transport, chain extends Chain>(
-  client: Signer,
+  client: FacilitatorSigner,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
@@ -93,7 +116,15 @@ export async function settle<transport extends Transport, chain extends Chain>(
 
     // svm
     if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      return await settleExactSvm(client as KeyPairSigner, payload, paymentRequirements, config);
+      return await settleExactSvm(getSvmFeePayer(client), payload, paymentRequirements, config);
+    }
+  }
+
+  // upto scheme
+  if (paymentRequirements.scheme === "upto") {
+    // svm
+    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
+      return await settleUptoSvm(getSvmFeePayer(client), payload, paymentRequirements, config);
     }
   }
 
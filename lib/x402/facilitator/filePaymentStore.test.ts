@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createFilePaymentStore } from "./filePaymentStore";
+import { SettleResponse } from "../types/verify";
+
+const settleResponse: SettleResponse = {
+  success: true,
+  transaction: "signature",
+  network: "solana-devnet",
+};
+
+describe("createFilePaymentStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-payment-store-"));
+    path = join(dir, "payments.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should start empty when the file does not exist", async () => {
+    const store = createFilePaymentStore(path);
+
+    expect(await store.get("signature")).toBeUndefined();
+  });
+
+  it("should persist settled signatures across store instances", async () => {
+    const store = createFilePaymentStore(path);
+    await store.claim("signature");
+    await store.complete("signature", settleResponse);
+
+    const reopened = createFilePaymentStore(path);
+    expect(await reopened.get("signature")).toMatchObject({ status: "settled", settleResponse });
+    expect(await reopened.claim("signature")).toBe(false);
+    expect(JSON.parse(await readFile(path, "utf8"))).toHaveProperty("signature");
+  });
+
+  it("should only grant one of several concurrent claims", async () => {
+    const store = createFilePaymentStore(path);
+
+    const claims = await Promise.all([
+      store.claim("signature"),
+      store.claim("signature"),
+      store.claim("signature"),
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("should remove released claims", async () => {
+    const store = createFilePaymentStore(path);
+    await store.claim("signature");
+    await store.release("signature");
+
+    const reopened = createFilePaymentStore(path);
+    expect(await reopened.get("signature")).toBeUndefined();
+  });
+});
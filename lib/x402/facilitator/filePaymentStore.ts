@@ -0,0 +1,100 @@
+import { readFile, rename, writeFile } from "fs/promises";
+import {
+  isPaymentRecordActive,
+  PaymentRecord,
+  PaymentStore,
+  PaymentStoreOptions,
+} from "../shared/svm/paymentStore.js";
+
+/**
+ * Creates a payment store that persists its records to a JSON file.
+ * Writes are serialized within the process, so a file must not be shared
+ * between several facilitator processes.
+ *
+ * @param path - The path of the JSON file to store the records in
+ * @param options - Optional payment store options
+ * @returns A payment store backed by the given file
+ */
+export function createFilePaymentStore(
+  path: string,
+  options: PaymentStoreOptions = {},
+): PaymentStore {
+  let records: Record<string, PaymentRecord> | undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Loads the records from the file, creating an empty set of records if the file does not exist.
+   *
+   * @returns The records keyed on transaction signature
+   */
+  async function load(): Promise<Record<string, PaymentRecord>> {
+    if (records) {
+      return records;
+    }
+    try {
+      records = JSON.parse(await readFile(path, "utf8")) as Record<string, PaymentRecord>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      records = {};
+    }
+    return records;
+  }
+
+  /**
+   * Writes the records to a temporary file and moves it over the store file.
+   *
+   * @param data - The records to persist
+   */
+  async function persist(data: Record<string, PaymentRecord>): Promise<void> {
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data), "utf8");
+    await rename(tmpPath, path);
+  }
+
+  /**
+   * Runs the given operation after every previously queued operation has finished.
+   *
+   * @param operation - The operation to run
+   * @returns The result of the operation
+   */
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    get(signature) {
+      return enqueue(async () => (await load())[signature]);
+    },
+    claim(signature) {
+      return enqueue(async () => {
+        const data = await load();
+        if (isPaymentRecordActive(data[signature], options.pendingTimeoutMs)) {
+          return false;
+        }
+        data[signature] = { status: "pending", updatedAt: Date.now() };
+        await persist(data);
+        return true;
+      });
+    },
+    complete(signature, settleResponse) {
+      return enqueue(async () => {
+        const data = await load();
+        data[signature] = { status: "settled", settleResponse, updatedAt: Date.now() };
+        await persist(data);
+      });
+    },
+    release(signature) {
+      return enqueue(async () => {
+        const data = await load();
+        if (data[signature]?.status === "pending") {
+          delete data[signature];
+          await persist(data);
+        }
+      });
+    },
+  };
+}
@@ -1 +1,3 @@
 export * from "./facilitator.js";
+export * from "./server.js";
+export * from "./filePaymentStore.js";
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { generateKeyPairSigner, type KeyPairSigner } from "@solana/kit";
+import { createFacilitatorServer } from "./server";
+import { verify, settle } from "./facilitator";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+
+vi.mock("./facilitator", () => ({
+  verify: vi.fn(),
+  settle: vi.fn(),
+}));
+
+describe("createFacilitatorServer", () => {
+  let server: Server;
+  let baseUrl: string;
+  let devnetSigner: KeyPairSigner;
+  let mainnetSigner: KeyPairSigner;
+  let paymentRequirements: PaymentRequirements;
+  let paymentPayload: PaymentPayload;
+
+  beforeAll(async () => {
+    devnetSigner = await generateKeyPairSigner();
+    mainnetSigner = await generateKeyPairSigner();
+
+    const app = await createFacilitatorServer({
+      signers: {
+        "solana-devnet": devnetSigner,
+        solana: mainnetSigner,
+      },
+      rpcUrls: { solana: "https://mainnet.example.com" },
+      discoveryResources: [
+        {
+          resource: "https://example.com/a",
+          type: "http",
+          x402Version: 1,
+          accepts: [],
+          lastUpdated: new Date(0),
+        },
+        {
+          resource: "https://example.com/b",
+          type: "http",
+          x402Version: 1,
+          accepts: [],
+          lastUpdated: new Date(0),
+        },
+      ],
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    paymentRequirements = {
+      scheme: "exact",
+      network: "solana-devnet",
+      payTo: (await generateKeyPairSigner()).address,
+      asset: (await generateKeyPairSigner()).address,
+      maxAmountRequired: "1000",
+      resource: "https://example.com/resource",
+      description: "Test description",
+      mimeType: "application/json",
+      maxTimeoutSeconds: 60,
+      extra: { feePayer: devnetSigner.address },
+    };
+    paymentPayload = {
+      x402Version: 1,
+      scheme: "exact",
+      network: "solana-devnet",
+      payload: { transaction: "dGVzdA==" },
+    };
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  /**
+   * Posts a JSON body to the test server.
+   *
+   * @param path - The path to post to
+   * @param body - The JSON body to send
+   * @returns The fetch response
+   */
+  function post(path: string, body: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("should verify using the signer for the requested network", async () => {
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: devnetSigner.address });
+
+    const res = await post("/verify", { paymentPayload, paymentRequirements });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ isValid: true, payer: devnetSigner.address });
+    expect(verify).toHaveBeenCalledWith(
+      devnetSigner,
+      paymentPayload,
+      paymentRequirements,
+      undefined,
+    );
+  });
+
+  it("should reject malformed payment requirements with a structured reason", async () => {
+    const res = await post("/verify", {
+      paymentPayload,
+      paymentRequirements: { ...paymentRequirements, maxAmountRequired: "abc" },
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      isValid: false,
+      invalidReason: "invalid_payment_requirements",
+    });
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("should reject malformed payment payloads with a structured reason", async () => {
+    const res = await post("/settle", {
+      paymentPayload: { ...paymentPayload, payload: {} },
+      paymentRequirements,
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      success: false,
+      errorReason: "invalid_payload",
+      network: "solana-devnet",
+    });
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it("should reject settle requests without a known network", async () => {
+    const res = await post("/settle", {
+      paymentPayload,
+      paymentRequirements: { ...paymentRequirements, network: undefined },
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      success: false,
+      errorReason: "invalid_network",
+      transaction: "",
+    });
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it("should return invalid_network when no signer is configured for the network", async () => {
+    const res = await post("/settle", {
+      paymentPayload: { ...paymentPayload, network: "solana-localnet" },
+      paymentRequirements: { ...paymentRequirements, network: "solana-localnet" },
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      success: false,
+      errorReason: "invalid_network",
+      transaction: "",
+      network: "solana-localnet",
+    });
+  });
+
+  it("should settle using the signer and RPC URL of the requested network", async () => {
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction:
+        "5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW",
+      network: "solana",
+    });
+
+    const res = await post("/settle", {
+      paymentPayload: { ...paymentPayload, network: "solana" },
+      paymentRequirements: { ...paymentRequirements, network: "solana" },
+    });
+
+    expect(res.status).toBe(200);
+    expect(settle).toHaveBeenCalledWith(
+      mainnetSigner,
+      expect.objectContaining({ network: "solana" }),
+      expect.objectContaining({ network: "solana" }),
+      { svmConfig: { rpcUrl: "https://mainnet.example.com" } },
+    );
+  });
+
+  it("should list exact and upto kinds with a fee payer for every configured svm network", async () => {
+    const res = await fetch(`${baseUrl}/supported`);
+
+    expect(await res.json()).toEqual({
+      kinds: [
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network: "solana-devnet",
+          extra: { feePayer: devnetSigner.address, maxComputeUnitPrice: "5000000" },
+        },
+        {
+          x402Version: 1,
+          scheme: "upto",
+          network: "solana-devnet",
+          extra: { feePayer: devnetSigner.address, maxComputeUnitPrice: "5000000" },
+        },
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network: "solana",
+          extra: { feePayer: mainnetSigner.address, maxComputeUnitPrice: "5000000" },
+        },
+        {
+          x402Version: 1,
+          scheme: "upto",
+          network: "solana",
+          extra: { feePayer: mainnetSigner.address, maxComputeUnitPrice: "5000000" },
+        },
+      ],
+    });
+  });
+
+  it("should refuse an svm signer without a key pair", async () => {
+    const walletSigner = {
+      address: devnetSigner.address,
+      modifyAndSignTransactions: vi.fn(),
+    } as unknown as KeyPairSigner;
+
+    await expect(
+      createFacilitatorServer({ signers: { "solana-devnet": walletSigner } }),
+    ).rejects.toThrow("The signer of solana-devnet must be a KeyPairSigner");
+  });
+
+  it("should paginate discovery resources", async () => {
+    const res = await fetch(`${baseUrl}/discovery/resources?limit=1&offset=1`);
+    const body = await res.json();
+
+    expect(body.items).toHaveLength(1);
+    expect(body.items[0].resource).toBe("https://example.com/b");
+    expect(body.pagination).toEqual({ limit: 1, offset: 1, total: 2 });
+  });
+});
@@ -0,0 +1,282 @@
+import type { Express, Request, Response } from "express";
+import { isKeyPairSigner, KeyPairSigner } from "@solana/kit";
+import { verify, settle } from "./facilitator.js";
+import { X402Config } from "../types/config.js";
+import { DEFAULT_MAX_COMPUTE_UNIT_PRICE } from "../shared/svm/priorityFee.js";
+import {
+  FacilitatorSigner,
+  Network,
+  NetworkSchema,
+  SupportedSVMNetworks,
+} from "../types/shared/index.js";
+import {
+  DiscoveredResource,
+  ErrorReasons,
+  ListDiscoveryResourcesRequestSchema,
+  ListDiscoveryResourcesResponse,
+  PaymentPayloadSchema,
+  PaymentRequirementsSchema,
+  SettleRequestSchema,
+  SettleResponse,
+  SupportedPaymentKind,
+  VerifyRequestSchema,
+  VerifyResponse,
+} from "../types/verify/index.js";
+
+/**
+ * Options for creating a facilitator server.
+ */
+export interface FacilitatorServerOptions {
+  /**
+   * The signers used to verify and settle payments, keyed by network.
+   * SVM signers must be KeyPairSigners, they also act as the fee payer advertised from `/supported`.
+   */
+  signers: Partial<Record<Network, FacilitatorSigner>>;
+  /** Optional configuration for X402 operations (e.g., custom RPC URLs) */
+  x402Config?: X402Config;
+  /**
+   * Optional RPC URLs of the SVM networks, keyed by network. They take precedence over
+   * `x402Config.svmConfig.rpcUrl`, which is used for every SVM network.
+   */
+  rpcUrls?: Partial<Record<Network, string>>;
+  /** Optional resources listed from `/discovery/resources` */
+  discoveryResources?: DiscoveredResource[];
+}
+
+type ErrorReason = (typeof ErrorReasons)[number];
+
+/**
+ * Creates an Express application that exposes the facilitator endpoints
+ * (`/verify`, `/settle`, `/supported` and `/discovery/resources`).
+ *
+ * @param options - The facilitator server options
+ * @param options.signers - The signers used to verify and settle payments, keyed by network
+ * @param options.x402Config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param options.rpcUrls - Optional RPC URLs of the SVM networks, keyed by network
+ * @param options.discoveryResources - Optional resources listed from `/discovery/resources`
+ * @returns A promise that resolves to an Express application ready to `listen()`
+ * @throws Error if the signer of an SVM network is not a KeyPairSigner
+ *
+ * @example
+ * ```typescript
+ * const app = await createFacilitatorServer({
+ *   signers: {
+ *     "solana-devnet": await createSigner("solana-devnet", DEVNET_PRIVATE_KEY),
+ *     solana: await createSigner("solana", MAINNET_PRIVATE_KEY),
+ *   },
+ *   rpcUrls: {
+ *     "solana-devnet": "https://api.devnet.solana.com",
+ *     solana: "https://api.mainnet-beta.solana.com",
+ *   },
+ * });
+ * app.listen(3002);
+ * ```
+ */
+export async function createFacilitatorServer({
+  signers,
+  x402Config,
+  rpcUrls = {},
+  discoveryResources = [],
+}: FacilitatorServerOptions): Promise<Express> {
+  for (const [network, signer] of Object.entries(signers) as [Network, FacilitatorSigner][]) {
+    if (SupportedSVMNetworks.includes(network) && !isKeyPairSigner(signer as KeyPairSigner)) {
+      throw new Error(`The signer of ${network} must be a KeyPairSigner to pay the fees`);
+    }
+  }
+
+  // express is an optional peer dependency, so only load it when a server is created
+  const { default: express } = await import("express");
+
+  const app = express();
+  app.use(express.json());
+
+  app.get("/verify", (_req: Request, res: Response) => {
+    res.json({
+      endpoint: "/verify",
+      description: "POST to verify x402 payments",
+      body: {
+        paymentPayload: "PaymentPayload",
+        paymentRequirements: "PaymentRequirements",
+      },
+    });
+  });
+
+  app.post("/verify", async (req: Request, res: Response) => {
+    const parsed = VerifyRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const response: VerifyResponse = {
+        isValid: false,
+        invalidReason: getRequestErrorReason(req.body),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const { paymentPayload, paymentRequirements } = parsed.data;
+    const signer = signers[paymentRequirements.network];
+    if (!signer) {
+      const response: VerifyResponse = { isValid: false, invalidReason: "invalid_network" };
+      res.json(response);
+      return;
+    }
+
+    try {
+      res.json(
+        await verify(
+          signer,
+          paymentPayload,
+          paymentRequirements,
+          getNetworkConfig(x402Config, rpcUrls, paymentRequirements.network),
+        ),
+      );
+    } catch (error) {
+      console.error("error", error);
+      const response: VerifyResponse = { isValid: false, invalidReason: "unexpected_verify_error" };
+      res.status(500).json(response);
+    }
+  });
+
+  app.get("/settle", (_req: Request, res: Response) => {
+    res.json({
+      endpoint: "/settle",
+      description: "POST to settle x402 payments",
+      body: {
+        paymentPayload: "PaymentPayload",
+        paymentRequirements: "PaymentRequirements",
+      },
+    });
+  });
+
+  app.post("/settle", async (req: Request, res: Response) => {
+    const parsed = SettleRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      // the network is left out of the response when the request names no known network
+      const network = NetworkSchema.safeParse(req.body?.paymentRequirements?.network);
+      const response: Omit<SettleResponse, "network"> & { network?: Network } = {
+        success: false,
+        errorReason: network.success ? getRequestErrorReason(req.body) : "invalid_network",
+        transaction: "",
+        ...(network.success && { network: network.data }),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const { paymentPayload, paymentRequirements } = parsed.data;
+    const signer = signers[paymentRequirements.network];
+    if (!signer) {
+      const response: SettleResponse = {
+        success: false,
+        errorReason: "invalid_network",
+        transaction: "",
+        network: paymentRequirements.network,
+      };
+      res.json(response);
+      return;
+    }
+
+    try {
+      res.json(
+        await settle(
+          signer,
+          paymentPayload,
+          paymentRequirements,
+          getNetworkConfig(x402Config, rpcUrls, paymentRequirements.network),
+        ),
+      );
+    } catch (error) {
+      console.error("error", error);
+      const response: SettleResponse = {
+        success: false,
+        errorReason: "unexpected_settle_error",
+        transaction: "",
+        network: paymentRequirements.network,
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  app.get("/supported", (_req: Request, res: Response) => {
+    const kinds: SupportedPaymentKind[] = [];
+    for (const [network, signer] of Object.entries(signers) as [Network, FacilitatorSigner][]) {
+      if (SupportedSVMNetworks.includes(network)) {
+        // advertise the maximum compute unit price so that clients never exceed it
+        const extra = {
+          feePayer: (signer as KeyPairSigner).address,
+          maxComputeUnitPrice: (
+            x402Config?.svmConfig?.facilitatorPolicy?.maxComputeUnitPrice ??
+            DEFAULT_MAX_COMPUTE_UNIT_PRICE
+          ).toString(),
+        };
+        kinds.push({ x402Version: 1, scheme: "exact", network, extra });
+        kinds.push({ x402Version: 1, scheme: "upto", network, extra });
+        continue;
+      }
+      kinds.push({ x402Version: 1, scheme: "exact", network, extra: undefined });
+    }
+    res.json({ kinds });
+  });
+
+  app.get("/discovery/resources", (req: Request, res: Response) => {
+    const parsed = ListDiscoveryResourcesRequestSchema.safeParse({
+      type: req.query.type,
+      limit: req.query.limit !== undefined ? Number(req.query.limit) : undefined,
+      offset: req.query.offset !== undefined ? Number(req.query.offset) : undefined,
+    });
+    if (!parsed.success) {
+      res.status(400).json({ error: "invalid_payload" });
+      return;
+    }
+
+    const { type, limit = 20, offset = 0 } = parsed.data;
+    const items = type
+      ? discoveryResources.filter(resource => resource.type === type)
+      : discoveryResources;
+
+    const response: ListDiscoveryResourcesResponse = {
+      x402Version: 1,
+      items: items.slice(offset, offset + limit),
+      pagination: { limit, offset, total: items.length },
+    };
+    res.json(response);
+  });
+
+  return app;
+}
+
+/**
+ * Gets the configuration of the payments of a network, that connects to the RPC URL of the network.
+ *
+ * @param x402Config - The configuration of the facilitator
+ * @param rpcUrls - The RPC URLs of the SVM networks, keyed by network
+ * @param network - The network of the payment
+ * @returns The configuration of the payments of the network
+ */
+function getNetworkConfig(
+  x402Config: X402Config | undefined,
+  rpcUrls: Partial<Record<Network, string>>,
+  network: Network,
+): X402Config | undefined {
+  const rpcUrl = rpcUrls[network];
+  if (!rpcUrl) {
+    return x402Config;
+  }
+  return { ...x402Config, svmConfig: { ...x402Config?.svmConfig, rpcUrl } };
+}
+
+/**
+ * Determines which part of a verify or settle request body failed validation.
+ *
+ * @param body - The raw request body
+ * @returns The error reason describing the invalid part of the request
+ */
+function getRequestErrorReason(body: unknown): ErrorReason {
+  const { paymentPayload, paymentRequirements } = (body ?? {}) as Record<string, unknown>;
+  if (!PaymentRequirementsSchema.safeParse(paymentRequirements).success) {
+    return "invalid_payment_requirements";
+  }
+  if (!PaymentPayloadSchema.safeParse(paymentPayload).success) {
+    return "invalid_payload";
+  }
+  return "invalid_payment";
+}
@@ -1,6 +1,7 @@
 import { createRoot } from "react-dom/client";
 import { Providers } from "./src/Providers";
 import { PaywallApp } from "./src/PaywallApp";
+import { applyTheme } from "./src/theme";
 
 // Initialize the app when the window loads
 window.addEventListener("load", () => {
@@ -10,6 +11,9 @@ window.addEventListener("load", () => {
     return;
   }
 
+  document.documentElement.lang = window.x402.locale || "en";
+  applyTheme(window.x402.theme);
+
   const root = createRoot(rootElement);
   root.render(
     <Providers>
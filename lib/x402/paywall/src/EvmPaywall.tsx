@@ -0,0 +1,299 @@
+"use client";
+
+import { FundButton, getOnrampBuyUrl } from "@coinbase/onchainkit/fund";
+import { Avatar, Name } from "@coinbase/onchainkit/identity";
+import {
+  ConnectWallet,
+  Wallet,
+  WalletDropdown,
+  WalletDropdownDisconnect,
+} from "@coinbase/onchainkit/wallet";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createPublicClient, formatUnits, http, publicActions } from "viem";
+import { base, baseSepolia } from "viem/chains";
+import { useAccount, useSwitchChain, useWalletClient } from "wagmi";
+
+import { exact } from "../../schemes";
+import { getUSDCBalance } from "../../shared/evm";
+import type { PaywallPaymentOption } from "../../shared/paywall";
+
+import { t } from "./i18n";
+import { Spinner } from "./Spinner";
+import { useOnrampSessionToken } from "./useOnrampSessionToken";
+import { ensureValidAmount, handleSuccessfulResponse } from "./utils";
+
+type EvmPaywallProps = {
+  paymentOption: PaywallPaymentOption;
+  onBack?: () => void;
+};
+
+/**
+ * Paywall for payments on Base, paid with an EVM wallet
+ *
+ * @param props - The component props
+ * @param props.paymentOption - The payment option that the user chose
+ * @param props.onBack - Returns to the payment options, if the route accepts several
+ * @returns The EvmPaywall component
+ */
+export function EvmPaywall({ paymentOption, onBack }: EvmPaywallProps) {
+  const { address, isConnected, chainId: connectedChainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const { data: wagmiWalletClient } = useWalletClient();
+  const { sessionToken } = useOnrampSessionToken(address);
+
+  const [status, setStatus] = useState<string>("");
+  const [isCorrectChain, setIsCorrectChain] = useState<boolean | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+  const [formattedUsdcBalance, setFormattedUsdcBalance] = useState<string>("");
+  const [hideBalance, setHideBalance] = useState(true);
+
+  const x402 = window.x402;
+  const {
+    paymentRequirements,
+    amount,
+    tokenSymbol,
+    testnet,
+    networkName: chainName,
+  } = paymentOption;
+  const paymentChain = paymentRequirements.network === "base" ? base : baseSepolia;
+  const showOnramp = Boolean(!testnet && isConnected && x402.sessionTokenEndpoint);
+
+  useEffect(() => {
+    if (address) {
+      handleSwitchChain();
+      checkUSDCBalance();
+    }
+  }, [address]);
+
+  const publicClient = createPublicClient({
+    chain: paymentChain,
+    transport: http(),
+  }).extend(publicActions);
+
+  useEffect(() => {
+    if (isConnected && paymentChain.id === connectedChainId) {
+      setIsCorrectChain(true);
+      setStatus("");
+    } else if (isConnected && paymentChain.id !== connectedChainId) {
+      setIsCorrectChain(false);
+      setStatus(t("wrongNetwork", { network: chainName }));
+    } else {
+      setIsCorrectChain(null);
+      setStatus("");
+    }
+  }, [paymentChain.id, connectedChainId, isConnected]);
+
+  const checkUSDCBalance = useCallback(async () => {
+    if (!address) {
+      return;
+    }
+    const balance = await getUSDCBalance(publicClient, address);
+    const formattedBalance = formatUnits(balance, 6);
+    setFormattedUsdcBalance(formattedBalance);
+  }, [address, publicClient]);
+
+  const onrampBuyUrl = useMemo(() => {
+    if (!sessionToken) {
+      return;
+    }
+    return getOnrampBuyUrl({
+      presetFiatAmount: 2,
+      fiatCurrency: "USD",
+      sessionToken,
+    });
+  }, [sessionToken]);
+
+  const handleSwitchChain = useCallback(async () => {
+    if (isCorrectChain) {
+      return;
+    }
+
+    try {
+      setStatus("");
+      await switchChainAsync({ chainId: paymentChain.id });
+      // Small delay to let wallet settle
+      await new Promise(resolve => setTimeout(resolve, 100));
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t("switchFailed"));
+    }
+  }, [switchChainAsync, paymentChain, isCorrectChain]);
+
+  const handlePayment = useCallback(async () => {
+    if (!address) {
+      return;
+    }
+
+    await handleSwitchChain();
+
+    // Use wagmi's wallet client which has the correct provider for the connected wallet
+    // This avoids MetaMask conflicts when multiple wallets are installed
+    if (!wagmiWalletClient) {
+      setStatus(t("walletUnavailable"));
+      return;
+    }
+    const walletClient = wagmiWalletClient.extend(publicActions);
+
+    setIsPaying(true);
+
+    try {
+      setStatus(t("checkingBalance", { token: "USDC" }));
+      const validPaymentRequirements = ensureValidAmount(paymentOption);
+      const balance = await getUSDCBalance(publicClient, address);
+
+      if (balance < BigInt(validPaymentRequirements.maxAmountRequired)) {
+        throw new Error(t("insufficientBalance", { token: "USDC", network: chainName }));
+      }
+
+      setStatus(t("creatingSignature"));
+      const initialPayment = await exact.evm.createPayment(
+        walletClient,
+        1,
+        validPaymentRequirements,
+      );
+
+      const paymentHeader: string = exact.evm.encodePayment(initialPayment);
+
+      setStatus(t("requestingContent"));
+      const response = await fetch(x402.currentUrl, {
+        headers: {
+          "X-PAYMENT": paymentHeader,
+          "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+        },
+      });
+
+      if (response.ok) {
+        await handleSuccessfulResponse(response);
+      } else if (response.status === 402) {
+        // Try to parse error data, fallback to empty object if parsing fails
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData && typeof errorData.x402Version === "number") {
+          // Retry with server's x402Version
+          const retryPayment = await exact.evm.createPayment(
+            walletClient,
+            errorData.x402Version,
+            validPaymentRequirements,
+          );
+
+          retryPayment.x402Version = errorData.x402Version;
+          const retryHeader = exact.evm.encodePayment(retryPayment);
+          const retryResponse = await fetch(x402.currentUrl, {
+            headers: {
+              "X-PAYMENT": retryHeader,
+              "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+            },
+          });
+          if (retryResponse.ok) {
+            await handleSuccessfulResponse(retryResponse);
+            return;
+          } else {
+            throw new Error(t("paymentRetryFailed", { reason: retryResponse.statusText }));
+          }
+        } else {
+          throw new Error(t("paymentFailedReason", { reason: response.statusText }));
+        }
+      } else {
+        throw new Error(
+          t("requestFailed", { status: response.status, reason: response.statusText }),
+        );
+      }
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t("paymentFailed"));
+    } finally {
+      setIsPaying(false);
+    }
+  }, [address, x402, paymentOption, publicClient, paymentChain, handleSwitchChain]);
+
+  return (
+    <div className="container gap-8">
+      <div className="header">
+        <h1 className="title">{t("title")}</h1>
+        <p>
+          {paymentRequirements.description && `${paymentRequirements.description}.`}{" "}
+          {t("payAmount", { amount, network: chainName, token: tokenSymbol })}
+        </p>
+        {testnet && (
+          <p className="instructions">
+            {t("faucetPrompt", { network: chainName, token: "USDC" })}{" "}
+            <a href="https://faucet.circle.com/" target="_blank" rel="noopener noreferrer">
+              <u>{t("faucetLink")}</u>
+            </a>
+          </p>
+        )}
+      </div>
+
+      <div className="content w-full">
+        <Wallet className="w-full">
+          <ConnectWallet className="w-full py-3" disconnectedLabel={t("connectWallet")}>
+            <Avatar className="h-5 w-5 opacity-80" />
+            <Name className="opacity-80 text-sm" />
+          </ConnectWallet>
+          <WalletDropdown>
+            <WalletDropdownDisconnect className="opacity-80" />
+          </WalletDropdown>
+        </Wallet>
+        {isConnected && (
+          <div id="payment-section">
+            <div className="payment-details">
+              <div className="payment-row">
+                <span className="payment-label">{t("walletLabel")}</span>
+                <span className="payment-value">
+                  {address ? `${address.slice(0, 6)}...${address.slice(-4)}` : t("loading")}
+                </span>
+              </div>
+              <div className="payment-row">
+                <span className="payment-label">{t("balanceLabel")}</span>
+                <span className="payment-value">
+                  <button className="balance-button" onClick={() => setHideBalance(prev => !prev)}>
+                    {formattedUsdcBalance && !hideBalance
+                      ? `$${formattedUsdcBalance} USDC`
+                      : "••••• USDC"}
+                  </button>
+                </span>
+              </div>
+              <div className="payment-row">
+                <span className="payment-label">{t("amountLabel")}</span>
+                <span className="payment-value">
+                  {amount} {tokenSymbol}
+                </span>
+              </div>
+              <div className="payment-row">
+                <span className="payment-label">{t("networkLabel")}</span>
+                <span className="payment-value">{chainName}</span>
+              </div>
+            </div>
+
+            {isCorrectChain ? (
+              <div className="cta-container">
+                {showOnramp && (
+                  <FundButton
+                    fundingUrl={onrampBuyUrl}
+                    text={t("getMoreUsdc")}
+                    hideIcon
+                    className="button button-positive"
+                  />
+                )}
+                <button
+                  className="button button-primary"
+                  onClick={handlePayment}
+                  disabled={isPaying}
+                >
+                  {isPaying ? <Spinner /> : t("payNow")}
+                </button>
+              </div>
+            ) : (
+              <button className="button button-primary" onClick={handleSwitchChain}>
+                {t("switchNetwork", { network: chainName })}
+              </button>
+            )}
+          </div>
+        )}
+        {onBack && (
+          <button className="button button-secondary" onClick={onBack}>
+            {t("chooseAnotherOption")}
+          </button>
+        )}
+        {status && <div className="status">{status}</div>}
+      </div>
+    </div>
+  );
+}
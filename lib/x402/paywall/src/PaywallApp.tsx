@@ -1,304 +1,104 @@
 "use client";
 
-import { FundButton, getOnrampBuyUrl } from "@coinbase/onchainkit/fund";
-import { Avatar, Name } from "@coinbase/onchainkit/identity";
-import {
-  ConnectWallet,
-  Wallet,
-  WalletDropdown,
-  WalletDropdownDisconnect,
-} from "@coinbase/onchainkit/wallet";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { createPublicClient, formatUnits, http, publicActions } from "viem";
-import { base, baseSepolia } from "viem/chains";
-import { useAccount, useSwitchChain, useWalletClient } from "wagmi";
+import { useState } from "react";
 
-import { selectPaymentRequirements } from "../../client";
-import { exact } from "../../schemes";
-import { getUSDCBalance } from "../../shared/evm";
+import type { PaywallPaymentOption } from "../../shared/paywall";
+import { SupportedSVMNetworks } from "../../types/shared/network";
 
-import { Spinner } from "./Spinner";
-import { useOnrampSessionToken } from "./useOnrampSessionToken";
-import { ensureValidAmount } from "./utils";
+import { EvmPaywall } from "./EvmPaywall";
+import { t } from "./i18n";
+import { SolanaPaywall } from "./SolanaPaywall";
 
 /**
- * Main Paywall App Component
+ * Checks if the paywall has a wallet flow for the payment option, i.e. an exact payment on a
+ * Solana network or on Base
  *
- * @returns The PaywallApp component
+ * @param paymentOption - The payment option to check
+ * @returns True if the user can pay the option in the paywall, false otherwise
  */
-export function PaywallApp() {
-  const { address, isConnected, chainId: connectedChainId } = useAccount();
-  const { switchChainAsync } = useSwitchChain();
-  const { data: wagmiWalletClient } = useWalletClient();
-  const { sessionToken } = useOnrampSessionToken(address);
-
-  const [status, setStatus] = useState<string>("");
-  const [isCorrectChain, setIsCorrectChain] = useState<boolean | null>(null);
-  const [isPaying, setIsPaying] = useState(false);
-  const [formattedUsdcBalance, setFormattedUsdcBalance] = useState<string>("");
-  const [hideBalance, setHideBalance] = useState(true);
-
-  const x402 = window.x402;
-  const amount = x402.amount || 0;
-  const testnet = x402.testnet ?? true;
-  const paymentChain = testnet ? baseSepolia : base;
-  const chainName = testnet ? "Base Sepolia" : "Base";
-  const network = testnet ? "base-sepolia" : "base";
-  const showOnramp = Boolean(!testnet && isConnected && x402.sessionTokenEndpoint);
-
-  useEffect(() => {
-    if (address) {
-      handleSwitchChain();
-      checkUSDCBalance();
-    }
-  }, [address]);
-
-  const publicClient = createPublicClient({
-    chain: paymentChain,
-    transport: http(),
-  }).extend(publicActions);
-
-  const paymentRequirements = x402
-    ? selectPaymentRequirements([x402.paymentRequirements].flat(), network, "exact")
-    : null;
-
-  useEffect(() => {
-    if (isConnected && paymentChain.id === connectedChainId) {
-      setIsCorrectChain(true);
-      setStatus("");
-    } else if (isConnected && paymentChain.id !== connectedChainId) {
-      setIsCorrectChain(false);
-      setStatus(`On the wrong network. Please switch to ${chainName}.`);
-    } else {
-      setIsCorrectChain(null);
-      setStatus("");
-    }
-  }, [paymentChain.id, connectedChainId, isConnected]);
-
-  const checkUSDCBalance = useCallback(async () => {
-    if (!address) {
-      return;
-    }
-    const balance = await getUSDCBalance(publicClient, address);
-    const formattedBalance = formatUnits(balance, 6);
-    setFormattedUsdcBalance(formattedBalance);
-  }, [address, publicClient]);
-
-  const onrampBuyUrl = useMemo(() => {
-    if (!sessionToken) {
-      return;
-    }
-    return getOnrampBuyUrl({
-      presetFiatAmount: 2,
-      fiatCurrency: "USD",
-      sessionToken,
-    });
-  }, [sessionToken]);
-
-  const handleSuccessfulResponse = useCallback(async (response: Response) => {
-    const contentType = response.headers.get("content-type");
-    if (contentType && contentType.includes("text/html")) {
-      document.documentElement.innerHTML = await response.text();
-    } else {
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      window.location.href = url;
-    }
-  }, []);
-
-  const handleSwitchChain = useCallback(async () => {
-    if (isCorrectChain) {
-      return;
-    }
-
-    try {
-      setStatus("");
-      await switchChainAsync({ chainId: paymentChain.id });
-      // Small delay to let wallet settle
-      await new Promise(resolve => setTimeout(resolve, 100));
-    } catch (error) {
-      setStatus(error instanceof Error ? error.message : "Failed to switch network");
-    }
-  }, [switchChainAsync, paymentChain, isCorrectChain]);
-
-  const handlePayment = useCallback(async () => {
-    if (!address || !x402 || !paymentRequirements) {
-      return;
-    }
-
-    await handleSwitchChain();
-
-    // Use wagmi's wallet client which has the correct provider for the connected wallet
-    // This avoids MetaMask conflicts when multiple wallets are installed
-    if (!wagmiWalletClient) {
-      setStatus("Wallet client not available. Please reconnect your wallet.");
-      return;
-    }
-    const walletClient = wagmiWalletClient.extend(publicActions);
-
-    setIsPaying(true);
-
-    try {
-      setStatus("Checking USDC balance...");
-      const balance = await getUSDCBalance(publicClient, address);
-
-      if (balance === 0n) {
-        throw new Error(`Insufficient balance. Make sure you have USDC on ${chainName}`);
-      }
-
-      setStatus("Creating payment signature...");
-      const validPaymentRequirements = ensureValidAmount(paymentRequirements);
-      const initialPayment = await exact.evm.createPayment(
-        walletClient,
-        1,
-        validPaymentRequirements,
-      );
-
-      const paymentHeader: string = exact.evm.encodePayment(initialPayment);
-
-      setStatus("Requesting content with payment...");
-      const response = await fetch(x402.currentUrl, {
-        headers: {
-          "X-PAYMENT": paymentHeader,
-          "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
-        },
-      });
-
-      if (response.ok) {
-        await handleSuccessfulResponse(response);
-      } else if (response.status === 402) {
-        // Try to parse error data, fallback to empty object if parsing fails
-        const errorData = await response.json().catch(() => ({}));
-        if (errorData && typeof errorData.x402Version === "number") {
-          // Retry with server's x402Version
-          const retryPayment = await exact.evm.createPayment(
-            walletClient,
-            errorData.x402Version,
-            validPaymentRequirements,
-          );
+function isPayable({ paymentRequirements }: PaywallPaymentOption): boolean {
+  const { scheme, network } = paymentRequirements;
+  return (
+    scheme === "exact" &&
+    (SupportedSVMNetworks.includes(network) || network === "base" || network === "base-sepolia")
+  );
+}
 
-          retryPayment.x402Version = errorData.x402Version;
-          const retryHeader = exact.evm.encodePayment(retryPayment);
-          const retryResponse = await fetch(x402.currentUrl, {
-            headers: {
-              "X-PAYMENT": retryHeader,
-              "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
-            },
-          });
-          if (retryResponse.ok) {
-            await handleSuccessfulResponse(retryResponse);
-            return;
-          } else {
-            throw new Error(`Payment retry failed: ${retryResponse.statusText}`);
-          }
-        } else {
-          throw new Error(`Payment failed: ${response.statusText}`);
-        }
-      } else {
-        throw new Error(`Request failed: ${response.status} ${response.statusText}`);
-      }
-    } catch (error) {
-      setStatus(error instanceof Error ? error.message : "Payment failed");
-    } finally {
-      setIsPaying(false);
-    }
-  }, [address, x402, paymentRequirements, publicClient, paymentChain, handleSwitchChain]);
+/**
+ * Lets the user choose one of the payment options of the route and renders the wallet flow of its
+ * network
+ *
+ * @returns The PaymentOptions component
+ */
+function PaymentOptions() {
+  const paymentOptions = (window.x402?.paymentOptions ?? []).filter(isPayable);
+  const [selected, setSelected] = useState<PaywallPaymentOption | null>(
+    paymentOptions.length === 1 ? paymentOptions[0] : null,
+  );
 
-  if (!x402 || !paymentRequirements) {
+  if (paymentOptions.length === 0) {
     return (
       <div className="container">
         <div className="header">
-          <h1 className="title">Payment Required</h1>
-          <p className="subtitle">Loading payment details...</p>
+          <h1 className="title">{t("title")}</h1>
+          <p className="subtitle">{t("cannotPayInBrowser")}</p>
         </div>
       </div>
     );
   }
 
+  if (selected) {
+    const onBack = paymentOptions.length > 1 ? () => setSelected(null) : undefined;
+    return SupportedSVMNetworks.includes(selected.paymentRequirements.network) ? (
+      <SolanaPaywall paymentOption={selected} onBack={onBack} />
+    ) : (
+      <EvmPaywall paymentOption={selected} onBack={onBack} />
+    );
+  }
+
+  const { description } = paymentOptions[0].paymentRequirements;
   return (
     <div className="container gap-8">
       <div className="header">
-        <h1 className="title">Payment Required</h1>
+        <h1 className="title">{t("title")}</h1>
         <p>
-          {paymentRequirements.description && `${paymentRequirements.description}.`} To access this
-          content, please pay ${amount} {chainName} USDC.
+          {description && `${description}.`} {t("chooseOption")}
         </p>
-        {testnet && (
-          <p className="instructions">
-            Need Base Sepolia USDC?{" "}
-            <a href="https://faucet.circle.com/" target="_blank" rel="noopener noreferrer">
-              Get some <u>here</u>.
-            </a>
-          </p>
-        )}
       </div>
 
       <div className="content w-full">
-        <Wallet className="w-full">
-          <ConnectWallet className="w-full py-3" disconnectedLabel="Connect wallet">
-            <Avatar className="h-5 w-5 opacity-80" />
-            <Name className="opacity-80 text-sm" />
-          </ConnectWallet>
-          <WalletDropdown>
-            <WalletDropdownDisconnect className="opacity-80" />
-          </WalletDropdown>
-        </Wallet>
-        {isConnected && (
-          <div id="payment-section">
-            <div className="payment-details">
-              <div className="payment-row">
-                <span className="payment-label">Wallet:</span>
-                <span className="payment-value">
-                  {address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "Loading..."}
-                </span>
-              </div>
-              <div className="payment-row">
-                <span className="payment-label">Available balance:</span>
-                <span className="payment-value">
-                  <button className="balance-button" onClick={() => setHideBalance(prev => !prev)}>
-                    {formattedUsdcBalance && !hideBalance
-                      ? `$${formattedUsdcBalance} USDC`
-                      : "••••• USDC"}
-                  </button>
-                </span>
-              </div>
-              <div className="payment-row">
-                <span className="payment-label">Amount:</span>
-                <span className="payment-value">${amount} USDC</span>
-              </div>
-              <div className="payment-row">
-                <span className="payment-label">Network:</span>
-                <span className="payment-value">{chainName}</span>
-              </div>
-            </div>
-
-            {isCorrectChain ? (
-              <div className="cta-container">
-                {showOnramp && (
-                  <FundButton
-                    fundingUrl={onrampBuyUrl}
-                    text="Get more USDC"
-                    hideIcon
-                    className="button button-positive"
-                  />
-                )}
-                <button
-                  className="button button-primary"
-                  onClick={handlePayment}
-                  disabled={isPaying}
-                >
-                  {isPaying ? <Spinner /> : "Pay now"}
-                </button>
-              </div>
-            ) : (
-              <button className="button button-primary" onClick={handleSwitchChain}>
-                Switch to {chainName}
-              </button>
-            )}
-          </div>
-        )}
-        {status && <div className="status">{status}</div>}
+        {paymentOptions.map((paymentOption, index) => (
+          <button
+            key={index}
+            className="button button-secondary payment-option"
+            onClick={() => setSelected(paymentOption)}
+          >
+            <span>
+              {paymentOption.amount} {paymentOption.tokenSymbol}
+            </span>
+            <span className="payment-label">{paymentOption.networkName}</span>
+          </button>
+        ))}
       </div>
     </div>
   );
 }
+
+/**
+ * Main Paywall App Component, renders the payment options between the header and footer slots of
+ * the paywall config
+ *
+ * @returns The PaywallApp component
+ */
+export function PaywallApp() {
+  const { header, footer } = window.x402;
+
+  return (
+    <>
+      {/* the slots are trusted HTML of the server's paywall config */}
+      {header && <div className="paywall-header" dangerouslySetInnerHTML={{ __html: header }} />}
+      <PaymentOptions />
+      {footer && <div className="paywall-footer" dangerouslySetInnerHTML={{ __html: footer }} />}
+    </>
+  );
+}
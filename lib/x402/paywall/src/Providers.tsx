@@ -15,12 +15,15 @@ type ProvidersProps = {
  * @returns The Providers component
  */
 export function Providers({ children }: ProvidersProps) {
-  const { testnet, cdpClientKey, appName, appLogo } = window.x402;
+  const { paymentOptions, cdpClientKey, appName, appLogo } = window.x402;
+  const chain = paymentOptions.some(option => option.paymentRequirements.network === "base")
+    ? base
+    : baseSepolia;
 
   return (
     <OnchainKitProvider
       apiKey={cdpClientKey || undefined}
-      chain={testnet ? baseSepolia : base}
+      chain={chain}
       config={{
         appearance: {
           mode: "light",
@@ -0,0 +1,274 @@
+"use client";
+
+import type { Address } from "@solana/kit";
+import { useCallback, useEffect, useState } from "react";
+
+import { exact } from "../../schemes";
+import { formatAtomicAmount } from "../../shared/decimal";
+import type { PaywallPaymentOption } from "../../shared/paywall";
+import { getRpcClient } from "../../shared/svm/rpc";
+import { createWalletStandardSigner, WalletStandardAccount } from "../../shared/svm/walletStandard";
+import type { PaymentRequirements } from "../../types/verify";
+
+import { t } from "./i18n";
+import { Spinner } from "./Spinner";
+import { SolanaWallet, useSolanaWallets } from "./useSolanaWallets";
+import { ensureValidAmount, handleSuccessfulResponse } from "./utils";
+
+/**
+ * Gets the SPL token balance of an owner, summed over all its token accounts of the mint
+ *
+ * @param paymentRequirements - The payment requirements with the network and mint of the token
+ * @param owner - The owner of the token accounts
+ * @returns The balance in atomic units
+ */
+async function getTokenBalance(
+  paymentRequirements: PaymentRequirements,
+  owner: string,
+): Promise<bigint> {
+  const rpc = getRpcClient(paymentRequirements.network, window.x402.svmRpcUrl || undefined);
+  const { value } = await rpc
+    .getTokenAccountsByOwner(
+      owner as Address,
+      { mint: paymentRequirements.asset as Address },
+      { encoding: "jsonParsed" },
+    )
+    .send();
+  return value.reduce(
+    (balance, { account }) => balance + BigInt(account.data.parsed.info.tokenAmount.amount),
+    0n,
+  );
+}
+
+type SolanaPaywallProps = {
+  paymentOption: PaywallPaymentOption;
+  onBack?: () => void;
+};
+
+/**
+ * Paywall for payments on Solana, paid with a Wallet Standard wallet
+ *
+ * @param props - The component props
+ * @param props.paymentOption - The payment option that the user chose
+ * @param props.onBack - Returns to the payment options, if the route accepts several
+ * @returns The SolanaPaywall component
+ */
+export function SolanaPaywall({ paymentOption, onBack }: SolanaPaywallProps) {
+  const wallets = useSolanaWallets();
+  const [wallet, setWallet] = useState<SolanaWallet | null>(null);
+  const [account, setAccount] = useState<WalletStandardAccount | null>(null);
+
+  const [status, setStatus] = useState<string>("");
+  const [isPaying, setIsPaying] = useState(false);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [hideBalance, setHideBalance] = useState(true);
+
+  const x402 = window.x402;
+  const {
+    paymentRequirements,
+    amount,
+    decimals,
+    tokenSymbol,
+    testnet,
+    networkName: chainName,
+  } = paymentOption;
+  const network = paymentRequirements.network;
+
+  const checkBalance = useCallback(async () => {
+    if (!account) {
+      return null;
+    }
+    const tokenBalance = await getTokenBalance(paymentRequirements, account.address);
+    setBalance(tokenBalance);
+    return tokenBalance;
+  }, [account, paymentRequirements]);
+
+  useEffect(() => {
+    checkBalance().catch(error => console.error("Failed to fetch the token balance:", error));
+  }, [checkBalance]);
+
+  const handleConnect = useCallback(async (selected: SolanaWallet) => {
+    try {
+      setStatus("");
+      const { accounts } = await selected.features["standard:connect"]!.connect();
+      if (accounts.length === 0) {
+        throw new Error(t("noAccount", { wallet: selected.name }));
+      }
+      setWallet(selected);
+      setAccount(accounts[0]);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t("connectFailed"));
+    }
+  }, []);
+
+  const handleDisconnect = useCallback(async () => {
+    await wallet?.features["standard:disconnect"]?.disconnect();
+    setWallet(null);
+    setAccount(null);
+    setBalance(null);
+  }, [wallet]);
+
+  const handlePayment = useCallback(async () => {
+    if (!wallet || !account) {
+      return;
+    }
+
+    setIsPaying(true);
+
+    try {
+      setStatus(t("checkingBalance", { token: tokenSymbol }));
+      const validPaymentRequirements = ensureValidAmount(paymentOption);
+      const tokenBalance = await checkBalance();
+
+      if (
+        tokenBalance === null ||
+        tokenBalance < BigInt(validPaymentRequirements.maxAmountRequired)
+      ) {
+        throw new Error(t("insufficientBalance", { token: tokenSymbol, network: chainName }));
+      }
+
+      // the facilitator of the payment requirements pays the transaction fee as its `feePayer`
+      const signer = createWalletStandardSigner(wallet, account, network);
+      const config = { svmConfig: { rpcUrl: x402.svmRpcUrl || undefined } };
+      const fetchWithPayment = async (x402Version: number) => {
+        setStatus(t("waitingForSignature"));
+        const paymentHeader = await exact.svm.createPaymentHeader(
+          signer,
+          x402Version,
+          validPaymentRequirements,
+          config,
+        );
+
+        setStatus(t("requestingContent"));
+        return fetch(x402.currentUrl, {
+          headers: {
+            "X-PAYMENT": paymentHeader,
+            "Access-Control-Expose-Headers": "X-PAYMENT-RESPONSE",
+          },
+        });
+      };
+
+      const response = await fetchWithPayment(1);
+      if (response.ok) {
+        await handleSuccessfulResponse(response);
+      } else if (response.status === 402) {
+        // Try to parse error data, fallback to empty object if parsing fails
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData && typeof errorData.x402Version === "number") {
+          // Retry with server's x402Version
+          const retryResponse = await fetchWithPayment(errorData.x402Version);
+          if (retryResponse.ok) {
+            await handleSuccessfulResponse(retryResponse);
+            return;
+          } else {
+            throw new Error(t("paymentRetryFailed", { reason: retryResponse.statusText }));
+          }
+        } else {
+          throw new Error(
+            t("paymentFailedReason", { reason: errorData?.error || response.statusText }),
+          );
+        }
+      } else {
+        throw new Error(
+          t("requestFailed", { status: response.status, reason: response.statusText }),
+        );
+      }
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t("paymentFailed"));
+    } finally {
+      setIsPaying(false);
+    }
+  }, [wallet, account, x402, paymentOption, checkBalance]);
+
+  // without the decimals of the token, the balance is displayed in atomic units like the amount
+  const formattedBalance =
+    balance === null
+      ? ""
+      : decimals !== undefined
+        ? formatAtomicAmount(balance, decimals)
+        : balance.toString();
+
+  return (
+    <div className="container gap-8">
+      <div className="header">
+        <h1 className="title">{t("title")}</h1>
+        <p>
+          {paymentRequirements.description && `${paymentRequirements.description}.`}{" "}
+          {t("payAmount", { amount, network: chainName, token: tokenSymbol })}
+        </p>
+        {testnet && network === "solana-devnet" && (
+          <p className="instructions">
+            {t("faucetPrompt", { network: chainName, token: "USDC" })}{" "}
+            <a href="https://faucet.circle.com/" target="_blank" rel="noopener noreferrer">
+              <u>{t("faucetLink")}</u>
+            </a>
+          </p>
+        )}
+      </div>
+
+      <div className="content w-full">
+        {!account ? (
+          <div className="wallet-list">
+            {wallets.length === 0 && <p className="instructions">{t("installSolanaWallet")}</p>}
+            {wallets.map(solanaWallet => (
+              <button
+                key={solanaWallet.name}
+                className="button button-secondary wallet-button"
+                onClick={() => handleConnect(solanaWallet)}
+              >
+                <img className="wallet-icon" src={solanaWallet.icon} alt="" />
+                {t("connectNamedWallet", { wallet: solanaWallet.name })}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div id="payment-section">
+            <div className="payment-details">
+              <div className="payment-row">
+                <span className="payment-label">{t("walletLabel")}</span>
+                <span className="payment-value">
+                  {`${account.address.slice(0, 4)}...${account.address.slice(-4)}`}
+                </span>
+              </div>
+              <div className="payment-row">
+                <span className="payment-label">{t("balanceLabel")}</span>
+                <span className="payment-value">
+                  <button className="balance-button" onClick={() => setHideBalance(prev => !prev)}>
+                    {formattedBalance && !hideBalance
+                      ? `${formattedBalance} ${tokenSymbol}`
+                      : `••••• ${tokenSymbol}`}
+                  </button>
+                </span>
+              </div>
+              <div className="payment-row">
+                <span className="payment-label">{t("amountLabel")}</span>
+                <span className="payment-value">
+                  {amount} {tokenSymbol}
+                </span>
+              </div>
+              <div className="payment-row">
+                <span className="payment-label">{t("networkLabel")}</span>
+                <span className="payment-value">{chainName}</span>
+              </div>
+            </div>
+
+            <div className="cta-container">
+              <button className="button button-secondary" onClick={handleDisconnect}>
+                {t("disconnect")}
+              </button>
+              <button className="button button-primary" onClick={handlePayment} disabled={isPaying}>
+                {isPaying ? <Spinner /> : t("payNow")}
+              </button>
+            </div>
+          </div>
+        )}
+        {onBack && (
+          <button className="button button-secondary" onClick={onBack}>
+            {t("chooseAnotherOption")}
+          </button>
+        )}
+        {status && <div className="status">{status}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import type { PaywallMessages } from "../../types/shared/middleware.js";
+
+const en: PaywallMessages = {
+  title: "Payment Required",
+  cannotPayInBrowser: "This content cannot be paid for in the browser.",
+  chooseOption: "To access this content, please choose how to pay.",
+  chooseAnotherOption: "Choose another payment option",
+  payAmount: "To access this content, please pay {amount} {network} {token}.",
+  faucetPrompt: "Need {network} {token}?",
+  faucetLink: "Get some here.",
+  connectWallet: "Connect wallet",
+  connectNamedWallet: "Connect {wallet}",
+  installSolanaWallet: "Install a Solana wallet such as Phantom to pay.",
+  disconnect: "Disconnect",
+  loading: "Loading...",
+  walletLabel: "Wallet:",
+  balanceLabel: "Available balance:",
+  amountLabel: "Amount:",
+  networkLabel: "Network:",
+  getMoreUsdc: "Get more USDC",
+  payNow: "Pay now",
+  switchNetwork: "Switch to {network}",
+  wrongNetwork: "On the wrong network. Please switch to {network}.",
+  checkingBalance: "Checking {token} balance...",
+  insufficientBalance: "Insufficient balance. Make sure you have {token} on {network}",
+  creatingSignature: "Creating payment signature...",
+  waitingForSignature: "Waiting for the wallet to sign the payment...",
+  requestingContent: "Requesting content with payment...",
+  walletUnavailable: "Wallet client not available. Please reconnect your wallet.",
+  noAccount: "No account is connected in {wallet}",
+  connectFailed: "Failed to connect wallet",
+  switchFailed: "Failed to switch network",
+  paymentFailed: "Payment failed",
+  paymentFailedReason: "Payment failed: {reason}",
+  paymentRetryFailed: "Payment retry failed: {reason}",
+  requestFailed: "Request failed: {status} {reason}",
+};
+
+const zh: PaywallMessages = {
+  title: "需要付款",
+  cannotPayInBrowser: "此内容无法在浏览器中付款。",
+  chooseOption: "请选择付款方式以访问此内容。",
+  chooseAnotherOption: "选择其他付款方式",
+  payAmount: "请支付 {amount} {network} {token} 以访问此内容。",
+  faucetPrompt: "需要 {network} {token}？",
+  faucetLink: "点此领取。",
+  connectWallet: "连接钱包",
+  connectNamedWallet: "连接 {wallet}",
+  installSolanaWallet: "请安装 Phantom 等 Solana 钱包后付款。",
+  disconnect: "断开连接",
+  loading: "加载中...",
+  walletLabel: "钱包：",
+  balanceLabel: "可用余额：",
+  amountLabel: "金额：",
+  networkLabel: "网络：",
+  getMoreUsdc: "获取更多 USDC",
+  payNow: "立即支付",
+  switchNetwork: "切换到 {network}",
+  wrongNetwork: "网络错误，请切换到 {network}。",
+  checkingBalance: "正在检查 {token} 余额...",
+  insufficientBalance: "余额不足，请确认您在 {network} 上持有 {token}",
+  creatingSignature: "正在创建付款签名...",
+  waitingForSignature: "正在等待钱包签名付款...",
+  requestingContent: "正在使用付款请求内容...",
+  walletUnavailable: "钱包客户端不可用，请重新连接钱包。",
+  noAccount: "{wallet} 中没有已连接的账户",
+  connectFailed: "连接钱包失败",
+  switchFailed: "切换网络失败",
+  paymentFailed: "付款失败",
+  paymentFailedReason: "付款失败：{reason}",
+  paymentRetryFailed: "付款重试失败：{reason}",
+  requestFailed: "请求失败：{status} {reason}",
+};
+
+const catalogs: Record<string, PaywallMessages> = { en, zh };
+
+/**
+ * Gets the catalog of the locale of the paywall, matching "zh-CN" to "zh" and falling back to English
+ *
+ * @returns The messages of the locale
+ */
+function getCatalog(): PaywallMessages {
+  const locale = window.x402?.locale || "en";
+  return catalogs[locale] ?? catalogs[locale.split("-")[0]] ?? en;
+}
+
+/**
+ * Translates a paywall text to the locale of the paywall, preferring the messages of the server
+ *
+ * @param key - The key of the text
+ * @param params - The values of the `{name}` placeholders of the text
+ * @returns The translated text
+ */
+export function t(
+  key: keyof PaywallMessages,
+  params: Record<string, string | number> = {},
+): string {
+  const message = window.x402?.messages?.[key] ?? getCatalog()[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
@@ -0,0 +1,44 @@
+import type { PaywallTheme } from "../../types/shared/middleware.js";
+
+/**
+ * The CSS variables of styles.css that the theme colors set
+ */
+const ColorVariables: Record<keyof NonNullable<PaywallTheme["colors"]>, string> = {
+  background: "--background-color",
+  container: "--container-background-color",
+  text: "--text-color",
+  secondaryText: "--secondary-text-color",
+  details: "--details-background-color",
+  detailsHover: "--details-background-color-hover",
+  primary: "--button-primary-color",
+  primaryHover: "--button-primary-hover-color",
+  secondary: "--button-secondary-color",
+  secondaryHover: "--button-secondary-hover-color",
+  positive: "--button-positive-color",
+  positiveHover: "--button-positive-hover-color",
+  error: "--button-error-color",
+  errorHover: "--button-error-hover-color",
+};
+
+/**
+ * Applies the theme of the server to the CSS variables of the page. The browser ignores values
+ * that are not valid CSS, so a theme cannot inject other styles.
+ *
+ * @param theme - The theme of the paywall config
+ */
+export function applyTheme(theme: PaywallTheme = {}): void {
+  const { style } = document.documentElement;
+
+  for (const [name, value] of Object.entries(theme.colors ?? {})) {
+    const variable = ColorVariables[name as keyof typeof ColorVariables];
+    if (variable && value) {
+      style.setProperty(variable, value);
+    }
+  }
+  if (theme.fontFamily) {
+    style.setProperty("--font-family", theme.fontFamily);
+  }
+  if (theme.borderRadius) {
+    style.setProperty("--border-radius", theme.borderRadius);
+  }
+}
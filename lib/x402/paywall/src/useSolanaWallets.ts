@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import type {
+  WalletStandardAccount,
+  WalletStandardWallet,
+} from "../../shared/svm/walletStandard.js";
+
+/**
+ * A Wallet Standard wallet that can connect and sign Solana transactions
+ */
+export type SolanaWallet = WalletStandardWallet & {
+  name: string;
+  icon: string;
+  accounts: readonly WalletStandardAccount[];
+  features: {
+    "standard:connect"?: {
+      connect(input?: { silent?: boolean }): Promise<{
+        accounts: readonly WalletStandardAccount[];
+      }>;
+    };
+    "standard:disconnect"?: {
+      disconnect(): Promise<void>;
+    };
+  };
+};
+
+type WalletsApi = {
+  register(...wallets: SolanaWallet[]): () => void;
+};
+
+/**
+ * Checks if a registered wallet can connect and sign Solana transactions
+ *
+ * @param wallet - The registered wallet
+ * @returns True if the paywall can pay with the wallet, false otherwise
+ */
+function isSolanaWallet(wallet: SolanaWallet): boolean {
+  return Boolean(wallet.features["standard:connect"] && wallet.features["solana:signTransaction"]);
+}
+
+/**
+ * Custom hook to discover the installed Solana wallets through the Wallet Standard events
+ *
+ * @returns The wallets that can connect and sign Solana transactions
+ */
+export function useSolanaWallets(): SolanaWallet[] {
+  const [wallets, setWallets] = useState<SolanaWallet[]>([]);
+
+  useEffect(() => {
+    const api: WalletsApi = {
+      register(...registered) {
+        const solanaWallets = registered.filter(isSolanaWallet);
+        setWallets(prev => [...prev, ...solanaWallets.filter(wallet => !prev.includes(wallet))]);
+        return () => setWallets(prev => prev.filter(wallet => !registered.includes(wallet)));
+      },
+    };
+
+    // wallets that load after the paywall register themselves with this event
+    const onRegisterWallet = (event: Event) => {
+      try {
+        (event as CustomEvent<(api: WalletsApi) => void>).detail(api);
+      } catch (error) {
+        console.error("Failed to register wallet:", error);
+      }
+    };
+    window.addEventListener("wallet-standard:register-wallet", onRegisterWallet);
+    // wallets that loaded before the paywall register themselves when the app is ready
+    window.dispatchEvent(new CustomEvent("wallet-standard:app-ready", { detail: api }));
+
+    return () => window.removeEventListener("wallet-standard:register-wallet", onRegisterWallet);
+  }, []);
+
+  return wallets;
+}
@@ -1,4 +1,5 @@
 import type { PaymentRequirements } from "../../types/index.js";
+import type { PaywallPaymentOption } from "../../shared/paywall.js";
 
 /**
  * Safely clones an object without prototype pollution
@@ -33,31 +34,40 @@ function safeClone<T>(obj: T): T {
 }
 
 /**
- * Ensures a valid amount is set in payment requirements
+ * Ensures the payment requirements of a payment option have a valid amount. The paywall signs
+ * exactly the `maxAmountRequired` of the server, the displayed amount is never signed.
  *
- * @param paymentRequirements - The payment requirements to validate and update
- * @returns Updated payment requirements with valid amount
+ * @param paymentOption - The payment option to validate the requirements of
+ * @returns A safe clone of the payment requirements
+ * @throws Error if `maxAmountRequired` is not a positive amount in atomic units
  */
-export function ensureValidAmount(paymentRequirements: PaymentRequirements): PaymentRequirements {
-  const updatedRequirements = safeClone(paymentRequirements);
-
-  if (window.x402?.amount) {
-    try {
-      const amountInBaseUnits = Math.round(window.x402.amount * 1_000_000);
-      updatedRequirements.maxAmountRequired = amountInBaseUnits.toString();
-    } catch (error) {
-      console.error("Failed to parse amount:", error);
-    }
-  }
+export function ensureValidAmount(paymentOption: PaywallPaymentOption): PaymentRequirements {
+  const requirements = safeClone(paymentOption.paymentRequirements);
 
   if (
-    !updatedRequirements.maxAmountRequired ||
-    !/^\d+$/.test(updatedRequirements.maxAmountRequired)
+    !/^\d+$/.test(requirements.maxAmountRequired) ||
+    BigInt(requirements.maxAmountRequired) === 0n
   ) {
-    updatedRequirements.maxAmountRequired = "10000";
+    throw new Error(`Invalid maxAmountRequired: ${requirements.maxAmountRequired}`);
   }
 
-  return updatedRequirements;
+  return requirements;
+}
+
+/**
+ * Shows the paid content of a successful response in place of the paywall
+ *
+ * @param response - The successful response of the request with payment
+ */
+export async function handleSuccessfulResponse(response: Response): Promise<void> {
+  const contentType = response.headers.get("content-type");
+  if (contentType && contentType.includes("text/html")) {
+    document.documentElement.innerHTML = await response.text();
+  } else {
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    window.location.href = url;
+  }
 }
 
 /**
@@ -1,16 +1,21 @@
-import { PaymentRequirements } from "../../types/verify/index.js";
+import type { PaywallPaymentOption } from "../../shared/paywall.js";
+import type { PaywallMessages, PaywallTheme } from "../../types/shared/middleware.js";
 
 declare global {
   interface Window {
     x402: {
-      amount?: number;
-      testnet?: boolean;
-      paymentRequirements: PaymentRequirements | PaymentRequirements[];
+      paymentOptions: PaywallPaymentOption[];
       currentUrl: string;
       cdpClientKey?: string;
       appName?: string;
       appLogo?: string;
       sessionTokenEndpoint?: string;
+      svmRpcUrl?: string;
+      theme?: PaywallTheme;
+      locale?: string;
+      messages?: Partial<PaywallMessages>;
+      header?: string;
+      footer?: string;
       config: {
         chainConfig: Record<
           string,
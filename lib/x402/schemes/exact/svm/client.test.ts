@@ -258,6 +258,48 @@ describe("SVM Client", () => {
         "Asset was not created by a known token program",
       );
     });
+
+    it("should prefix the transaction with an advance nonce instruction when a durable nonce is configured", async () => {
+      // Arrange
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      vi.spyOn(rpc, "fetchDurableNonce").mockResolvedValue({
+        nonce: "mockNonce" as solanaKit.Nonce,
+        authority: clientSigner.address,
+      });
+      const signSpy = vi.spyOn(solanaKit, "partiallySignTransactionMessageWithSigners");
+
+      // Act
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, {
+        svmConfig: { durableNonce: { nonceAccountAddress } },
+      });
+
+      // Assert
+      expect(rpc.fetchDurableNonce).toHaveBeenCalledWith(mockRpcClient, nonceAccountAddress);
+      expect(mockRpcClient.getLatestBlockhash).not.toHaveBeenCalled();
+      const transactionMessage = signSpy.mock.calls[0][0] as any;
+      expect(solanaKit.isAdvanceNonceAccountInstruction(transactionMessage.instructions[0])).toBe(
+        true,
+      );
+      expect(transactionMessage.instructions[0].accounts[0].address).toBe(nonceAccountAddress);
+      expect(transactionMessage.instructions[1]).toEqual({ instruction: "mock" }); // compute limit
+      expect(transactionMessage.lifetimeConstraint).toEqual({ nonce: "mockNonce" });
+    });
+
+    it("should throw an error if the client is not the nonce authority", async () => {
+      // Arrange
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      vi.spyOn(rpc, "fetchDurableNonce").mockResolvedValue({
+        nonce: "mockNonce" as solanaKit.Nonce,
+        authority: (await generateKeyPairSigner()).address,
+      });
+
+      // Act & Assert
+      await expect(
+        createAndSignPayment(clientSigner, 1, paymentRequirements, {
+          svmConfig: { durableNonce: { nonceAccountAddress } },
+        }),
+      ).rejects.toThrow(`is not the authority of nonce account ${nonceAccountAddress}`);
+    });
   });
 
   describe("createPaymentHeader", () => {
@@ -351,7 +393,25 @@ describe("SVM Client", () => {
       await createAndSignPayment(clientSigner, 1, paymentRequirements);
 
       // Assert
-      expect(computePriceSpy).toHaveBeenCalledWith(1, expect.any(Object));
+      expect(computePriceSpy).toHaveBeenCalledWith(1n, expect.any(Object));
+    });
+
+    it("should clamp the price of the priority fee strategy to the facilitator maximum", async () => {
+      // Arrange
+      const computePriceSpy = vi.spyOn(computeBudget, "setTransactionMessageComputeUnitPrice");
+      const requirements = {
+        ...paymentRequirements,
+        extra: { ...paymentRequirements.extra, maxComputeUnitPrice: "2000000" },
+      };
+      const config = {
+        svmConfig: { priorityFee: { type: "fixed" as const, microLamports: 10_000_000 } },
+      };
+
+      // Act
+      await createAndSignPayment(clientSigner, 1, requirements, config);
+
+      // Assert
+      expect(computePriceSpy).toHaveBeenCalledWith(2_000_000n, expect.any(Object));
     });
   });
 
@@ -5,11 +5,11 @@ import {
   createTransactionMessage,
   setTransactionMessageFeePayer,
   setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
   appendTransactionMessageInstructions,
   partiallySignTransactionMessageWithSigners,
   prependTransactionMessageInstruction,
   getBase64EncodedWireTransaction,
-  type KeyPairSigner,
   fetchEncodedAccount,
   TransactionSigner,
   Instruction,
@@ -29,7 +29,9 @@ import {
   getSetComputeUnitLimitInstruction,
   setTransactionMessageComputeUnitPrice,
 } from "@solana-program/compute-budget";
-import { getRpcClient } from "../../../shared/svm/rpc.js";
+import { fetchDurableNonce, getRpcClient } from "../../../shared/svm/rpc.js";
+import { getComputeUnitPrice } from "../../../shared/svm/priorityFee.js";
+import type { SvmSigner } from "../../../shared/svm/wallet.js";
 
 /**
  * Creates and encodes a payment header for the given client and payment requirements.
@@ -41,7 +43,7 @@ import { getRpcClient } from "../../../shared/svm/rpc.js";
  * @returns A promise that resolves to a base64 encoded payment header string
  */
 export async function createPaymentHeader(
-  client: KeyPairSigner,
+  client: SvmSigner,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
@@ -65,7 +67,7 @@ export async function createPaymentHeader(
  * @returns A promise that resolves to a payment payload containing a base64 encoded solana token transfer tx
  */
 export async function createAndSignPayment(
-  client: KeyPairSigner,
+  client: SvmSigner,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
@@ -91,14 +93,16 @@ export async function createAndSignPayment(
 
 /**
  * Creates a transfer transaction message for the given client and payment requirements.
+ * If a durable nonce is configured, the transaction message is prefixed with an
+ * AdvanceNonceAccount instruction and uses the nonce as its lifetime instead of a recent blockhash.
  *
  * @param client - The signer instance used to create the transfer transaction message
  * @param paymentRequirements - The payment requirements
- * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs, durable nonce, priority fee)
  * @returns A promise that resolves to the transaction message with the transfer instruction
  */
 async function createTransferTransactionMessage(
-  client: KeyPairSigner,
+  client: SvmSigner,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
 ) {
@@ -111,15 +115,53 @@ async function createTransferTransactionMessage(
     config,
   );
 
+  // price the compute units, without exceeding the maximum price of the facilitator
+  const computeUnitPrice = await getComputeUnitPrice(
+    paymentRequirements,
+    rpc,
+    config?.svmConfig?.priorityFee,
+  );
+
   // create tx to simulate
   const feePayer = paymentRequirements.extra?.feePayer as Address;
   const txToSimulate = pipe(
     createTransactionMessage({ version: 0 }),
-    tx => setTransactionMessageComputeUnitPrice(1, tx), // 1 microlamport priority fee
+    tx => setTransactionMessageComputeUnitPrice(computeUnitPrice, tx),
     tx => setTransactionMessageFeePayer(feePayer, tx),
     tx => appendTransactionMessageInstructions(transferInstructions, tx),
   );
 
+  const durableNonce = config?.svmConfig?.durableNonce;
+  if (durableNonce) {
+    // fetch the current nonce, the client must be able to sign for the nonce account
+    const nonceAccountAddress = durableNonce.nonceAccountAddress as Address;
+    const { nonce, authority } = await fetchDurableNonce(rpc, nonceAccountAddress);
+    if (authority !== client.address) {
+      throw new Error(
+        `The client ${client.address} is not the authority of nonce account ${nonceAccountAddress}`,
+      );
+    }
+    const nonceConfig = { nonce, nonceAccountAddress, nonceAuthorityAddress: client.address };
+
+    // estimate the compute budget limit (gas limit), including the advance nonce instruction
+    const estimateComputeUnitLimit = estimateComputeUnitLimitFactory({ rpc });
+    const estimatedUnits = await estimateComputeUnitLimit(
+      setTransactionMessageLifetimeUsingDurableNonce(nonceConfig, txToSimulate),
+    );
+
+    // finalize the transaction message by adding the compute budget limit and the nonce lifetime,
+    // which prepends the advance nonce instruction so that it is the first instruction
+    return pipe(
+      txToSimulate,
+      tx =>
+        prependTransactionMessageInstruction(
+          getSetComputeUnitLimitInstruction({ units: estimatedUnits }),
+          tx,
+        ),
+      tx => setTransactionMessageLifetimeUsingDurableNonce(nonceConfig, tx),
+    );
+  }
+
   // estimate the compute budget limit (gas limit)
   const estimateComputeUnitLimit = estimateComputeUnitLimitFactory({ rpc });
   const estimatedUnits = await estimateComputeUnitLimit(txToSimulate);
@@ -150,7 +192,7 @@ async function createTransferTransactionMessage(
  * @returns A promise that resolves to the create ATA (if needed) and transfer instruction
  */
 async function createAtaAndTransferInstructions(
-  client: KeyPairSigner,
+  client: SvmSigner,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
 ): Promise<Instruction[]> {
@@ -260,7 +302,7 @@ async function createAtaInstructionOrUndefined(
  * @returns A promise that resolves to the transfer instruction
  */
 async function createTransferInstruction(
-  client: KeyPairSigner,
+  client: SvmSigner,
   paymentRequirements: PaymentRequirements,
   decimals: number,
   tokenProgramAddress: Address,
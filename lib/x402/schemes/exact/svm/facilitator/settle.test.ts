@@ -1,11 +1,16 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
 import { type KeyPairSigner, generateKeyPairSigner } from "@solana/kit";
 import * as solanaKit from "@solana/kit";
 import * as transactionConfirmation from "@solana/transaction-confirmation";
 import { PaymentPayload, PaymentRequirements, ExactSvmPayload } from "../../../../types/verify";
-import { decodeTransactionFromPayload, getTokenPayerFromTransaction } from "../../../../shared/svm";
-import { getRpcClient, getRpcSubscriptions } from "../../../../shared/svm/rpc";
+import {
+  decodeTransactionFromPayload,
+  getFeePayerSignature,
+  getTokenPayerFromTransaction,
+} from "../../../../shared/svm";
+import { createInMemoryPaymentStore } from "../../../../shared/svm/paymentStore";
+import { fetchDurableNonce, getRpcClient, getRpcSubscriptions } from "../../../../shared/svm/rpc";
 import { verify } from "./verify";
 import * as settleModule from "./settle";
 
@@ -37,6 +42,8 @@ vi.mock("@solana/transaction-confirmation", async importOriginal => {
   return {
     ...actual,
     createBlockHeightExceedencePromiseFactory: vi.fn().mockReturnValue(vi.fn()),
+    createNonceInvalidationPromiseFactory: vi.fn().mockReturnValue(vi.fn()),
+    waitForDurableNonceTransactionConfirmation: vi.fn(),
     waitForRecentTransactionConfirmation: vi.fn(),
     createRecentSignatureConfirmationPromiseFactory: vi.fn().mockReturnValue(vi.fn()),
   };
@@ -419,6 +426,219 @@ describe("SVM Settle", () => {
     });
   });
 
+  describe("Durable nonce transactions", () => {
+    let nonceAccountAddress: solanaKit.Address;
+    let mockDecompiledMessage: any;
+
+    beforeAll(async () => {
+      nonceAccountAddress = (await generateKeyPairSigner()).address;
+      mockDecompiledMessage = solanaKit.setTransactionMessageLifetimeUsingDurableNonce(
+        {
+          nonce: "mock_nonce" as solanaKit.Nonce,
+          nonceAccountAddress,
+          nonceAuthorityAddress: (await generateKeyPairSigner()).address,
+        },
+        solanaKit.createTransactionMessage({ version: 0 }),
+      );
+    });
+
+    /**
+     * Mocks the decompiled transaction message with a durable nonce lifetime.
+     */
+    function mockDurableNonceTransaction() {
+      vi.mocked(solanaKit.getCompiledTransactionMessageDecoder).mockReturnValue({
+        decode: vi.fn().mockReturnValue({}),
+        read: vi.fn(),
+      } as any);
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue(
+        mockDecompiledMessage,
+      );
+    }
+
+    it("should confirm a durable nonce transaction by watching the nonce account", async () => {
+      // Arrange
+      mockDurableNonceTransaction();
+      vi.mocked(
+        transactionConfirmation.waitForDurableNonceTransactionConfirmation,
+      ).mockResolvedValue(undefined);
+
+      // Act
+      const result = await settleModule.confirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+      );
+
+      // Assert
+      expect(solanaKit.assertIsTransactionMessageWithBlockhashLifetime).not.toHaveBeenCalled();
+      expect(transactionConfirmation.waitForRecentTransactionConfirmation).not.toHaveBeenCalled();
+      expect(
+        transactionConfirmation.waitForDurableNonceTransactionConfirmation,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transaction: expect.objectContaining({
+            lifetimeConstraint: { nonce: "mock_nonce", nonceAccountAddress },
+          }),
+        }),
+      );
+      expect(result).toEqual({
+        success: true,
+        signature: "mock_signature_123",
+      });
+    });
+
+    it("should handle nonce invalidated errors", async () => {
+      // Arrange
+      mockDurableNonceTransaction();
+      vi.mocked(
+        transactionConfirmation.waitForDurableNonceTransactionConfirmation,
+      ).mockRejectedValue(new Error("Invalid nonce"));
+      vi.mocked(solanaKit.isSolanaError).mockImplementation(
+        (_error, code) => code === solanaKit.SOLANA_ERROR__INVALID_NONCE,
+      );
+
+      // Act
+      const result = await settleModule.confirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+      );
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        errorReason: "settle_exact_svm_durable_nonce_invalidated",
+        signature: "mock_signature_123",
+      });
+    });
+
+    it("should confirm a durable nonce transaction with polling", async () => {
+      // Arrange
+      mockDurableNonceTransaction();
+      vi.mocked(fetchDurableNonce).mockResolvedValue({
+        nonce: "advanced_nonce" as solanaKit.Nonce,
+        authority: nonceAccountAddress,
+      });
+      const rpcClient = {
+        getSignatureStatuses: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue({
+            value: [{ err: null, confirmationStatus: "confirmed" }],
+          }),
+        }),
+        getBlockHeight: vi.fn(),
+      };
+
+      // Act
+      const result = await settleModule.confirmSignedTransactionWithPolling(
+        mockSignedTransaction,
+        rpcClient as any,
+      );
+
+      // Assert
+      expect(fetchDurableNonce).toHaveBeenCalledWith(rpcClient, nonceAccountAddress);
+      expect(rpcClient.getBlockHeight).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        success: true,
+        signature: "mock_signature_123",
+      });
+    });
+
+    it("should return nonce invalidated when polling finds an advanced nonce and no transaction", async () => {
+      // Arrange
+      mockDurableNonceTransaction();
+      vi.mocked(fetchDurableNonce).mockResolvedValue({
+        nonce: "advanced_nonce" as solanaKit.Nonce,
+        authority: nonceAccountAddress,
+      });
+      const rpcClient = {
+        getSignatureStatuses: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue({ value: [null] }),
+        }),
+      };
+
+      // Act
+      const result = await settleModule.confirmSignedTransactionWithPolling(
+        mockSignedTransaction,
+        rpcClient as any,
+      );
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        errorReason: "settle_exact_svm_durable_nonce_invalidated",
+        signature: "mock_signature_123",
+      });
+    });
+  });
+
+  describe("confirmSignedTransactionWithPolling", () => {
+    beforeEach(() => {
+      vi.mocked(solanaKit.getCompiledTransactionMessageDecoder).mockReturnValue({
+        decode: vi.fn().mockReturnValue({}),
+        read: vi.fn(),
+      } as any);
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue({
+        lifetimeConstraint: {
+          blockhash: "mock_blockhash" as any,
+          lastValidBlockHeight: BigInt(1234),
+        },
+        instructions: [],
+        version: 0,
+      } as any);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should back off and retry when the RPC fails", async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.mocked(solanaKit.isSolanaError).mockReturnValue(true);
+      const rpcClient = {
+        getBlockHeight: vi.fn().mockReturnValue({ send: vi.fn().mockResolvedValue(BigInt(1)) }),
+        getSignatureStatuses: vi
+          .fn()
+          .mockReturnValueOnce({ send: vi.fn().mockRejectedValue(new Error("HTTP error 429")) })
+          .mockReturnValue({
+            send: vi.fn().mockResolvedValue({
+              value: [{ err: null, confirmationStatus: "confirmed" }],
+            }),
+          }),
+      };
+
+      // Act
+      const result = settleModule.confirmSignedTransactionWithPolling(
+        mockSignedTransaction,
+        rpcClient as any,
+      );
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(rpcClient.getSignatureStatuses).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      // Assert
+      expect(await result).toEqual({ success: true, signature: "mock_signature_123" });
+      expect(rpcClient.getSignatureStatuses).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw unexpected errors instead of polling again", async () => {
+      // Arrange
+      vi.mocked(solanaKit.isSolanaError).mockReturnValue(false);
+      const rpcClient = {
+        getBlockHeight: vi.fn().mockReturnValue({ send: vi.fn().mockResolvedValue(BigInt(1)) }),
+        getSignatureStatuses: vi.fn().mockImplementation(() => {
+          throw new TypeError("Unexpected error");
+        }),
+      };
+
+      // Act & Assert
+      await expect(
+        settleModule.confirmSignedTransactionWithPolling(mockSignedTransaction, rpcClient as any),
+      ).rejects.toThrow("Unexpected error");
+      expect(rpcClient.getSignatureStatuses).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("Custom RPC Configuration", () => {
     it("should use custom RPC URL from config for both client and subscriptions", async () => {
       // Arrange
@@ -536,6 +756,97 @@ describe("SVM Settle", () => {
     });
   });
 
+  describe("Payment Store", () => {
+    /**
+     * Sets up the mocks for a settlement that verifies, sends and confirms successfully.
+     */
+    function mockSuccessfulSettlement() {
+      vi.mocked(verify).mockResolvedValue({ isValid: true, invalidReason: undefined });
+      vi.mocked(decodeTransactionFromPayload).mockReturnValue(mockSignedTransaction);
+      vi.mocked(getFeePayerSignature).mockResolvedValue("mock_signature_123");
+      vi.mocked(getTokenPayerFromTransaction).mockReturnValue(payerAddress);
+      vi.mocked(getRpcClient).mockReturnValue(mockRpcClient);
+      vi.mocked(getRpcSubscriptions).mockReturnValue(mockRpcSubscriptions);
+      vi.mocked(mockRpcClient.sendTransaction).mockReturnValue({
+        send: vi.fn().mockResolvedValue("mock_signature_123"),
+      });
+      vi.mocked(solanaKit.getCompiledTransactionMessageDecoder).mockReturnValue({
+        decode: vi.fn().mockReturnValue({}),
+        read: vi.fn(),
+      } as any);
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue({
+        lifetimeConstraint: {
+          blockhash: "mock_blockhash" as any,
+          lastValidBlockHeight: BigInt(1234),
+        },
+        instructions: [],
+        version: 0,
+      } as any);
+      vi.mocked(transactionConfirmation.waitForRecentTransactionConfirmation).mockResolvedValue(
+        undefined,
+      );
+    }
+
+    it("should return the original settle response for a duplicate settle", async () => {
+      // Arrange
+      mockSuccessfulSettlement();
+      const config = { svmConfig: { paymentStore: createInMemoryPaymentStore() } };
+
+      // Act
+      const first = await settleModule.settle(signer, paymentPayload, paymentRequirements, config);
+      const second = await settleModule.settle(signer, paymentPayload, paymentRequirements, config);
+
+      // Assert
+      expect(first.success).toBe(true);
+      expect(second).toEqual(first);
+      expect(verify).toHaveBeenCalledOnce();
+      expect(mockRpcClient.sendTransaction).toHaveBeenCalledOnce();
+    });
+
+    it("should allow a failed settlement to be retried", async () => {
+      // Arrange
+      mockSuccessfulSettlement();
+      vi.mocked(verify).mockResolvedValueOnce({
+        isValid: false,
+        invalidReason: "invalid_exact_svm_payload_transaction_simulation_failed",
+      });
+      const paymentStore = createInMemoryPaymentStore();
+      const config = { svmConfig: { paymentStore } };
+
+      // Act
+      const first = await settleModule.settle(signer, paymentPayload, paymentRequirements, config);
+      const second = await settleModule.settle(signer, paymentPayload, paymentRequirements, config);
+
+      // Assert
+      expect(first.success).toBe(false);
+      expect(second.success).toBe(true);
+      expect(await paymentStore.get("mock_signature_123")).toMatchObject({
+        status: "settled",
+        settleResponse: second,
+      });
+    });
+
+    it("should return invalid_exact_svm_payload_transaction if the transaction cannot be decoded", async () => {
+      // Arrange
+      vi.mocked(decodeTransactionFromPayload).mockImplementation(() => {
+        throw new Error("invalid_exact_svm_payload_transaction");
+      });
+      const config = { svmConfig: { paymentStore: createInMemoryPaymentStore() } };
+
+      // Act
+      const result = await settleModule.settle(signer, paymentPayload, paymentRequirements, config);
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        errorReason: "invalid_exact_svm_payload_transaction",
+        network: "solana-devnet",
+        transaction: "",
+      });
+      expect(verify).not.toHaveBeenCalled();
+    });
+  });
+
   describe("sendAndConfirmSignedTransaction", () => {
     it("should successfully send and confirm a transaction", async () => {
       // Arrange
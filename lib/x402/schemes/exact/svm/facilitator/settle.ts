@@ -7,6 +7,7 @@ import {
 } from "../../../../types/verify/index.js";
 import { X402Config } from "../../../../types/config.js";
 import {
+  Address,
   assertIsTransactionMessageWithBlockhashLifetime,
   Commitment,
   decompileTransactionMessageFetchingLookupTables,
@@ -14,19 +15,33 @@ import {
   getCompiledTransactionMessageDecoder,
   getSignatureFromTransaction,
   isSolanaError,
+  isTransactionMessageWithDurableNonceLifetime,
   KeyPairSigner,
   SendTransactionApi,
   signTransaction,
   SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED,
+  SOLANA_ERROR__INVALID_NONCE,
   SolanaRpcApiDevnet,
+  TransactionMessageWithDurableNonceLifetime,
   SolanaRpcApiMainnet,
   RpcDevnet,
   RpcMainnet,
 } from "@solana/kit";
-import { decodeTransactionFromPayload, getTokenPayerFromTransaction } from "../../../../shared/svm/index.js";
-import { getRpcClient, getRpcSubscriptions } from "../../../../shared/svm/rpc.js";
+import {
+  decodeTransactionFromPayload,
+  getFeePayerSignature,
+  getTokenPayerFromTransaction,
+} from "../../../../shared/svm/index.js";
+import { settleWithPaymentStore } from "../../../../shared/svm/paymentStore.js";
+import {
+  fetchDurableNonce,
+  getRpcClient,
+  getRpcSubscriptions,
+} from "../../../../shared/svm/rpc.js";
 import {
   createBlockHeightExceedencePromiseFactory,
+  createNonceInvalidationPromiseFactory,
+  waitForDurableNonceTransactionConfirmation,
   waitForRecentTransactionConfirmation,
   createRecentSignatureConfirmationPromiseFactory,
 } from "@solana/transaction-confirmation";
@@ -34,7 +49,8 @@ import { verify } from "./verify.js";
 
 /**
  * Settle the payment payload against the payment requirements.
- * TODO: handle durable nonce lifetime transactions
+ * If a payment store is configured, settlement is idempotent: settling a transaction
+ * that was already settled returns the original settle response instead of resubmitting it.
  *
  * @param signer - The signer that will sign the transaction
  * @param payload - The payment payload to settle
@@ -47,6 +63,48 @@ export async function settle(
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+): Promise<SettleResponse> {
+  const paymentStore = config?.svmConfig?.paymentStore;
+  if (!paymentStore) {
+    return await settleTransaction(signer, payload, paymentRequirements, config);
+  }
+
+  let signature: string;
+  try {
+    const decodedTransaction = decodeTransactionFromPayload(payload.payload as ExactSvmPayload);
+    signature = await getFeePayerSignature(signer, decodedTransaction);
+  } catch {
+    return {
+      success: false,
+      errorReason: "invalid_exact_svm_payload_transaction",
+      network: payload.network,
+      transaction: "",
+    };
+  }
+
+  return await settleWithPaymentStore(
+    paymentStore,
+    signature,
+    payload.network,
+    "settle_exact_svm_transaction_confirmation_timed_out",
+    () => settleTransaction(signer, payload, paymentRequirements, config),
+  );
+}
+
+/**
+ * Verify, sign, send and confirm the payment transaction.
+ *
+ * @param signer - The signer that will sign the transaction
+ * @param payload - The payment payload to settle
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse indicating if the payment is settled and any error reason
+ */
+export async function settleTransaction(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
 ): Promise<SettleResponse> {
   const verifyResponse = await verify(signer, payload, paymentRequirements, config);
   if (!verifyResponse.isValid) {
@@ -141,7 +199,7 @@ export async function confirmSignedTransaction(
   }, 60000);
 
   try {
-    // decompile the transaction message to get the blockhash lifetime
+    // decompile the transaction message to get the transaction lifetime
     const compiledTransactionMessage = getCompiledTransactionMessageDecoder().decode(
       signedTransaction.messageBytes,
     );
@@ -149,13 +207,6 @@ export async function confirmSignedTransaction(
       compiledTransactionMessage,
       rpc,
     );
-    assertIsTransactionMessageWithBlockhashLifetime(decompiledTransactionMessage);
-
-    // add the blockhash lifetime to the signed transaction
-    const signedTransactionWithBlockhashLifetime = {
-      ...signedTransaction,
-      lifetimeConstraint: decompiledTransactionMessage.lifetimeConstraint,
-    };
 
     // create the config for the transaction confirmation
     const commitment: Commitment = "confirmed";
@@ -165,6 +216,42 @@ export async function confirmSignedTransaction(
       rpcSubscriptions,
     } as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
 
+    // durable nonce transactions are confirmed by watching the nonce account instead of block height
+    if (isTransactionMessageWithDurableNonceLifetime(decompiledTransactionMessage)) {
+      const getNonceInvalidationPromise = createNonceInvalidationPromiseFactory({
+        rpc,
+        rpcSubscriptions,
+      } as Parameters<typeof createNonceInvalidationPromiseFactory>[0]);
+
+      // wait for the transaction to be confirmed or for the nonce to be advanced by another transaction
+      await waitForDurableNonceTransactionConfirmation({
+        abortSignal: abortController.signal,
+        commitment,
+        getNonceInvalidationPromise,
+        getRecentSignatureConfirmationPromise,
+        transaction: {
+          ...signedTransaction,
+          lifetimeConstraint: {
+            nonce: decompiledTransactionMessage.lifetimeConstraint.nonce,
+            nonceAccountAddress: getNonceAccountAddress(decompiledTransactionMessage),
+          },
+        },
+      });
+
+      return {
+        success: true,
+        signature,
+      };
+    }
+
+    assertIsTransactionMessageWithBlockhashLifetime(decompiledTransactionMessage);
+
+    // add the blockhash lifetime to the signed transaction
+    const signedTransactionWithBlockhashLifetime = {
+      ...signedTransaction,
+      lifetimeConstraint: decompiledTransactionMessage.lifetimeConstraint,
+    };
+
     const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
       rpc,
       rpcSubscriptions,
@@ -199,6 +286,14 @@ export async function confirmSignedTransaction(
         signature,
       };
     }
+    // durable nonce advanced by another transaction error
+    else if (isSolanaError(error, SOLANA_ERROR__INVALID_NONCE)) {
+      return {
+        success: false,
+        errorReason: "settle_exact_svm_durable_nonce_invalidated",
+        signature,
+      };
+    }
     // transaction confirmation timed out error
     else if (error instanceof DOMException && error.name === "AbortError") {
       return {
@@ -230,7 +325,7 @@ export async function confirmSignedTransactionWithPolling(
 ): Promise<{ success: boolean; errorReason?: (typeof ErrorReasons)[number]; signature: string }> {
   const signature = getSignatureFromTransaction(signedTransaction);
 
-  // Get the transaction's blockhash lifetime
+  // Get the transaction's lifetime
   const compiledTransactionMessage = getCompiledTransactionMessageDecoder().decode(
     signedTransaction.messageBytes,
   );
@@ -238,28 +333,38 @@ export async function confirmSignedTransactionWithPolling(
     compiledTransactionMessage,
     rpc,
   );
-  assertIsTransactionMessageWithBlockhashLifetime(decompiledTransactionMessage);
 
-  const lastValidBlockHeight = decompiledTransactionMessage.lifetimeConstraint.lastValidBlockHeight;
+  // Durable nonce transactions expire when the nonce account is advanced,
+  // other transactions expire when the block height exceeds their last valid block height
+  let isLifetimeExpired: () => Promise<boolean>;
+  let lifetimeExpiredErrorReason: (typeof ErrorReasons)[number];
+  if (isTransactionMessageWithDurableNonceLifetime(decompiledTransactionMessage)) {
+    const { nonce } = decompiledTransactionMessage.lifetimeConstraint;
+    const nonceAccountAddress = getNonceAccountAddress(decompiledTransactionMessage);
+    isLifetimeExpired = async () =>
+      (await fetchDurableNonce(rpc, nonceAccountAddress)).nonce !== nonce;
+    lifetimeExpiredErrorReason = "settle_exact_svm_durable_nonce_invalidated";
+  } else {
+    assertIsTransactionMessageWithBlockhashLifetime(decompiledTransactionMessage);
+    const lastValidBlockHeight =
+      decompiledTransactionMessage.lifetimeConstraint.lastValidBlockHeight;
+    isLifetimeExpired = async () =>
+      (await rpc.getBlockHeight({ commitment: "confirmed" }).send()) > lastValidBlockHeight;
+    lifetimeExpiredErrorReason = "settle_exact_svm_block_height_exceeded";
+  }
 
   // Polling configuration
   const pollInterval = 1000; // 1 second
+  const maxRetryInterval = 8000; // 8 seconds
   const timeout = 60000; // 60 seconds
   const startTime = Date.now();
+  let failedPolls = 0;
 
   while (Date.now() - startTime < timeout) {
     try {
-      // Check current block height
-      const currentBlockHeight = await rpc.getBlockHeight({ commitment: "confirmed" }).send();
-
-      // Check if block height exceeded
-      if (currentBlockHeight > lastValidBlockHeight) {
-        return {
-          success: false,
-          errorReason: "settle_exact_svm_block_height_exceeded",
-          signature,
-        };
-      }
+      // Check the transaction lifetime before its status, as a durable nonce transaction
+      // advances its own nonce once it lands
+      const lifetimeExpired = await isLifetimeExpired();
 
       // Check transaction status
       const statusResponse = await rpc
@@ -292,11 +397,30 @@ export async function confirmSignedTransactionWithPolling(
         }
       }
 
+      // Check if the transaction can no longer land
+      if (lifetimeExpired) {
+        return {
+          success: false,
+          errorReason: lifetimeExpiredErrorReason,
+          signature,
+        };
+      }
+
       // Wait before next poll
+      failedPolls = 0;
       await new Promise((resolve) => setTimeout(resolve, pollInterval));
     } catch (error) {
+      // only RPC errors are retried, other errors would fail every poll
+      if (!isSolanaError(error)) {
+        throw error;
+      }
       console.error("Error polling transaction status:", error);
-      // Continue polling despite errors
+
+      // Back off exponentially while the RPC keeps failing
+      failedPolls++;
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(pollInterval * 2 ** failedPolls, maxRetryInterval)),
+      );
     }
   }
 
@@ -310,7 +434,7 @@ export async function confirmSignedTransactionWithPolling(
 
 /**
  * Send and confirm a signed transaction.
- * First tries WebSocket-based confirmation, falls back to HTTP polling if WebSocket fails.
+ * First tries WebSocket-based confirmation, falls back to HTTP polling if the WebSocket or RPC fails.
  *
  * @param signedTransaction - The signed transaction to send and confirm
  * @param rpc - The RPC client to use to send and confirm the transaction
@@ -328,8 +452,25 @@ export async function sendAndConfirmSignedTransaction(
     // Try WebSocket-based confirmation first
     return await confirmSignedTransaction(signedTransaction, rpc, rpcSubscriptions);
   } catch (error) {
+    // unexpected errors are not caused by the WebSocket, so polling would not confirm either
+    if (!isSolanaError(error)) {
+      throw error;
+    }
     console.warn("WebSocket confirmation failed, falling back to HTTP polling:", error);
     // Fall back to HTTP polling
     return await confirmSignedTransactionWithPolling(signedTransaction, rpc);
   }
 }
+
+/**
+ * Get the address of the nonce account advanced by a durable nonce transaction.
+ *
+ * @param transactionMessage - The durable nonce transaction message
+ * @returns The address of the nonce account
+ */
+function getNonceAccountAddress(
+  transactionMessage: TransactionMessageWithDurableNonceLifetime,
+): Address {
+  // AdvanceNonceAccount account order: [nonce account, recent blockhashes sysvar, nonce authority]
+  return transactionMessage.instructions[0].accounts[0].address;
+}
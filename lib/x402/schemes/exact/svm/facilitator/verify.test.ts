@@ -8,8 +8,10 @@ import {
   verifyTransactionInstructions,
   verifyComputeLimitInstruction,
   verifyComputePriceInstruction,
+  verifyTransactionFee,
 } from "./verify";
 import {
+  AccountRole,
   KeyPairSigner,
   assertIsInstructionWithData,
   assertIsInstructionWithAccounts,
@@ -17,12 +19,17 @@ import {
   fetchEncodedAccounts,
   ProgramDerivedAddressBump,
   generateKeyPairSigner,
+  createTransactionMessage,
+  setTransactionMessageLifetimeUsingDurableNonce,
+  Address,
+  Nonce,
 } from "@solana/kit";
 import { PaymentPayload, PaymentRequirements, ExactSvmPayload } from "../../../../types/verify";
 import { Network } from "../../../../types";
 import { SCHEME } from "../../";
 import * as SvmShared from "../../../../shared/svm";
 import * as rpc from "../../../../shared/svm/rpc";
+import { createInMemoryPaymentStore } from "../../../../shared/svm/paymentStore";
 import {
   TOKEN_PROGRAM_ADDRESS,
   TokenInstruction,
@@ -81,7 +88,7 @@ vi.mock("@solana-program/compute-budget", async () => {
   const actual = await vi.importActual("@solana-program/compute-budget");
   return {
     ...actual,
-    parseSetComputeUnitLimitInstruction: vi.fn(),
+    parseSetComputeUnitLimitInstruction: vi.fn().mockReturnValue({ data: { units: 6500 } }),
     parseSetComputeUnitPriceInstruction: vi.fn(),
   };
 });
@@ -93,6 +100,8 @@ vi.mock("../../../../shared/svm", async () => {
     decodeTransactionFromPayload: vi.fn(),
     signAndSimulateTransaction: vi.fn(),
     getTokenPayerFromTransaction: vi.fn(),
+    getFeePayerSignature: vi.fn(),
+    fetchMintDecimals: vi.fn().mockResolvedValue(6),
   };
 });
 
@@ -281,6 +290,7 @@ describe("verify", () => {
         },
         data: {
           amount: 1000n,
+          decimals: 6,
         },
       };
       mockPaymentRequirements = {
@@ -395,6 +405,57 @@ describe("verify", () => {
         ),
       ).resolves.not.toThrow();
     });
+
+    it("should fetch the decimals of the asset of the payment requirements", async () => {
+      await verifyTransferCheckedInstruction(
+        mockTokenInstruction,
+        mockPaymentRequirements,
+        { txHasCreateDestATAInstruction: false },
+        mockRpc,
+      );
+
+      expect(SvmShared.fetchMintDecimals).toHaveBeenCalledWith(
+        "solana-devnet",
+        devnetUSDCAddress,
+        mockRpc,
+      );
+    });
+
+    it("should throw if the transfer decimals do not match the mint", async () => {
+      mockTokenInstruction.data.decimals = 9;
+      await expect(
+        verifyTransferCheckedInstruction(
+          mockTokenInstruction,
+          mockPaymentRequirements,
+          { txHasCreateDestATAInstruction: false },
+          mockRpc,
+        ),
+      ).rejects.toThrow("invalid_exact_svm_payload_transaction_decimals_mismatch");
+    });
+
+    it("should throw if the decimals of the payment requirements do not match the mint", async () => {
+      mockPaymentRequirements.extra = { feePayer: "feePayer", decimals: 9 };
+      await expect(
+        verifyTransferCheckedInstruction(
+          mockTokenInstruction,
+          mockPaymentRequirements,
+          { txHasCreateDestATAInstruction: false },
+          mockRpc,
+        ),
+      ).rejects.toThrow("invalid_exact_svm_payload_transaction_decimals_mismatch");
+    });
+
+    it("should not throw if the decimals of the payment requirements match the mint", async () => {
+      mockPaymentRequirements.extra = { feePayer: "feePayer", decimals: 6 };
+      await expect(
+        verifyTransferCheckedInstruction(
+          mockTokenInstruction,
+          mockPaymentRequirements,
+          { txHasCreateDestATAInstruction: false },
+          mockRpc,
+        ),
+      ).resolves.not.toThrow();
+    });
   });
 
   describe("verify high level flow", () => {
@@ -478,6 +539,7 @@ describe("verify", () => {
         },
         data: {
           amount: 1000n,
+          decimals: 6,
         },
       } as any);
       vi.mocked(identifyToken2022Instruction).mockReturnValue(Token2022Instruction.TransferChecked);
@@ -535,6 +597,32 @@ describe("verify", () => {
       expect(result.isValid).toBe(false);
       expect(result.invalidReason).toBe("invalid_exact_svm_payload_transaction_simulation_failed");
     });
+
+    it("should return isValid: false if the transaction was already settled", async () => {
+      const paymentStore = createInMemoryPaymentStore();
+      await paymentStore.complete("settledSignature", {
+        success: true,
+        transaction: "settledSignature",
+        network: "solana-devnet",
+      });
+      vi.mocked(SvmShared.getFeePayerSignature).mockResolvedValue("settledSignature");
+
+      const result = await verify(mockSigner, mockPayload, mockRequirements, {
+        svmConfig: { paymentStore },
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_svm_payload_transaction_already_settled");
+      expect(SvmShared.signAndSimulateTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should return isValid: true if the transaction is not in the payment store", async () => {
+      vi.mocked(SvmShared.getFeePayerSignature).mockResolvedValue("newSignature");
+
+      const result = await verify(mockSigner, mockPayload, mockRequirements, {
+        svmConfig: { paymentStore: createInMemoryPaymentStore() },
+      });
+      expect(result.isValid).toBe(true);
+    });
   });
 
   describe("verifyTransactionInstructions", () => {
@@ -590,7 +678,7 @@ describe("verify", () => {
           destination: { address: "destinationAta" },
           source: { address: "sourceAta" },
         },
-        data: { amount: 1000n },
+        data: { amount: 1000n, decimals: 6 },
       } as any);
       vi.mocked(identifyToken2022Instruction).mockReturnValue(Token2022Instruction.TransferChecked);
       vi.mocked(findAssociatedTokenPda).mockResolvedValue(["destinationAta"] as any);
@@ -690,6 +778,120 @@ describe("verify", () => {
         verifyTransactionInstructions(mockTransactionMessage, mockPaymentRequirements, mockRpc),
       ).resolves.not.toThrow();
     });
+
+    it("should throw if the tx creates the destination ATA and the policy does not allow it", async () => {
+      mockTransactionMessage = {
+        instructions: [
+          mockComputeLimitInstruction,
+          mockComputePriceInstruction,
+          mockCreateATAInstruction,
+          mockTransferInstruction,
+        ],
+      };
+
+      await expect(
+        verifyTransactionInstructions(mockTransactionMessage, mockPaymentRequirements, mockRpc, {
+          allowCreateDestinationATA: false,
+        }),
+      ).rejects.toThrow("invalid_exact_svm_payload_transaction_create_ata_instruction_not_allowed");
+    });
+
+    describe("durable nonce transactions", () => {
+      let nonceAuthority: Address;
+      let feePayer: Address;
+
+      /**
+       * Creates an advance nonce instruction for the given nonce authority.
+       *
+       * @param authority - The authority of the nonce account
+       * @returns The advance nonce instruction
+       */
+      async function createAdvanceNonceInstruction(authority: Address) {
+        const nonceAccountAddress = (await generateKeyPairSigner()).address;
+        const message = setTransactionMessageLifetimeUsingDurableNonce(
+          {
+            nonce: "11111111111111111111111111111111" as Nonce,
+            nonceAccountAddress,
+            nonceAuthorityAddress: authority,
+          },
+          createTransactionMessage({ version: 0 }),
+        );
+        return message.instructions[0];
+      }
+
+      beforeEach(async () => {
+        nonceAuthority = (await generateKeyPairSigner()).address;
+        feePayer = (await generateKeyPairSigner()).address;
+        mockPaymentRequirements = { ...mockPaymentRequirements, extra: { feePayer } };
+      });
+
+      it("should not throw if the tx is prefixed with an advance nonce instruction", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            await createAdvanceNonceInstruction(nonceAuthority),
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(mockTransactionMessage, mockPaymentRequirements, mockRpc),
+        ).resolves.not.toThrow();
+      });
+
+      it("should throw if the nonce authority is the fee payer", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            await createAdvanceNonceInstruction(feePayer),
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(mockTransactionMessage, mockPaymentRequirements, mockRpc),
+        ).rejects.toThrow(
+          "invalid_exact_svm_payload_transaction_instructions_advance_nonce_authority_is_fee_payer",
+        );
+      });
+
+      it("should throw if a system program instruction is not an advance nonce instruction", async () => {
+        const advanceNonceInstruction = await createAdvanceNonceInstruction(nonceAuthority);
+        mockTransactionMessage = {
+          instructions: [
+            { ...advanceNonceInstruction, data: new Uint8Array([2, 0, 0, 0]) },
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(mockTransactionMessage, mockPaymentRequirements, mockRpc),
+        ).rejects.toThrow(
+          "invalid_exact_svm_payload_transaction_instructions_advance_nonce_instruction",
+        );
+      });
+
+      it("should throw if the tx has too many instructions after the advance nonce instruction", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            await createAdvanceNonceInstruction(nonceAuthority),
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockCreateATAInstruction,
+            mockTransferInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(mockTransactionMessage, mockPaymentRequirements, mockRpc),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_instructions_length");
+      });
+    });
   });
 
   describe("verifyComputeLimitInstruction", () => {
@@ -701,7 +903,9 @@ describe("verify", () => {
         programAddress: { toString: () => COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() },
         data: new Uint8Array([2, 100, 25, 0, 0]),
       };
-      vi.mocked(parseSetComputeUnitLimitInstruction).mockReturnValue({} as any);
+      vi.mocked(parseSetComputeUnitLimitInstruction).mockReturnValue({
+        data: { units: 6500 },
+      } as any);
     });
 
     it("should not throw for a valid compute limit instruction", () => {
@@ -730,6 +934,21 @@ describe("verify", () => {
         "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
       );
     });
+
+    it("should return the compute unit limit", () => {
+      expect(verifyComputeLimitInstruction(mockInstruction)).toBe(6500);
+    });
+
+    it("should throw if the compute unit limit is greater than the policy allows", () => {
+      expect(() =>
+        verifyComputeLimitInstruction(mockInstruction, { maxComputeUnitLimit: 6499 }),
+      ).toThrow(
+        "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high",
+      );
+      expect(verifyComputeLimitInstruction(mockInstruction, { maxComputeUnitLimit: 6500 })).toBe(
+        6500,
+      );
+    });
   });
 
   describe("verifyComputePriceInstruction", () => {
@@ -788,6 +1007,63 @@ describe("verify", () => {
         "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
       );
     });
+
+    it("should use the maximum compute unit price of the policy", () => {
+      vi.mocked(parseSetComputeUnitPriceInstruction).mockReturnValue({
+        data: {
+          discriminator: 3,
+          microLamports: 10_001n,
+        },
+      } as any);
+
+      expect(() =>
+        verifyComputePriceInstruction(mockInstruction, { maxComputeUnitPrice: 10_000 }),
+      ).toThrow(
+        "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
+      );
+      expect(verifyComputePriceInstruction(mockInstruction, { maxComputeUnitPrice: 10_001n })).toBe(
+        10_001n,
+      );
+    });
+  });
+
+  describe("verifyTransactionFee", () => {
+    const signer = { address: "clientAddress", role: AccountRole.READONLY_SIGNER };
+    const mockTransactionMessage = {
+      feePayer: { address: "feePayerAddress" },
+      instructions: [
+        { programAddress: COMPUTE_BUDGET_PROGRAM_ADDRESS },
+        { programAddress: COMPUTE_BUDGET_PROGRAM_ADDRESS },
+        {
+          programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+          accounts: [{ address: "sourceAta", role: AccountRole.WRITABLE }, signer, signer],
+        },
+      ],
+    } as any;
+
+    it("should not throw if the policy has no maximum fee", () => {
+      expect(() =>
+        verifyTransactionFee(mockTransactionMessage, 1_400_000, 5_000_000n),
+      ).not.toThrow();
+    });
+
+    it("should charge a signature fee per signer and round up the priority fee", () => {
+      // 2 signatures * 5000 lamports + ceil(200_000 * 1 / 1_000_000) lamports
+      expect(() =>
+        verifyTransactionFee(mockTransactionMessage, 200_000, 1n, { maxTotalFee: 10_001 }),
+      ).not.toThrow();
+      expect(() =>
+        verifyTransactionFee(mockTransactionMessage, 200_000, 1n, { maxTotalFee: 10_000 }),
+      ).toThrow("invalid_exact_svm_payload_transaction_fee_too_high");
+    });
+
+    it("should throw if the priority fee exceeds the maximum fee", () => {
+      expect(() =>
+        verifyTransactionFee(mockTransactionMessage, 1_400_000, 5_000_000n, {
+          maxTotalFee: 100_000n,
+        }),
+      ).toThrow("invalid_exact_svm_payload_transaction_fee_too_high");
+    });
   });
 
   describe("Custom RPC Configuration", () => {
@@ -868,7 +1144,7 @@ describe("verify", () => {
           source: { address: "Source111111111111111111111111111111111" as any },
           destination: { address: "Dest11111111111111111111111111111111111" as any },
         },
-        data: { amount: 1000000n },
+        data: { amount: 1000000n, decimals: 6 },
       } as any);
 
       vi.mocked(findAssociatedTokenPda).mockResolvedValue([
@@ -936,7 +1212,7 @@ describe("verify", () => {
           source: { address: "Source111111111111111111111111111111111" as any },
           destination: { address: "Dest11111111111111111111111111111111111" as any },
         },
-        data: { amount: 1000000n },
+        data: { amount: 1000000n, decimals: 6 },
       } as any);
 
       vi.mocked(findAssociatedTokenPda).mockResolvedValue([
@@ -999,7 +1275,7 @@ describe("verify", () => {
           source: { address: "Source111111111111111111111111111111111" as any },
           destination: { address: "Dest11111111111111111111111111111111111" as any },
         },
-        data: { amount: 1000000n },
+        data: { amount: 1000000n, decimals: 6 },
       } as any);
 
       vi.mocked(findAssociatedTokenPda).mockResolvedValue([
@@ -6,7 +6,7 @@ import {
   ErrorReasons,
 } from "../../../../types/verify/index.js";
 import { SupportedSVMNetworks } from "../../../../types/shared/index.js";
-import { X402Config } from "../../../../types/config.js";
+import { FacilitatorPolicy, X402Config } from "../../../../types/config.js";
 import {
   Address,
   assertIsInstructionWithAccounts,
@@ -24,6 +24,9 @@ import {
   AccountLookupMeta,
   AccountMeta,
   InstructionWithData,
+  isAdvanceNonceAccountInstruction,
+  isSignerRole,
+  Transaction,
 } from "@solana/kit";
 import {
   parseSetComputeUnitLimitInstruction,
@@ -48,10 +51,23 @@ import {
   decodeTransactionFromPayload,
   signAndSimulateTransaction,
   getTokenPayerFromTransaction,
+  getFeePayerSignature,
+  fetchMintDecimals,
+  DEFAULT_MAX_COMPUTE_UNIT_PRICE,
 } from "../../../../shared/svm/index.js";
 import { getRpcClient } from "../../../../shared/svm/rpc.js";
 import { SCHEME } from "../..//index.js";
 
+/**
+ * Address of the system program, which owns durable nonce accounts
+ */
+const SYSTEM_PROGRAM_ADDRESS = "11111111111111111111111111111111";
+
+/**
+ * Fee in lamports that is charged for each signature of a transaction
+ */
+export const LAMPORTS_PER_SIGNATURE = 5000n;
+
 /**
  * Verify the payment payload against the payment requirements.
  *
@@ -76,6 +92,9 @@ export async function verify(
     const decodedTransaction = decodeTransactionFromPayload(svmPayload);
     const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
 
+    // reject transactions that the facilitator has already settled
+    await verifyTransactionNotSettled(signer, decodedTransaction, config);
+
     // perform transaction introspection to validate the transaction structure and details
     await transactionIntrospection(svmPayload, paymentRequirements, config);
 
@@ -131,12 +150,14 @@ export async function verify(
  *
  * @param payload - The payment payload to verify
  * @param paymentRequirements - The payment requirements to verify against
+ * @param scheme - The scheme that both the payload and the requirements must use
  */
 export function verifySchemesAndNetworks(
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
+  scheme: PaymentRequirements["scheme"] = SCHEME,
 ): void {
-  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+  if (payload.scheme !== scheme || paymentRequirements.scheme !== scheme) {
     throw new Error("unsupported_scheme");
   }
 
@@ -148,6 +169,34 @@ export function verifySchemesAndNetworks(
   }
 }
 
+/**
+ * Verify that the transaction has not already been settled by the facilitator.
+ * This check is skipped when no payment store is configured.
+ *
+ * @param signer - The fee payer that will sign the transaction
+ * @param transaction - The decoded transaction to check
+ * @param config - Optional configuration for X402 operations (e.g., payment store)
+ * @param alreadySettledErrorReason - The error reason to throw for a settled transaction
+ * @throws Error if the transaction has already been settled
+ */
+export async function verifyTransactionNotSettled(
+  signer: KeyPairSigner,
+  transaction: Transaction,
+  config?: X402Config,
+  alreadySettledErrorReason: (typeof ErrorReasons)[number] = "invalid_exact_svm_payload_transaction_already_settled",
+): Promise<void> {
+  const paymentStore = config?.svmConfig?.paymentStore;
+  if (!paymentStore) {
+    return;
+  }
+
+  const signature = await getFeePayerSignature(signer, transaction);
+  const record = await paymentStore.get(signature);
+  if (record?.status === "settled") {
+    throw new Error(alreadySettledErrorReason);
+  }
+}
+
 /**
  * Perform transaction introspection to validate the transaction structure and transfer details.
  * This function handles decoding the transaction, validating the transfer instruction,
@@ -155,7 +204,7 @@ export function verifySchemesAndNetworks(
  *
  * @param svmPayload - The SVM payload containing the transaction
  * @param paymentRequirements - The payment requirements to verify against
- * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs, facilitator policy)
  */
 export async function transactionIntrospection(
   svmPayload: ExactSvmPayload,
@@ -171,39 +220,53 @@ export async function transactionIntrospection(
     compiledTransactionMessage,
   );
 
-  await verifyTransactionInstructions(transactionMessage, paymentRequirements, rpc);
+  await verifyTransactionInstructions(
+    transactionMessage,
+    paymentRequirements,
+    rpc,
+    config?.svmConfig?.facilitatorPolicy,
+  );
 }
 
 /**
  * Verify that the transaction contains the expected instructions.
+ * Durable nonce transactions are prefixed with an AdvanceNonceAccount instruction,
+ * which is verified and skipped before verifying the remaining instructions.
  *
  * @param transactionMessage - The transaction message to verify
  * @param paymentRequirements - The payment requirements to verify against
- * @param rpc - The RPC client to use for verifying account existence
+ * @param rpc - The RPC client to use for verifying account existence and fetching the mint
+ * @param policy - Optional limits that the facilitator enforces on the transaction
  * @throws Error if the transaction does not contain the expected instructions
  */
 export async function verifyTransactionInstructions(
   transactionMessage: CompilableTransactionMessage,
   paymentRequirements: PaymentRequirements,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  policy?: FacilitatorPolicy,
 ) {
+  // verify and skip the advance nonce instruction of a durable nonce transaction
+  let instructions = transactionMessage.instructions;
+  if (instructions[0]?.programAddress.toString() === SYSTEM_PROGRAM_ADDRESS) {
+    verifyAdvanceNonceInstruction(instructions[0], paymentRequirements);
+    instructions = instructions.slice(1);
+  }
+
   // validate the number of expected instructions
-  if (
-    transactionMessage.instructions.length !== 3 &&
-    transactionMessage.instructions.length !== 4
-  ) {
+  if (instructions.length !== 3 && instructions.length !== 4) {
     throw new Error(`invalid_exact_svm_payload_transaction_instructions_length`);
   }
 
   // verify that the compute limit and price instructions are valid
-  verifyComputeLimitInstruction(transactionMessage.instructions[0]);
-  verifyComputePriceInstruction(transactionMessage.instructions[1]);
+  const computeUnitLimit = verifyComputeLimitInstruction(instructions[0], policy);
+  const computeUnitPrice = verifyComputePriceInstruction(instructions[1], policy);
+  verifyTransactionFee(transactionMessage, computeUnitLimit, computeUnitPrice, policy);
 
   // verify that the transfer instruction is valid
   // this expects the destination ATA to already exist
-  if (transactionMessage.instructions.length === 3) {
+  if (instructions.length === 3) {
     await verifyTransferInstruction(
-      transactionMessage.instructions[2],
+      instructions[2],
       paymentRequirements,
       {
         txHasCreateDestATAInstruction: false,
@@ -215,9 +278,13 @@ export async function verifyTransactionInstructions(
   // verify that the transfer instruction is valid
   // this expects the destination ATA to be created in the same transaction
   else {
-    verifyCreateATAInstruction(transactionMessage.instructions[2], paymentRequirements);
+    // the facilitator pays the rent of the created ATA
+    if (policy?.allowCreateDestinationATA === false) {
+      throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction_not_allowed`);
+    }
+    verifyCreateATAInstruction(instructions[2], paymentRequirements);
     await verifyTransferInstruction(
-      transactionMessage.instructions[3],
+      instructions[3],
       paymentRequirements,
       {
         txHasCreateDestATAInstruction: true,
@@ -227,18 +294,51 @@ export async function verifyTransactionInstructions(
   }
 }
 
+/**
+ * Verify that the advance nonce instruction of a durable nonce transaction is valid.
+ * The nonce authority must not be the fee payer, otherwise the facilitator's signature
+ * would authorize advancing the nonce account.
+ *
+ * @param instruction - The advance nonce instruction to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @throws Error if the advance nonce instruction is invalid
+ */
+export function verifyAdvanceNonceInstruction(
+  instruction: Instruction<
+    string,
+    readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
+  >,
+  paymentRequirements: PaymentRequirements,
+) {
+  if (!isAdvanceNonceAccountInstruction(instruction)) {
+    throw new Error(`invalid_exact_svm_payload_transaction_instructions_advance_nonce_instruction`);
+  }
+
+  // AdvanceNonceAccount account order: [nonce account, recent blockhashes sysvar, nonce authority]
+  const nonceAuthority = instruction.accounts[2].address;
+  if (nonceAuthority === paymentRequirements.extra?.feePayer) {
+    throw new Error(
+      `invalid_exact_svm_payload_transaction_instructions_advance_nonce_authority_is_fee_payer`,
+    );
+  }
+}
+
 /**
  * Verify that the compute limit instruction is valid.
  *
  * @param instruction - The compute limit instruction to verify
- * @throws Error if the compute limit instruction is invalid
+ * @param policy - Optional limits that the facilitator enforces on the transaction
+ * @returns The compute unit limit of the transaction
+ * @throws Error if the compute limit instruction is invalid or the limit is above the policy
  */
 export function verifyComputeLimitInstruction(
   instruction: Instruction<
     string,
     readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
   >,
-) {
+  policy?: FacilitatorPolicy,
+): number {
+  let parsedInstruction: ReturnType<typeof parseSetComputeUnitLimitInstruction>;
   try {
     if (
       instruction.programAddress.toString() !== COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() ||
@@ -248,29 +348,42 @@ export function verifyComputeLimitInstruction(
         `invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction`,
       );
     }
-    parseSetComputeUnitLimitInstruction(
+    parsedInstruction = parseSetComputeUnitLimitInstruction(
       instruction as InstructionWithData<Uint8Array<ArrayBufferLike>>,
     );
   } catch (error) {
     console.error(error);
     throw new Error(`invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction`);
   }
+
+  const { units } = parsedInstruction.data;
+  if (policy?.maxComputeUnitLimit !== undefined && units > policy.maxComputeUnitLimit) {
+    throw new Error(
+      `invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high`,
+    );
+  }
+
+  return units;
 }
 
 /**
  * Verify that the compute price instruction is valid.
- * This function throws an error if the compute unit price is greater than 5 lamports,
- * to protect the facilitator against gas fee abuse from the client.
+ * This function throws an error if the compute unit price is greater than the maximum price
+ * of the facilitator policy (5 lamports by default), to protect the facilitator against
+ * gas fee abuse from the client.
  *
  * @param instruction - The compute price instruction to verify
- * @throws Error if the compute price instruction is invalid
+ * @param policy - Optional limits that the facilitator enforces on the transaction
+ * @returns The compute unit price of the transaction in microlamports
+ * @throws Error if the compute price instruction is invalid or the price is above the policy
  */
 export function verifyComputePriceInstruction(
   instruction: Instruction<
     string,
     readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
   >,
-) {
+  policy?: FacilitatorPolicy,
+): bigint {
   if (
     instruction.programAddress.toString() !== COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() ||
     instruction.data?.[0] !== 3 // discriminator of set compute unit price instruction
@@ -281,12 +394,55 @@ export function verifyComputePriceInstruction(
     instruction as InstructionWithData<Uint8Array<ArrayBufferLike>>,
   );
 
-  // TODO: allow the facilitator to pass in an optional max compute unit price
-  if (parsedInstruction.data.microLamports > 5 * 1_000_000) {
+  const { microLamports } = parsedInstruction.data;
+  const maxComputeUnitPrice = BigInt(policy?.maxComputeUnitPrice ?? DEFAULT_MAX_COMPUTE_UNIT_PRICE);
+  if (microLamports > maxComputeUnitPrice) {
     throw new Error(
       `invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high`,
     );
   }
+
+  return microLamports;
+}
+
+/**
+ * Verify that the total fee of the transaction, the signature fees plus the priority fee,
+ * is not above the maximum fee of the facilitator policy.
+ *
+ * @param transactionMessage - The transaction message to verify
+ * @param computeUnitLimit - The compute unit limit of the transaction
+ * @param computeUnitPrice - The compute unit price of the transaction in microlamports
+ * @param policy - Optional limits that the facilitator enforces on the transaction
+ * @param additionalFee - The fee in lamports of the other transactions that settle the payment
+ * @throws Error if the total fee is above the policy
+ */
+export function verifyTransactionFee(
+  transactionMessage: CompilableTransactionMessage,
+  computeUnitLimit: number,
+  computeUnitPrice: bigint,
+  policy?: FacilitatorPolicy,
+  additionalFee: bigint = 0n,
+) {
+  if (policy?.maxTotalFee === undefined) {
+    return;
+  }
+
+  // every signer pays a signature fee, including the fee payer
+  const signers = new Set<string>([transactionMessage.feePayer.address]);
+  for (const instruction of transactionMessage.instructions) {
+    for (const account of instruction.accounts ?? []) {
+      if (isSignerRole(account.role)) {
+        signers.add(account.address);
+      }
+    }
+  }
+
+  // the priority fee is the compute unit price times the limit, rounded up to whole lamports
+  const priorityFee = (computeUnitPrice * BigInt(computeUnitLimit) + 999_999n) / 1_000_000n;
+  const totalFee = LAMPORTS_PER_SIGNATURE * BigInt(signers.size) + priorityFee + additionalFee;
+  if (totalFee > BigInt(policy.maxTotalFee)) {
+    throw new Error(`invalid_exact_svm_payload_transaction_fee_too_high`);
+  }
 }
 
 /**
@@ -338,7 +494,7 @@ export function verifyCreateATAInstruction(
  * @param paymentRequirements - The payment requirements to verify against
  * @param {object} options - The options for the verification of the transfer instruction
  * @param {boolean} options.txHasCreateDestATAInstruction - Whether the transaction has a create destination ATA instruction
- * @param rpc - The RPC client to use for verifying account existence
+ * @param rpc - The RPC client to use for verifying account existence and fetching the mint
  * @throws Error if the transfer instruction is invalid
  */
 export async function verifyTransferInstruction(
@@ -369,7 +525,7 @@ export async function verifyTransferInstruction(
  * @param paymentRequirements - The payment requirements to verify against
  * @param {object} options - The options for the verification of the transfer checked instruction
  * @param {boolean} options.txHasCreateDestATAInstruction - Whether the transaction has a create destination ATA instruction
- * @param rpc - The RPC client to use for verifying account existence
+ * @param rpc - The RPC client to use for verifying account existence and fetching the mint
  * @throws Error if the transfer checked instruction is invalid
  */
 export async function verifyTransferCheckedInstruction(
@@ -415,6 +571,20 @@ export async function verifyTransferCheckedInstruction(
   if (instructionAmount !== paymentRequirementsAmount) {
     throw new Error(`invalid_exact_svm_payload_transaction_amount_mismatch`);
   }
+
+  // verify that the transfer and the payment requirements use the decimals of the mint
+  const mintDecimals = await fetchMintDecimals(
+    paymentRequirements.network,
+    paymentRequirements.asset as Address,
+    rpc,
+  );
+  const requiredDecimals = paymentRequirements.extra?.decimals;
+  if (
+    parsedInstruction.data.decimals !== mintDecimals ||
+    (requiredDecimals !== undefined && requiredDecimals !== mintDecimals)
+  ) {
+    throw new Error(`invalid_exact_svm_payload_transaction_decimals_mismatch`);
+  }
 }
 
 /**
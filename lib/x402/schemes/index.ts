@@ -1,2 +1,3 @@
 export * as exact from "./exact/index.js";
+export * as upto from "./upto/index.js";
 export * from "./utils/index.js";
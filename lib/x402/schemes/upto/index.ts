@@ -0,0 +1,3 @@
+export * as svm from "./svm/index.js";
+
+export const SCHEME = "upto";
@@ -0,0 +1,164 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { type Address, type KeyPairSigner, generateKeyPairSigner, lamports } from "@solana/kit";
+import * as solanaKit from "@solana/kit";
+import * as token2022 from "@solana-program/token-2022";
+import * as token from "@solana-program/token";
+import * as computeBudget from "@solana-program/compute-budget";
+import * as paymentUtils from "../../utils";
+import { PaymentRequirements } from "../../../types/verify";
+import * as rpc from "../../../shared/svm/rpc";
+import { createAndSignPayment, createPaymentHeader } from "./client";
+
+vi.mock("../../../shared/svm/rpc");
+vi.mock("@solana-program/token-2022", async importOriginal => {
+  const actual = await importOriginal<typeof token2022>();
+  return {
+    ...actual,
+    findAssociatedTokenPda: vi.fn(),
+    getApproveCheckedInstruction: vi.fn().mockReturnValue({ instruction: "mock_approve" }),
+    fetchMint: vi.fn(),
+  };
+});
+vi.mock("@solana/kit", async importOriginal => {
+  const actual = await importOriginal<typeof solanaKit>();
+  return {
+    ...actual,
+    createTransactionMessage: vi.fn().mockReturnValue({ version: 0, instructions: [] }),
+    setTransactionMessageFeePayer: vi.fn().mockImplementation((_payer, tx) => tx),
+    setTransactionMessageLifetimeUsingBlockhash: vi.fn().mockImplementation((_bh, tx) => tx),
+    appendTransactionMessageInstruction: vi.fn().mockImplementation((ix, tx) => {
+      return { ...tx, instructions: [...tx.instructions, ix] };
+    }),
+    prependTransactionMessageInstruction: vi.fn().mockImplementation((ix, tx) => {
+      return { ...tx, instructions: [ix, ...tx.instructions] };
+    }),
+    partiallySignTransactionMessageWithSigners: vi.fn().mockResolvedValue("signed_tx_message"),
+    getBase64EncodedWireTransaction: vi.fn().mockReturnValue("base64_encoded_tx"),
+  };
+});
+vi.mock("@solana-program/compute-budget", async importOriginal => {
+  const actual = await importOriginal<typeof computeBudget>();
+  return {
+    ...actual,
+    getSetComputeUnitLimitInstruction: vi.fn().mockReturnValue({ instruction: "mock_limit" }),
+    setTransactionMessageComputeUnitPrice: vi.fn().mockImplementation((_price, tx) => tx),
+    estimateComputeUnitLimitFactory: vi.fn().mockReturnValue(vi.fn().mockResolvedValue(1000)),
+  };
+});
+
+describe("upto SVM Client", () => {
+  let clientSigner: KeyPairSigner;
+  let paymentRequirements: PaymentRequirements;
+  const mockRpcClient = {
+    getLatestBlockhash: vi.fn().mockReturnValue({
+      send: vi.fn().mockResolvedValue({
+        value: {
+          blockhash: "mockBlockhash",
+          lastValidBlockHeight: 1234,
+        },
+      }),
+    }),
+  };
+
+  beforeAll(async () => {
+    clientSigner = await generateKeyPairSigner();
+    paymentRequirements = {
+      scheme: "upto",
+      network: "solana-devnet",
+      payTo: (await generateKeyPairSigner()).address,
+      asset: (await generateKeyPairSigner()).address,
+      maxAmountRequired: "1000",
+      resource: "http://example.com/resource",
+      description: "Test description",
+      mimeType: "text/plain",
+      maxTimeoutSeconds: 60,
+      extra: {
+        feePayer: (await generateKeyPairSigner()).address,
+      },
+    };
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(rpc, "getRpcClient").mockReturnValue(mockRpcClient as any);
+    vi.spyOn(token2022, "fetchMint").mockResolvedValue({
+      address: paymentRequirements.asset,
+      programAddress: token.TOKEN_PROGRAM_ADDRESS,
+      executable: false,
+      lamports: lamports(1000n),
+      space: 165n,
+      data: {
+        mintAuthority: null,
+        supply: 0n,
+        decimals: 6,
+        isInitialized: true,
+        freezeAuthority: null,
+        extensions: [],
+      },
+    } as any);
+    vi.spyOn(token2022, "findAssociatedTokenPda").mockResolvedValue([
+      "sourceATA" as Address,
+      1 as any,
+    ]);
+  });
+
+  describe("createAndSignPayment", () => {
+    it("should approve the fee payer as the delegate of the maximum amount", async () => {
+      const payload = await createAndSignPayment(clientSigner, 1, paymentRequirements);
+
+      expect(token2022.getApproveCheckedInstruction).toHaveBeenCalledWith(
+        {
+          source: "sourceATA",
+          mint: paymentRequirements.asset,
+          delegate: paymentRequirements.extra?.feePayer,
+          owner: clientSigner,
+          amount: 1000n,
+          decimals: 6,
+        },
+        { programAddress: token.TOKEN_PROGRAM_ADDRESS },
+      );
+      expect(solanaKit.partiallySignTransactionMessageWithSigners).toHaveBeenCalledWith(
+        expect.objectContaining({
+          instructions: [{ instruction: "mock_limit" }, { instruction: "mock_approve" }],
+        }),
+      );
+      expect(payload).toEqual({
+        scheme: "upto",
+        network: "solana-devnet",
+        x402Version: 1,
+        payload: { transaction: "base64_encoded_tx" },
+      });
+    });
+
+    it("should throw if the fee payer is missing", async () => {
+      await expect(
+        createAndSignPayment(clientSigner, 1, { ...paymentRequirements, extra: {} }),
+      ).rejects.toThrow("feePayer is required");
+    });
+
+    it("should throw if the asset was not created by a known token program", async () => {
+      vi.spyOn(token2022, "fetchMint").mockResolvedValue({
+        programAddress: "unknownProgram",
+        data: { decimals: 6 },
+      } as any);
+
+      await expect(createAndSignPayment(clientSigner, 1, paymentRequirements)).rejects.toThrow(
+        "Asset was not created by a known token program",
+      );
+    });
+  });
+
+  describe("createPaymentHeader", () => {
+    it("should encode the payment payload", async () => {
+      vi.spyOn(paymentUtils, "encodePayment").mockReturnValue("encoded_payment_header");
+
+      const header = await createPaymentHeader(clientSigner, 1, paymentRequirements);
+
+      expect(header).toBe("encoded_payment_header");
+      expect(paymentUtils.encodePayment).toHaveBeenCalledWith(
+        expect.objectContaining({ scheme: "upto", payload: { transaction: "base64_encoded_tx" } }),
+      );
+    });
+  });
+});
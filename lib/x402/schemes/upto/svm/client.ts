@@ -0,0 +1,199 @@
+import { encodePayment } from "../../utils/index.js";
+import {
+  Address,
+  pipe,
+  createTransactionMessage,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  appendTransactionMessageInstruction,
+  partiallySignTransactionMessageWithSigners,
+  prependTransactionMessageInstruction,
+  getBase64EncodedWireTransaction,
+  Instruction,
+} from "@solana/kit";
+import { PaymentPayload, PaymentRequirements } from "../../../types/verify/index.js";
+import { X402Config } from "../../../types/config.js";
+import {
+  fetchMint,
+  findAssociatedTokenPda,
+  getApproveCheckedInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { TOKEN_PROGRAM_ADDRESS } from "@solana-program/token";
+import {
+  estimateComputeUnitLimitFactory,
+  getSetComputeUnitLimitInstruction,
+  setTransactionMessageComputeUnitPrice,
+} from "@solana-program/compute-budget";
+import { getRpcClient } from "../../../shared/svm/rpc.js";
+import { getComputeUnitPrice } from "../../../shared/svm/priorityFee.js";
+import type { SvmSigner } from "../../../shared/svm/wallet.js";
+
+/**
+ * Creates and encodes an upto payment header for the given client and payment requirements.
+ *
+ * @param client - The signer instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A promise that resolves to a base64 encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SvmSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<string> {
+  const paymentPayload = await createAndSignPayment(
+    client,
+    x402Version,
+    paymentRequirements,
+    config,
+  );
+  return encodePayment(paymentPayload);
+}
+
+/**
+ * Creates and signs an upto payment for the given client and payment requirements.
+ * The signed transaction approves the facilitator (the fee payer) as a delegate of the client's
+ * token account for up to `maxAmountRequired`. The facilitator later transfers only the amount
+ * that was actually used.
+ *
+ * @param client - The signer instance used to create and sign the payment tx
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A promise that resolves to a payment payload containing a base64 encoded solana token approve tx
+ */
+export async function createAndSignPayment(
+  client: SvmSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<PaymentPayload> {
+  const transactionMessage = await createApproveTransactionMessage(
+    client,
+    paymentRequirements,
+    config,
+  );
+  const signedTransaction = await partiallySignTransactionMessageWithSigners(transactionMessage);
+  const base64EncodedWireTransaction = getBase64EncodedWireTransaction(signedTransaction);
+
+  // return payment payload
+  return {
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    x402Version: x402Version,
+    payload: {
+      transaction: base64EncodedWireTransaction,
+    },
+  } as PaymentPayload;
+}
+
+/**
+ * Creates an approve transaction message for the given client and payment requirements.
+ *
+ * @param client - The signer instance used to create the approve transaction message
+ * @param paymentRequirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs, priority fee)
+ * @returns A promise that resolves to the transaction message with the approve instruction
+ * @throws an error if the feePayer is not provided in the payment requirements
+ */
+async function createApproveTransactionMessage(
+  client: SvmSigner,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+) {
+  const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+
+  // the fee payer is also the delegate that settles the payment
+  const feePayer = paymentRequirements.extra?.feePayer as Address;
+  if (!feePayer) {
+    throw new Error(
+      "feePayer is required in paymentRequirements.extra in order to approve the " +
+        "facilitator as the delegate of the upto payment",
+    );
+  }
+
+  // create the approve instruction
+  const approveInstruction = await createApproveInstruction(client, paymentRequirements, config);
+
+  // price the compute units, without exceeding the maximum price of the facilitator
+  const computeUnitPrice = await getComputeUnitPrice(
+    paymentRequirements,
+    rpc,
+    config?.svmConfig?.priorityFee,
+  );
+
+  // create tx to simulate
+  const txToSimulate = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageComputeUnitPrice(computeUnitPrice, tx),
+    tx => setTransactionMessageFeePayer(feePayer, tx),
+    tx => appendTransactionMessageInstruction(approveInstruction, tx),
+  );
+
+  // estimate the compute budget limit (gas limit)
+  const estimateComputeUnitLimit = estimateComputeUnitLimitFactory({ rpc });
+  const estimatedUnits = await estimateComputeUnitLimit(txToSimulate);
+
+  // finalize the transaction message by adding the compute budget limit and blockhash
+  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  return pipe(
+    txToSimulate,
+    tx =>
+      prependTransactionMessageInstruction(
+        getSetComputeUnitLimitInstruction({ units: estimatedUnits }),
+        tx,
+      ),
+    tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+  );
+}
+
+/**
+ * Creates an approve checked instruction that delegates up to `maxAmountRequired` of the
+ * client's tokens to the fee payer in the payment requirements.
+ * This function will work for both spl-token and token-2022.
+ *
+ * @param client - The signer instance who's tokens will be delegated
+ * @param paymentRequirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A promise that resolves to the approve checked instruction
+ */
+async function createApproveInstruction(
+  client: SvmSigner,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<Instruction> {
+  const { asset, maxAmountRequired: amount, extra } = paymentRequirements;
+
+  const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+  const tokenMint = await fetchMint(rpc, asset as Address);
+  const tokenProgramAddress = tokenMint.programAddress;
+
+  // validate that the asset was created by a known token program
+  if (
+    tokenProgramAddress.toString() !== TOKEN_PROGRAM_ADDRESS.toString() &&
+    tokenProgramAddress.toString() !== TOKEN_2022_PROGRAM_ADDRESS.toString()
+  ) {
+    throw new Error("Asset was not created by a known token program");
+  }
+
+  const [sourceATA] = await findAssociatedTokenPda({
+    mint: asset as Address,
+    owner: client.address,
+    tokenProgram: tokenProgramAddress,
+  });
+
+  return getApproveCheckedInstruction(
+    {
+      source: sourceATA,
+      mint: asset as Address,
+      delegate: extra?.feePayer as Address,
+      owner: client,
+      amount: BigInt(amount),
+      decimals: tokenMint.data.decimals,
+    },
+    { programAddress: tokenProgramAddress },
+  );
+}
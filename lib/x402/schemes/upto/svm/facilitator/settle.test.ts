@@ -0,0 +1,285 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Address,
+  appendTransactionMessageInstructions,
+  Blockhash,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  getSignatureFromTransaction,
+  KeyPairSigner,
+  partiallySignTransactionMessageWithSigners,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+} from "@solana/kit";
+import { getApproveCheckedInstruction } from "@solana-program/token";
+import { fetchToken, getTransferCheckedInstruction } from "@solana-program/token-2022";
+import {
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+} from "@solana-program/compute-budget";
+import { PaymentPayload, PaymentRequirements } from "../../../../types/verify";
+import * as rpc from "../../../../shared/svm/rpc";
+import { createInMemoryPaymentStore } from "../../../../shared/svm/paymentStore";
+import { sendAndConfirmSignedTransaction } from "../../../exact/svm/facilitator/settle";
+import { getValidatedApproveCheckedInstruction, verify, verifyApprovedPayment } from "./verify";
+import { settle } from "./settle";
+
+vi.mock("./verify");
+
+vi.mock("../../../exact/svm/facilitator/settle", () => ({
+  sendAndConfirmSignedTransaction: vi.fn(),
+}));
+
+vi.mock("@solana-program/token-2022", async importOriginal => {
+  const actual = await importOriginal<typeof import("@solana-program/token-2022")>();
+  return {
+    ...actual,
+    getTransferCheckedInstruction: vi.fn(actual.getTransferCheckedInstruction),
+    fetchToken: vi.fn(),
+  };
+});
+
+describe("upto settle", () => {
+  let facilitator: KeyPairSigner;
+  let client: KeyPairSigner;
+  let asset: Address;
+  let source: Address;
+  let payload: PaymentPayload;
+  let approveSignature: string;
+  let paymentRequirements: PaymentRequirements;
+  const mockRpcClient = {
+    getLatestBlockhash: vi.fn(),
+    getSignatureStatuses: vi.fn(),
+  };
+
+  beforeAll(async () => {
+    facilitator = await generateKeyPairSigner();
+    client = await generateKeyPairSigner();
+    asset = (await generateKeyPairSigner()).address;
+    source = (await generateKeyPairSigner()).address;
+    const blockhash = (await generateKeyPairSigner()).address as unknown as Blockhash;
+
+    const transactionMessage = pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayer(facilitator.address, tx),
+      tx =>
+        setTransactionMessageLifetimeUsingBlockhash({ blockhash, lastValidBlockHeight: 1n }, tx),
+      tx =>
+        appendTransactionMessageInstructions(
+          [
+            getSetComputeUnitLimitInstruction({ units: 10000 }),
+            getSetComputeUnitPriceInstruction({ microLamports: 1 }),
+            getApproveCheckedInstruction({
+              source,
+              mint: asset,
+              delegate: facilitator.address,
+              owner: client,
+              amount: 1000n,
+              decimals: 6,
+            }),
+          ],
+          tx,
+        ),
+    );
+    const signedTransaction = await partiallySignTransactionMessageWithSigners(transactionMessage);
+    payload = {
+      scheme: "upto",
+      network: "solana-devnet",
+      x402Version: 1,
+      payload: { transaction: getBase64EncodedWireTransaction(signedTransaction) },
+    };
+
+    paymentRequirements = {
+      scheme: "upto",
+      network: "solana-devnet",
+      payTo: (await generateKeyPairSigner()).address,
+      asset,
+      maxAmountRequired: "1000",
+      resource: "http://example.com/resource",
+      description: "Test description",
+      mimeType: "text/plain",
+      maxTimeoutSeconds: 60,
+      extra: { feePayer: facilitator.address, settleAmount: "250" },
+    };
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const actual = await vi.importActual<typeof import("./verify")>("./verify");
+    vi.mocked(getValidatedApproveCheckedInstruction).mockImplementation(
+      actual.getValidatedApproveCheckedInstruction,
+    );
+    vi.spyOn(rpc, "getRpcClient").mockReturnValue(mockRpcClient as any);
+    vi.spyOn(rpc, "getRpcSubscriptions").mockReturnValue({} as any);
+    mockRpcClient.getLatestBlockhash.mockReturnValue({
+      send: vi.fn().mockResolvedValue({
+        value: {
+          blockhash: (await generateKeyPairSigner()).address,
+          lastValidBlockHeight: 1234n,
+        },
+      }),
+    });
+    mockRpcClient.getSignatureStatuses.mockReturnValue({
+      send: vi.fn().mockResolvedValue({ value: [null] }),
+    });
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: client.address });
+    vi.mocked(verifyApprovedPayment).mockResolvedValue({ isValid: true, payer: client.address });
+    vi.mocked(sendAndConfirmSignedTransaction).mockImplementation(async signedTransaction => ({
+      success: true,
+      signature: getSignatureFromTransaction(signedTransaction),
+    }));
+
+    approveSignature = "";
+    vi.mocked(sendAndConfirmSignedTransaction).mockImplementationOnce(async signedTransaction => {
+      approveSignature = getSignatureFromTransaction(signedTransaction);
+      return { success: true, signature: approveSignature };
+    });
+  });
+
+  it("should submit the approval and transfer the settle amount as the delegate", async () => {
+    const result = await settle(facilitator, payload, paymentRequirements);
+
+    expect(sendAndConfirmSignedTransaction).toHaveBeenCalledTimes(2);
+    expect(getTransferCheckedInstruction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source,
+        mint: asset,
+        authority: facilitator,
+        amount: 250n,
+        decimals: 6,
+      }),
+      expect.anything(),
+    );
+    expect(result.success).toBe(true);
+    expect(result.payer).toBe(client.address);
+    expect(result.transaction).not.toBe(approveSignature);
+  });
+
+  it("should settle the maximum amount if no settle amount is set", async () => {
+    await settle(facilitator, payload, {
+      ...paymentRequirements,
+      extra: { feePayer: facilitator.address },
+    });
+
+    expect(getTransferCheckedInstruction).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 1000n }),
+      expect.anything(),
+    );
+  });
+
+  it("should not submit the approval if the settle amount is 0", async () => {
+    const result = await settle(facilitator, payload, {
+      ...paymentRequirements,
+      extra: { feePayer: facilitator.address, settleAmount: "0" },
+    });
+
+    expect(verify).toHaveBeenCalled();
+    expect(sendAndConfirmSignedTransaction).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      success: true,
+      payer: client.address,
+      transaction: "",
+      network: "solana-devnet",
+    });
+  });
+
+  it("should reject a settle amount above the maximum amount", async () => {
+    const result = await settle(facilitator, payload, {
+      ...paymentRequirements,
+      extra: { feePayer: facilitator.address, settleAmount: "1001" },
+    });
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(sendAndConfirmSignedTransaction).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_upto_svm_settle_amount");
+  });
+
+  it("should not submit anything if verification fails", async () => {
+    vi.mocked(verify).mockResolvedValue({
+      isValid: false,
+      invalidReason: "invalid_upto_svm_payload_transaction_approve_amount_mismatch",
+    });
+
+    const result = await settle(facilitator, payload, paymentRequirements);
+
+    expect(sendAndConfirmSignedTransaction).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_upto_svm_payload_transaction_approve_amount_mismatch");
+  });
+
+  it("should not transfer if the approval fails", async () => {
+    vi.mocked(sendAndConfirmSignedTransaction).mockReset();
+    vi.mocked(sendAndConfirmSignedTransaction).mockResolvedValue({
+      success: false,
+      errorReason: "settle_exact_svm_block_height_exceeded",
+      signature: "approveSignature",
+    });
+
+    const result = await settle(facilitator, payload, paymentRequirements);
+
+    expect(sendAndConfirmSignedTransaction).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("settle_exact_svm_block_height_exceeded");
+  });
+
+  it("should only retry the transfer once the approval landed", async () => {
+    vi.mocked(sendAndConfirmSignedTransaction).mockResolvedValueOnce({
+      success: false,
+      errorReason: "settle_exact_svm_block_height_exceeded",
+      signature: "transferSignature",
+    });
+    const first = await settle(facilitator, payload, paymentRequirements);
+    expect(first.success).toBe(false);
+
+    mockRpcClient.getSignatureStatuses.mockReturnValue({
+      send: vi.fn().mockResolvedValue({
+        value: [{ err: null, confirmationStatus: "confirmed" }],
+      }),
+    });
+    vi.mocked(fetchToken).mockResolvedValue({
+      data: { delegate: { __option: "Some", value: facilitator.address }, delegatedAmount: 1000n },
+    } as any);
+    vi.mocked(verify).mockClear();
+    vi.mocked(sendAndConfirmSignedTransaction).mockClear();
+
+    const second = await settle(facilitator, payload, paymentRequirements);
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(verifyApprovedPayment).toHaveBeenCalledTimes(1);
+    expect(sendAndConfirmSignedTransaction).toHaveBeenCalledTimes(1);
+    expect(second.success).toBe(true);
+    expect(second.transaction).not.toBe(approveSignature);
+  });
+
+  it("should not transfer again from an approval whose allowance was used", async () => {
+    mockRpcClient.getSignatureStatuses.mockReturnValue({
+      send: vi.fn().mockResolvedValue({
+        value: [{ err: null, confirmationStatus: "finalized" }],
+      }),
+    });
+    vi.mocked(fetchToken).mockResolvedValue({
+      data: { delegate: { __option: "Some", value: facilitator.address }, delegatedAmount: 750n },
+    } as any);
+
+    const result = await settle(facilitator, payload, paymentRequirements);
+
+    expect(sendAndConfirmSignedTransaction).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_upto_svm_payload_transaction_already_settled");
+  });
+
+  it("should return the stored settle response when settling a payment twice", async () => {
+    const paymentStore = createInMemoryPaymentStore();
+    const config = { svmConfig: { paymentStore } };
+
+    const first = await settle(facilitator, payload, paymentRequirements, config);
+    const second = await settle(facilitator, payload, paymentRequirements, config);
+
+    expect(sendAndConfirmSignedTransaction).toHaveBeenCalledTimes(2);
+    expect(second).toEqual(first);
+  });
+});
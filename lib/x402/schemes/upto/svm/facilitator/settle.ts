@@ -0,0 +1,345 @@
+import {
+  SettleResponse,
+  PaymentPayload,
+  PaymentRequirements,
+  ExactSvmPayload,
+  UptoSvmExtraSchema,
+} from "../../../../types/verify/index.js";
+import { X402Config } from "../../../../types/config.js";
+import {
+  Address,
+  appendTransactionMessageInstruction,
+  createTransactionMessage,
+  decompileTransactionMessage,
+  getCompiledTransactionMessageDecoder,
+  getSignatureFromTransaction,
+  KeyPairSigner,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  Signature,
+  signTransaction,
+  signTransactionMessageWithSigners,
+  Transaction,
+  unwrapOption,
+} from "@solana/kit";
+import {
+  fetchToken,
+  findAssociatedTokenPda,
+  getTransferCheckedInstruction,
+} from "@solana-program/token-2022";
+import {
+  decodeTransactionFromPayload,
+  getFeePayerSignature,
+  getTokenPayerFromTransaction,
+} from "../../../../shared/svm/index.js";
+import { settleWithPaymentStore } from "../../../../shared/svm/paymentStore.js";
+import { getRpcClient, getRpcSubscriptions } from "../../../../shared/svm/rpc.js";
+import { sendAndConfirmSignedTransaction } from "../../../exact/svm/facilitator/settle.js";
+import { getValidatedApproveCheckedInstruction, verify, verifyApprovedPayment } from "./verify.js";
+
+/**
+ * Settle the upto payment payload against the payment requirements.
+ *
+ * The client's approve transaction is submitted first, after which the facilitator transfers
+ * `extra.settleAmount` (defaulting to `maxAmountRequired`) to the payee as the approved delegate.
+ * A settle amount of 0 does not submit the approval, so nothing is delegated. Any allowance that a
+ * partial settle does not use remains delegated to the facilitator until the client revokes it or
+ * approves a new delegate, since only the owner of the token account can revoke it.
+ *
+ * The approval is looked up on chain before it is submitted, so that settling again after the
+ * transfer failed only retries the transfer. The transfer is skipped if the allowance was already
+ * used, so an approval is never transferred from twice.
+ *
+ * If a payment store is configured, settlement is idempotent: settling a payment
+ * that was already settled returns the original settle response instead of resubmitting it.
+ *
+ * @param signer - The signer that will sign the transactions
+ * @param payload - The payment payload to settle
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse indicating if the payment is settled and any error reason
+ */
+export async function settle(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const settleAmount = getSettleAmount(paymentRequirements);
+  if (settleAmount === undefined) {
+    return {
+      success: false,
+      errorReason: "invalid_upto_svm_settle_amount",
+      network: payload.network,
+      transaction: "",
+    };
+  }
+
+  const paymentStore = config?.svmConfig?.paymentStore;
+  if (!paymentStore) {
+    return await settleTransaction(signer, payload, paymentRequirements, settleAmount, config);
+  }
+
+  let signature: string;
+  try {
+    const decodedTransaction = decodeTransactionFromPayload(payload.payload as ExactSvmPayload);
+    signature = await getFeePayerSignature(signer, decodedTransaction);
+  } catch {
+    return {
+      success: false,
+      errorReason: "invalid_exact_svm_payload_transaction",
+      network: payload.network,
+      transaction: "",
+    };
+  }
+
+  return await settleWithPaymentStore(
+    paymentStore,
+    signature,
+    payload.network,
+    "settle_upto_svm_transaction_confirmation_timed_out",
+    () => settleTransaction(signer, payload, paymentRequirements, settleAmount, config),
+  );
+}
+
+/**
+ * Verify and submit the approve transaction, then transfer the settle amount to the payee.
+ *
+ * @param signer - The signer that will sign the transactions
+ * @param payload - The payment payload to settle
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param settleAmount - The amount of the asset to transfer to the payee
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse indicating if the payment is settled and any error reason
+ */
+async function settleTransaction(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  settleAmount: bigint,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+  const rpcSubscriptions = getRpcSubscriptions(
+    paymentRequirements.network,
+    config?.svmConfig?.rpcUrl,
+  );
+
+  // an approval that landed in an earlier settlement cannot be simulated or submitted again
+  const approved = await isApprovalConfirmed(signer, payload, rpc);
+  const verifyResponse = approved
+    ? await verifyApprovedPayment(signer, payload, paymentRequirements, config)
+    : await verify(signer, payload, paymentRequirements, config);
+  if (!verifyResponse.isValid) {
+    return {
+      success: false,
+      errorReason: verifyResponse.invalidReason,
+      network: payload.network,
+      transaction: "",
+    };
+  }
+
+  const svmPayload = payload.payload as ExactSvmPayload;
+  const decodedTransaction = decodeTransactionFromPayload(svmPayload);
+  const signedApproveTransaction = await signTransaction([signer.keyPair], decodedTransaction);
+  const payer = getTokenPayerFromTransaction(decodedTransaction);
+
+  // nothing is charged, so the approval is not submitted and nothing is delegated
+  if (settleAmount === 0n) {
+    return {
+      success: true,
+      payer,
+      transaction: "",
+      network: payload.network,
+    };
+  }
+
+  const approveInstruction = getApproveInstruction(decodedTransaction);
+  let transaction = getSignatureFromTransaction(signedApproveTransaction);
+  try {
+    if (approved) {
+      // the allowance of an earlier settlement was transferred from if it is not intact
+      const { data: sourceAccount } = await fetchToken(
+        rpc,
+        approveInstruction.accounts.source.address,
+      );
+      if (
+        unwrapOption(sourceAccount.delegate) !== signer.address ||
+        sourceAccount.delegatedAmount !== approveInstruction.data.amount
+      ) {
+        return {
+          success: false,
+          errorReason: "invalid_upto_svm_payload_transaction_already_settled",
+          payer,
+          transaction,
+          network: payload.network,
+        };
+      }
+    } else {
+      // submit the approve transaction so that the facilitator becomes the delegate
+      const approveResult = await sendAndConfirmSignedTransaction(
+        signedApproveTransaction,
+        rpc,
+        rpcSubscriptions,
+      );
+      if (!approveResult.success) {
+        return {
+          success: false,
+          errorReason: approveResult.errorReason,
+          payer,
+          transaction,
+          network: payload.network,
+        };
+      }
+    }
+
+    // transfer the settle amount to the payee as the delegate
+    const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+    const signedTransferTransaction = await createSignedTransferTransaction(
+      signer,
+      approveInstruction,
+      paymentRequirements,
+      settleAmount,
+      latestBlockhash,
+    );
+    transaction = getSignatureFromTransaction(signedTransferTransaction);
+
+    const { success, errorReason, signature } = await sendAndConfirmSignedTransaction(
+      signedTransferTransaction,
+      rpc,
+      rpcSubscriptions,
+    );
+
+    return {
+      success,
+      errorReason,
+      payer,
+      transaction: signature,
+      network: payload.network,
+    };
+  } catch (error) {
+    console.error("Unexpected error during transaction settlement:", error);
+    return {
+      success: false,
+      errorReason: "unexpected_settle_error",
+      network: payload.network,
+      transaction,
+      payer,
+    };
+  }
+}
+
+/**
+ * Check whether the approve transaction of the payment has already landed on chain.
+ *
+ * @param signer - The fee payer that signs the approve transaction
+ * @param payload - The payment payload to settle
+ * @param rpc - The RPC client to look up the transaction with
+ * @returns True if the approve transaction is confirmed, false if it is not or cannot be looked up
+ */
+async function isApprovalConfirmed(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  rpc: ReturnType<typeof getRpcClient>,
+): Promise<boolean> {
+  try {
+    const decodedTransaction = decodeTransactionFromPayload(payload.payload as ExactSvmPayload);
+    const signature = await getFeePayerSignature(signer, decodedTransaction);
+    const {
+      value: [status],
+    } = await rpc
+      .getSignatureStatuses([signature as Signature], { searchTransactionHistory: true })
+      .send();
+    return (
+      status !== null &&
+      !status.err &&
+      (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized")
+    );
+  } catch {
+    // the transaction is verified and simulated as a new approval, which fails if it landed
+    return false;
+  }
+}
+
+/**
+ * Get the approve checked instruction of the client's approve transaction.
+ *
+ * @param approveTransaction - The client's approve transaction
+ * @returns The parsed approve checked instruction
+ */
+function getApproveInstruction(approveTransaction: Transaction) {
+  const compiledTransactionMessage = getCompiledTransactionMessageDecoder().decode(
+    approveTransaction.messageBytes,
+  );
+  const transactionMessage = decompileTransactionMessage(compiledTransactionMessage);
+  return getValidatedApproveCheckedInstruction(transactionMessage.instructions[2]);
+}
+
+/**
+ * Get the amount to settle from the payment requirements.
+ *
+ * @param paymentRequirements - The payment requirements to settle against
+ * @returns The amount to settle, or undefined if it exceeds `maxAmountRequired`
+ */
+function getSettleAmount(paymentRequirements: PaymentRequirements): bigint | undefined {
+  const extra = UptoSvmExtraSchema.safeParse(paymentRequirements.extra);
+  if (!extra.success) {
+    return undefined;
+  }
+
+  const maxAmountRequired = BigInt(paymentRequirements.maxAmountRequired);
+  const settleAmount =
+    extra.data.settleAmount === undefined ? maxAmountRequired : BigInt(extra.data.settleAmount);
+  if (settleAmount < 0n || settleAmount > maxAmountRequired) {
+    return undefined;
+  }
+
+  return settleAmount;
+}
+
+/**
+ * Create a transfer transaction, signed by the facilitator as both the fee payer and the delegate,
+ * that moves the settle amount from the client's token account to the payee.
+ *
+ * @param signer - The facilitator signer that was approved as the delegate
+ * @param approveInstruction - The approve checked instruction of the client's approve transaction
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param settleAmount - The amount of the asset to transfer to the payee
+ * @param latestBlockhash - The blockhash to use as the lifetime of the transfer transaction
+ * @returns The signed transfer transaction
+ */
+async function createSignedTransferTransaction(
+  signer: KeyPairSigner,
+  approveInstruction: ReturnType<typeof getApproveInstruction>,
+  paymentRequirements: PaymentRequirements,
+  settleAmount: bigint,
+  latestBlockhash: Parameters<typeof setTransactionMessageLifetimeUsingBlockhash>[0],
+) {
+  const [destinationATA] = await findAssociatedTokenPda({
+    mint: paymentRequirements.asset as Address,
+    owner: paymentRequirements.payTo as Address,
+    tokenProgram: approveInstruction.programAddress,
+  });
+
+  const transferInstruction = getTransferCheckedInstruction(
+    {
+      source: approveInstruction.accounts.source.address,
+      mint: approveInstruction.accounts.mint.address,
+      destination: destinationATA,
+      authority: signer,
+      amount: settleAmount,
+      decimals: approveInstruction.data.decimals,
+    },
+    { programAddress: approveInstruction.programAddress },
+  );
+
+  const transferTransactionMessage = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageFeePayerSigner(signer, tx),
+    tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+    tx => appendTransactionMessageInstruction(transferInstruction, tx),
+  );
+
+  return await signTransactionMessageWithSigners(transferTransactionMessage);
+}
@@ -0,0 +1,361 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Address,
+  appendTransactionMessageInstructions,
+  Blockhash,
+  createTransactionMessage,
+  fetchEncodedAccounts,
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  Instruction,
+  KeyPairSigner,
+  partiallySignTransactionMessageWithSigners,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+} from "@solana/kit";
+import { getApproveCheckedInstruction, getTransferCheckedInstruction } from "@solana-program/token";
+import { TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import {
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+} from "@solana-program/compute-budget";
+import { PaymentPayload, PaymentRequirements } from "../../../../types/verify";
+import * as rpc from "../../../../shared/svm/rpc";
+import { createInMemoryPaymentStore } from "../../../../shared/svm/paymentStore";
+import { getFeePayerSignature, decodeTransactionFromPayload } from "../../../../shared/svm";
+import { fetchMintDecimals } from "../../../../shared/svm/mint";
+import { verify, verifyApprovedPayment } from "./verify";
+
+vi.mock("@solana/kit", async () => {
+  const actual = await vi.importActual("@solana/kit");
+  return {
+    ...actual,
+    fetchEncodedAccounts: vi.fn(),
+  };
+});
+
+vi.mock("../../../../shared/svm/mint", () => ({
+  fetchMintDecimals: vi.fn(),
+}));
+
+describe("upto verify", () => {
+  let facilitator: KeyPairSigner;
+  let client: KeyPairSigner;
+  let asset: Address;
+  let payTo: Address;
+  let blockhash: Blockhash;
+  let paymentRequirements: PaymentRequirements;
+  const mockRpcClient = {
+    simulateTransaction: vi.fn(),
+  };
+
+  const createPayload = async (approveInstruction?: Instruction, instructions?: Instruction[]) => {
+    const approve =
+      approveInstruction ??
+      getApproveCheckedInstruction({
+        source: (await generateKeyPairSigner()).address,
+        mint: asset,
+        delegate: facilitator.address,
+        owner: client,
+        amount: 1000n,
+        decimals: 6,
+      });
+    const transactionMessage = pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayer(facilitator.address, tx),
+      tx =>
+        setTransactionMessageLifetimeUsingBlockhash({ blockhash, lastValidBlockHeight: 1n }, tx),
+      tx =>
+        appendTransactionMessageInstructions(
+          instructions ?? [
+            getSetComputeUnitLimitInstruction({ units: 10000 }),
+            getSetComputeUnitPriceInstruction({ microLamports: 1 }),
+            approve,
+          ],
+          tx,
+        ),
+    );
+    const signedTransaction = await partiallySignTransactionMessageWithSigners(transactionMessage);
+    return {
+      scheme: "upto",
+      network: "solana-devnet",
+      x402Version: 1,
+      payload: { transaction: getBase64EncodedWireTransaction(signedTransaction) },
+    } as PaymentPayload;
+  };
+
+  beforeAll(async () => {
+    facilitator = await generateKeyPairSigner();
+    client = await generateKeyPairSigner();
+    asset = (await generateKeyPairSigner()).address;
+    payTo = (await generateKeyPairSigner()).address;
+    blockhash = (await generateKeyPairSigner()).address as unknown as Blockhash;
+    paymentRequirements = {
+      scheme: "upto",
+      network: "solana-devnet",
+      payTo,
+      asset,
+      maxAmountRequired: "1000",
+      resource: "http://example.com/resource",
+      description: "Test description",
+      mimeType: "text/plain",
+      maxTimeoutSeconds: 60,
+      extra: { feePayer: facilitator.address },
+    };
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(rpc, "getRpcClient").mockReturnValue(mockRpcClient as any);
+    vi.mocked(fetchEncodedAccounts).mockResolvedValue([{ exists: true }, { exists: true }] as any);
+    vi.mocked(fetchMintDecimals).mockResolvedValue(6);
+    mockRpcClient.simulateTransaction.mockReturnValue({
+      send: vi.fn().mockResolvedValue({ value: { err: null } }),
+    });
+  });
+
+  it("should return isValid: true for a valid approve transaction", async () => {
+    const result = await verify(facilitator, await createPayload(), paymentRequirements);
+
+    expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: client.address });
+  });
+
+  it("should return isValid: false for an exact payload", async () => {
+    const payload = { ...(await createPayload()), scheme: "exact" } as PaymentPayload;
+
+    const result = await verify(facilitator, payload, paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("unsupported_scheme");
+  });
+
+  it("should return isValid: false if the facilitator is not the fee payer", async () => {
+    const result = await verify(facilitator, await createPayload(), {
+      ...paymentRequirements,
+      extra: { feePayer: client.address },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("invalid_payment_requirements");
+  });
+
+  it("should return isValid: false if the transaction has the wrong number of instructions", async () => {
+    const payload = await createPayload(undefined, [
+      getSetComputeUnitLimitInstruction({ units: 10000 }),
+      getSetComputeUnitPriceInstruction({ microLamports: 1 }),
+    ]);
+
+    const result = await verify(facilitator, payload, paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("invalid_upto_svm_payload_transaction_instructions_length");
+  });
+
+  it("should return isValid: false if the third instruction is not an approve instruction", async () => {
+    const transfer = getTransferCheckedInstruction({
+      source: (await generateKeyPairSigner()).address,
+      mint: asset,
+      destination: (await generateKeyPairSigner()).address,
+      authority: client,
+      amount: 1000n,
+      decimals: 6,
+    });
+
+    const result = await verify(facilitator, await createPayload(transfer), paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("invalid_upto_svm_payload_transaction_approve_instruction");
+  });
+
+  it("should return isValid: false if the approval is for another asset", async () => {
+    const approve = getApproveCheckedInstruction({
+      source: (await generateKeyPairSigner()).address,
+      mint: (await generateKeyPairSigner()).address,
+      delegate: facilitator.address,
+      owner: client,
+      amount: 1000n,
+      decimals: 6,
+    });
+
+    const result = await verify(facilitator, await createPayload(approve), paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_upto_svm_payload_transaction_approve_incorrect_asset",
+    );
+  });
+
+  it("should return isValid: false if the delegate is not the facilitator", async () => {
+    const approve = getApproveCheckedInstruction({
+      source: (await generateKeyPairSigner()).address,
+      mint: asset,
+      delegate: payTo,
+      owner: client,
+      amount: 1000n,
+      decimals: 6,
+    });
+
+    const result = await verify(facilitator, await createPayload(approve), paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_upto_svm_payload_transaction_approve_incorrect_delegate",
+    );
+  });
+
+  it("should return isValid: false if the approved amount is not the maximum amount", async () => {
+    const approve = getApproveCheckedInstruction({
+      source: (await generateKeyPairSigner()).address,
+      mint: asset,
+      delegate: facilitator.address,
+      owner: client,
+      amount: 999n,
+      decimals: 6,
+    });
+
+    const result = await verify(facilitator, await createPayload(approve), paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_upto_svm_payload_transaction_approve_amount_mismatch",
+    );
+  });
+
+  it("should return isValid: false if the approved decimals do not match the mint", async () => {
+    vi.mocked(fetchMintDecimals).mockResolvedValue(9);
+
+    const result = await verify(facilitator, await createPayload(), paymentRequirements);
+
+    expect(fetchMintDecimals).toHaveBeenCalledWith("solana-devnet", asset, mockRpcClient);
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_upto_svm_payload_transaction_approve_decimals_mismatch",
+    );
+  });
+
+  it("should return isValid: false if the decimals of the payment requirements do not match the mint", async () => {
+    const result = await verify(facilitator, await createPayload(), {
+      ...paymentRequirements,
+      extra: { feePayer: facilitator.address, decimals: 9 },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_upto_svm_payload_transaction_approve_decimals_mismatch",
+    );
+  });
+
+  it("should return isValid: false if the transaction breaches the facilitator policy", async () => {
+    const payload = await createPayload();
+
+    const limitResult = await verify(facilitator, payload, paymentRequirements, {
+      svmConfig: { facilitatorPolicy: { maxComputeUnitLimit: 5000 } },
+    });
+    const feeResult = await verify(facilitator, payload, paymentRequirements, {
+      svmConfig: { facilitatorPolicy: { maxTotalFee: 9999 } },
+    });
+
+    expect(limitResult.invalidReason).toBe(
+      "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high",
+    );
+    expect(feeResult.invalidReason).toBe("invalid_exact_svm_payload_transaction_fee_too_high");
+  });
+
+  it("should count the fee of the transfer transaction against the maximum total fee", async () => {
+    const payload = await createPayload();
+
+    // two signatures and a priority fee of 1 lamport, plus the signature of the transfer
+    const belowResult = await verify(facilitator, payload, paymentRequirements, {
+      svmConfig: { facilitatorPolicy: { maxTotalFee: 15000 } },
+    });
+    const atResult = await verify(facilitator, payload, paymentRequirements, {
+      svmConfig: { facilitatorPolicy: { maxTotalFee: 15001 } },
+    });
+
+    expect(belowResult.invalidReason).toBe("invalid_exact_svm_payload_transaction_fee_too_high");
+    expect(atResult.isValid).toBe(true);
+  });
+
+  it("should return isValid: false if the receiver ATA does not exist", async () => {
+    vi.mocked(fetchEncodedAccounts).mockResolvedValue([
+      { exists: true },
+      { exists: false, address: "receiverATA" },
+    ] as any);
+
+    const result = await verify(facilitator, await createPayload(), paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_exact_svm_payload_transaction_receiver_ata_not_found",
+    );
+  });
+
+  it("should return isValid: false if the simulation fails", async () => {
+    mockRpcClient.simulateTransaction.mockReturnValue({
+      send: vi.fn().mockResolvedValue({ value: { err: "InsufficientFunds" } }),
+    });
+
+    const result = await verify(facilitator, await createPayload(), paymentRequirements);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("invalid_exact_svm_payload_transaction_simulation_failed");
+    expect(result.payer).toBe(client.address);
+  });
+
+  it("should return isValid: false if the payment was already settled", async () => {
+    const payload = await createPayload();
+    const paymentStore = createInMemoryPaymentStore();
+    const signature = await getFeePayerSignature(
+      facilitator,
+      decodeTransactionFromPayload(payload.payload as { transaction: string }),
+    );
+    await paymentStore.claim(signature);
+    await paymentStore.complete(signature, {
+      success: true,
+      transaction: "transferSignature",
+      network: "solana-devnet",
+    });
+
+    const result = await verify(facilitator, payload, paymentRequirements, {
+      svmConfig: { paymentStore },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("invalid_upto_svm_payload_transaction_already_settled");
+  });
+
+  it("should not simulate an approval that already landed", async () => {
+    mockRpcClient.simulateTransaction.mockReturnValue({
+      send: vi.fn().mockResolvedValue({ value: { err: "AlreadyProcessed" } }),
+    });
+
+    const result = await verifyApprovedPayment(
+      facilitator,
+      await createPayload(),
+      paymentRequirements,
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(mockRpcClient.simulateTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should return isValid: true for a token-2022 approval", async () => {
+    const approve = getApproveCheckedInstruction(
+      {
+        source: (await generateKeyPairSigner()).address,
+        mint: asset,
+        delegate: facilitator.address,
+        owner: client,
+        amount: 1000n,
+        decimals: 6,
+      },
+      { programAddress: TOKEN_2022_PROGRAM_ADDRESS },
+    );
+
+    const result = await verify(facilitator, await createPayload(approve), paymentRequirements);
+
+    expect(result.isValid).toBe(true);
+  });
+});
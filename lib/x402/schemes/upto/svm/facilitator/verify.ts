@@ -0,0 +1,348 @@
+import {
+  VerifyResponse,
+  PaymentPayload,
+  PaymentRequirements,
+  ExactSvmPayload,
+  ErrorReasons,
+  UptoSvmExtraSchema,
+} from "../../../../types/verify/index.js";
+import { FacilitatorPolicy, X402Config } from "../../../../types/config.js";
+import {
+  Address,
+  assertIsInstructionWithAccounts,
+  assertIsInstructionWithData,
+  CompilableTransactionMessage,
+  decompileTransactionMessage,
+  fetchEncodedAccounts,
+  getCompiledTransactionMessageDecoder,
+  KeyPairSigner,
+  SolanaRpcApiDevnet,
+  SolanaRpcApiMainnet,
+  RpcDevnet,
+  RpcMainnet,
+  Instruction,
+  AccountLookupMeta,
+  AccountMeta,
+} from "@solana/kit";
+import {
+  findAssociatedTokenPda,
+  identifyToken2022Instruction,
+  parseApproveCheckedInstruction as parseApproveCheckedInstruction2022,
+  Token2022Instruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import {
+  identifyTokenInstruction,
+  parseApproveCheckedInstruction as parseApproveCheckedInstructionToken,
+  TOKEN_PROGRAM_ADDRESS,
+  TokenInstruction,
+} from "@solana-program/token";
+import {
+  decodeTransactionFromPayload,
+  signAndSimulateTransaction,
+  getTokenPayerFromTransaction,
+  fetchMintDecimals,
+} from "../../../../shared/svm/index.js";
+import { getRpcClient } from "../../../../shared/svm/rpc.js";
+import {
+  LAMPORTS_PER_SIGNATURE,
+  verifyComputeLimitInstruction,
+  verifyComputePriceInstruction,
+  verifyTransactionFee,
+  verifySchemesAndNetworks,
+  verifyTransactionNotSettled,
+} from "../../../exact/svm/facilitator/verify.js";
+import { SCHEME } from "../../index.js";
+
+/**
+ * Verify the upto payment payload against the payment requirements.
+ * A valid payload is a transaction that approves the facilitator as a delegate of the
+ * client's token account for exactly `maxAmountRequired` of the asset.
+ *
+ * @param signer - The signer that will sign and simulate the transaction
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<VerifyResponse> {
+  return await verifyPayment(signer, payload, paymentRequirements, config, true);
+}
+
+/**
+ * Verify an upto payment whose approve transaction already landed in an earlier settlement.
+ * The approval is checked against the payment requirements like in `verify`, but it is not
+ * simulated, since a transaction that was processed cannot be simulated again.
+ *
+ * @param signer - The signer that submitted the approve transaction
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verifyApprovedPayment(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<VerifyResponse> {
+  return await verifyPayment(signer, payload, paymentRequirements, config, false);
+}
+
+/**
+ * Verify the upto payment payload against the payment requirements, simulating the approve
+ * transaction unless it already landed.
+ *
+ * @param signer - The signer that will sign and simulate the transaction
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param simulate - Whether to simulate the approve transaction
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+async function verifyPayment(
+  signer: KeyPairSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config: X402Config | undefined,
+  simulate: boolean,
+): Promise<VerifyResponse> {
+  try {
+    // verify that the scheme and network are supported
+    verifySchemesAndNetworks(payload, paymentRequirements, SCHEME);
+
+    // verify that the facilitator is the fee payer and delegate of the payment
+    const extra = UptoSvmExtraSchema.safeParse(paymentRequirements.extra);
+    if (!extra.success || extra.data.feePayer !== signer.address) {
+      throw new Error("invalid_payment_requirements");
+    }
+
+    // decode the base64 encoded transaction
+    const svmPayload = payload.payload as ExactSvmPayload;
+    const decodedTransaction = decodeTransactionFromPayload(svmPayload);
+    const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+
+    // reject transactions that the facilitator has already settled
+    await verifyTransactionNotSettled(
+      signer,
+      decodedTransaction,
+      config,
+      "invalid_upto_svm_payload_transaction_already_settled",
+    );
+
+    // validate the transaction structure and approval details
+    const compiledTransactionMessage = getCompiledTransactionMessageDecoder().decode(
+      decodedTransaction.messageBytes,
+    );
+    const transactionMessage: CompilableTransactionMessage = decompileTransactionMessage(
+      compiledTransactionMessage,
+    );
+    await verifyTransactionInstructions(
+      transactionMessage,
+      paymentRequirements,
+      rpc,
+      config?.svmConfig?.facilitatorPolicy,
+    );
+
+    // simulate the transaction to ensure it will execute successfully
+    if (simulate) {
+      const simulateResult = await signAndSimulateTransaction(signer, decodedTransaction, rpc);
+      if (simulateResult.value?.err) {
+        throw new Error(`invalid_exact_svm_payload_transaction_simulation_failed`);
+      }
+    }
+
+    return {
+      isValid: true,
+      invalidReason: undefined,
+      payer: getTokenPayerFromTransaction(decodedTransaction),
+    };
+  } catch (error) {
+    const payer = (() => {
+      try {
+        const tx = decodeTransactionFromPayload(payload.payload as ExactSvmPayload);
+        return getTokenPayerFromTransaction(tx);
+      } catch {
+        return undefined;
+      }
+    })();
+
+    // if the error is one of the known error reasons, return the error reason
+    if (
+      error instanceof Error &&
+      ErrorReasons.includes(error.message as (typeof ErrorReasons)[number])
+    ) {
+      return {
+        isValid: false,
+        invalidReason: error.message as (typeof ErrorReasons)[number],
+        payer,
+      };
+    }
+
+    // if the error is not one of the known error reasons, return an unexpected error reason
+    console.error(error);
+    return {
+      isValid: false,
+      invalidReason: "unexpected_verify_error",
+      payer,
+    };
+  }
+}
+
+/**
+ * Verify that the transaction contains the expected instructions:
+ * a compute limit, a compute price and an approve checked instruction.
+ *
+ * @param transactionMessage - The transaction message to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param rpc - The RPC client to use for verifying account existence and fetching the mint
+ * @param policy - Optional limits that the facilitator enforces on the transaction
+ * @throws Error if the transaction does not contain the expected instructions
+ */
+export async function verifyTransactionInstructions(
+  transactionMessage: CompilableTransactionMessage,
+  paymentRequirements: PaymentRequirements,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  policy?: FacilitatorPolicy,
+) {
+  if (transactionMessage.instructions.length !== 3) {
+    throw new Error(`invalid_upto_svm_payload_transaction_instructions_length`);
+  }
+
+  const computeUnitLimit = verifyComputeLimitInstruction(
+    transactionMessage.instructions[0],
+    policy,
+  );
+  const computeUnitPrice = verifyComputePriceInstruction(
+    transactionMessage.instructions[1],
+    policy,
+  );
+  // the facilitator also pays the fee of the transfer transaction, which only it signs
+  verifyTransactionFee(
+    transactionMessage,
+    computeUnitLimit,
+    computeUnitPrice,
+    policy,
+    LAMPORTS_PER_SIGNATURE,
+  );
+  await verifyApproveInstruction(transactionMessage.instructions[2], paymentRequirements, rpc);
+}
+
+/**
+ * Verify that the approve instruction delegates exactly `maxAmountRequired` of the asset
+ * to the fee payer, and that the tokens can be transferred to the payee.
+ *
+ * @param instruction - The approve instruction to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param rpc - The RPC client to use for verifying account existence and fetching the mint
+ * @throws Error if the approve instruction is invalid
+ */
+export async function verifyApproveInstruction(
+  instruction: Instruction<
+    string,
+    readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
+  >,
+  paymentRequirements: PaymentRequirements,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+) {
+  const approveInstruction = getValidatedApproveCheckedInstruction(instruction);
+
+  // verify that the approval is for the expected asset
+  if (approveInstruction.accounts.mint.address !== paymentRequirements.asset) {
+    throw new Error(`invalid_upto_svm_payload_transaction_approve_incorrect_asset`);
+  }
+
+  // verify that the facilitator is approved as the delegate
+  if (approveInstruction.accounts.delegate.address !== paymentRequirements.extra?.feePayer) {
+    throw new Error(`invalid_upto_svm_payload_transaction_approve_incorrect_delegate`);
+  }
+
+  // verify that the approved amount is the maximum amount required
+  if (approveInstruction.data.amount !== BigInt(paymentRequirements.maxAmountRequired)) {
+    throw new Error(`invalid_upto_svm_payload_transaction_approve_amount_mismatch`);
+  }
+
+  // verify that the approval and the payment requirements use the decimals of the mint
+  const mintDecimals = await fetchMintDecimals(
+    paymentRequirements.network,
+    paymentRequirements.asset as Address,
+    rpc,
+  );
+  const requiredDecimals = paymentRequirements.extra?.decimals;
+  if (
+    approveInstruction.data.decimals !== mintDecimals ||
+    (requiredDecimals !== undefined && requiredDecimals !== mintDecimals)
+  ) {
+    throw new Error(`invalid_upto_svm_payload_transaction_approve_decimals_mismatch`);
+  }
+
+  // verify that the source and destination ATAs exist
+  const tokenProgramAddress =
+    approveInstruction.programAddress.toString() === TOKEN_PROGRAM_ADDRESS.toString()
+      ? TOKEN_PROGRAM_ADDRESS
+      : TOKEN_2022_PROGRAM_ADDRESS;
+  const [payToATA] = await findAssociatedTokenPda({
+    mint: paymentRequirements.asset as Address,
+    owner: paymentRequirements.payTo as Address,
+    tokenProgram: tokenProgramAddress,
+  });
+  const sourceATA = approveInstruction.accounts.source.address;
+  const maybeAccounts = await fetchEncodedAccounts(rpc, [sourceATA, payToATA]);
+  for (const missingAccount of maybeAccounts.filter(a => !a.exists)) {
+    if (missingAccount.address === sourceATA) {
+      throw new Error(`invalid_exact_svm_payload_transaction_sender_ata_not_found`);
+    }
+    throw new Error(`invalid_exact_svm_payload_transaction_receiver_ata_not_found`);
+  }
+}
+
+/**
+ * Inspect the instruction to make sure that it is a valid approve checked instruction
+ * of the spl-token or token-2022 program.
+ *
+ * @param instruction - The instruction to get the approve checked instruction from
+ * @returns The validated and parsed approve checked instruction
+ * @throws Error if the instruction is not a valid approve checked instruction
+ */
+export function getValidatedApproveCheckedInstruction(
+  instruction: Instruction<
+    string,
+    readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
+  >,
+) {
+  try {
+    assertIsInstructionWithData(instruction);
+    assertIsInstructionWithAccounts(instruction);
+
+    // spl-token program
+    if (
+      instruction.programAddress.toString() === TOKEN_PROGRAM_ADDRESS.toString() &&
+      identifyTokenInstruction(instruction) === TokenInstruction.ApproveChecked
+    ) {
+      return parseApproveCheckedInstructionToken({
+        ...instruction,
+        data: new Uint8Array(instruction.data),
+      });
+    }
+
+    // token-2022 program
+    if (
+      instruction.programAddress.toString() === TOKEN_2022_PROGRAM_ADDRESS.toString() &&
+      identifyToken2022Instruction(instruction) === Token2022Instruction.ApproveChecked
+    ) {
+      return parseApproveCheckedInstruction2022({
+        ...instruction,
+        data: new Uint8Array(instruction.data),
+      });
+    }
+  } catch (error) {
+    console.error(error);
+  }
+
+  throw new Error(`invalid_upto_svm_payload_transaction_approve_instruction`);
+}
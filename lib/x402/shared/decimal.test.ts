@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { compareDecimals, formatAtomicAmount, normalizeDecimal, toAtomicAmount } from "./decimal";
+
+describe("normalizeDecimal", () => {
+  it.each([
+    ["0010.500", "10.5"],
+    [".5", "0.5"],
+    ["5.", "5"],
+    ["+1.0", "1"],
+    ["-0.0", "0"],
+    ["-1.25", "-1.25"],
+    ["1e-7", "0.0000001"],
+    ["1.5E3", "1500"],
+    [1e-7, "0.0000001"],
+    [0.1 + 0.2, "0.30000000000000004"],
+    [123456789, "123456789"],
+  ])("should normalize %s to %s", (value, expected) => {
+    expect(normalizeDecimal(value)).toBe(expected);
+  });
+
+  it.each(["", ".", "abc", "1.2.3", "1e", Number.NaN, Number.POSITIVE_INFINITY])(
+    "should throw for %s",
+    value => {
+      expect(() => normalizeDecimal(value)).toThrow("Invalid decimal");
+    },
+  );
+});
+
+describe("compareDecimals", () => {
+  it("should compare decimals with different scales", () => {
+    expect(compareDecimals("0.1", "0.10")).toBe(0);
+    expect(compareDecimals("0.0000001", 0)).toBe(1);
+    expect(compareDecimals("999999999.000000001", 999999999)).toBe(1);
+    expect(compareDecimals("-1", "0.5")).toBe(-1);
+  });
+});
+
+describe("toAtomicAmount", () => {
+  it("should convert without floating point errors", () => {
+    expect(toAtomicAmount("0.01", 6)).toBe("10000");
+    expect(toAtomicAmount(0.07, 6)).toBe("70000");
+    expect(toAtomicAmount("1.1", 9)).toBe("1100000000");
+    expect(toAtomicAmount("123.456", 18)).toBe("123456000000000000000");
+    expect(toAtomicAmount("5", 0)).toBe("5");
+  });
+
+  it("should convert sub-cent amounts", () => {
+    expect(toAtomicAmount("0.000001", 6)).toBe("1");
+    expect(toAtomicAmount("0.000000001", 9)).toBe("1");
+  });
+
+  it("should throw if the amount has more decimal places than the asset in exact mode", () => {
+    expect(() => toAtomicAmount("0.0000001", 6)).toThrow(
+      "Amount 0.0000001 has more than 6 decimal places",
+    );
+  });
+
+  it.each([
+    ["down", "1.0000015", "1000001"],
+    ["up", "1.0000011", "1000002"],
+    ["half-up", "1.0000015", "1000002"],
+    ["half-up", "1.0000014", "1000001"],
+    ["half-even", "1.0000015", "1000002"],
+    ["half-even", "1.0000025", "1000002"],
+    ["half-even", "1.00000251", "1000003"],
+  ] as const)("should round %s %s to %s", (rounding, value, expected) => {
+    expect(toAtomicAmount(value, 6, rounding)).toBe(expected);
+  });
+
+  it("should throw for negative amounts", () => {
+    expect(() => toAtomicAmount("-1", 6)).toThrow("Amount must not be negative");
+  });
+
+  it.each([-1, 19, 1.5])("should throw for %s decimals", decimals => {
+    expect(() => toAtomicAmount("1", decimals)).toThrow(
+      "Decimals must be an integer between 0 and 18",
+    );
+  });
+});
+
+describe("formatAtomicAmount", () => {
+  it("should format atomic amounts as decimals", () => {
+    expect(formatAtomicAmount("10000", 6)).toBe("0.01");
+    expect(formatAtomicAmount("1", 9)).toBe("0.000000001");
+    expect(formatAtomicAmount(1500000n, 6)).toBe("1.5");
+    expect(formatAtomicAmount("0", 6)).toBe("0");
+    expect(formatAtomicAmount("42", 0)).toBe("42");
+  });
+
+  it("should round trip with toAtomicAmount", () => {
+    const amount = "123456789.123456789123456789";
+    expect(formatAtomicAmount(toAtomicAmount(amount, 18, "down"), 18)).toBe(
+      "123456789.123456789123456789",
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * How a decimal amount is rounded when it has more decimal places than the asset supports
+ *
+ * - `exact` throws instead of rounding
+ * - `down` rounds towards zero
+ * - `up` rounds away from zero
+ * - `half-up` rounds to the nearest value, and away from zero on a tie
+ * - `half-even` rounds to the nearest value, and to the even value on a tie
+ */
+export type RoundingMode = "exact" | "down" | "up" | "half-up" | "half-even";
+
+/**
+ * The maximum number of decimals of an asset that amounts can be converted for
+ */
+export const MAX_DECIMALS = 18;
+
+const DecimalRegex = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * A decimal split into its sign, integer digits and fraction digits
+ */
+type DecimalParts = {
+  negative: boolean;
+  integer: string;
+  fraction: string;
+};
+
+/**
+ * Parses a decimal string or number into its parts, without going through floating point math
+ *
+ * @param value - The decimal to parse, e.g. "0.01", "1e-7" or 0.0000001
+ * @returns The sign, integer digits and fraction digits of the decimal
+ */
+function parseDecimal(value: string | number): DecimalParts {
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+
+  const match = DecimalRegex.exec(String(value).trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+
+  const [, sign, integerDigits = "", fractionDigits = "", exponent = "0"] = match;
+  let digits = integerDigits + fractionDigits;
+  let point = integerDigits.length + Number(exponent);
+
+  // move the decimal point by the exponent, padding with zeros where it leaves the digits
+  if (point < 0) {
+    digits = "0".repeat(-point) + digits;
+    point = 0;
+  } else if (point > digits.length) {
+    digits = digits + "0".repeat(point - digits.length);
+  }
+
+  const integer = digits.slice(0, point).replace(/^0+/, "") || "0";
+  const fraction = digits.slice(point).replace(/0+$/, "");
+
+  return {
+    negative: sign === "-" && (integer !== "0" || fraction !== ""),
+    integer,
+    fraction,
+  };
+}
+
+/**
+ * Formats the parts of a decimal as a plain decimal string
+ *
+ * @param parts - The parts of the decimal
+ * @returns The decimal string
+ */
+function formatDecimal({ negative, integer, fraction }: DecimalParts): string {
+  return `${negative ? "-" : ""}${integer}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Validates the number of decimals of an asset
+ *
+ * @param decimals - The number of decimals to validate
+ */
+function assertValidDecimals(decimals: number) {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new Error(`Decimals must be an integer between 0 and ${MAX_DECIMALS}, got ${decimals}`);
+  }
+}
+
+/**
+ * Normalizes a decimal string or number into a plain decimal string without exponent notation,
+ * leading or trailing zeros
+ *
+ * @param value - The decimal to normalize, e.g. "0010.500" or 1e-7
+ * @returns The normalized decimal string, e.g. "10.5" or "0.0000001"
+ */
+export function normalizeDecimal(value: string | number): string {
+  return formatDecimal(parseDecimal(value));
+}
+
+/**
+ * Compares two decimals without going through floating point math
+ *
+ * @param a - The first decimal
+ * @param b - The second decimal
+ * @returns -1 if a is less than b, 1 if a is greater than b, and 0 if they are equal
+ */
+export function compareDecimals(a: string | number, b: string | number): -1 | 0 | 1 {
+  const left = parseDecimal(a);
+  const right = parseDecimal(b);
+  const scale = Math.max(left.fraction.length, right.fraction.length);
+
+  const toBigInt = ({ negative, integer, fraction }: DecimalParts) => {
+    const units = BigInt(integer + fraction.padEnd(scale, "0"));
+    return negative ? -units : units;
+  };
+
+  const difference = toBigInt(left) - toBigInt(right);
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+/**
+ * Converts a decimal amount into atomic units of an asset
+ *
+ * @param value - The decimal amount, e.g. "0.01"
+ * @param decimals - The number of decimals of the asset, up to 18
+ * @param rounding - How to round an amount with more decimal places than the asset supports
+ * @returns The amount in atomic units as an integer string, e.g. "10000" for 6 decimals
+ */
+export function toAtomicAmount(
+  value: string | number,
+  decimals: number,
+  rounding: RoundingMode = "exact",
+): string {
+  assertValidDecimals(decimals);
+
+  const { negative, integer, fraction } = parseDecimal(value);
+  if (negative) {
+    throw new Error(`Amount must not be negative, got ${value}`);
+  }
+
+  const units = BigInt(integer + fraction.slice(0, decimals).padEnd(decimals, "0"));
+  const remainder = fraction.slice(decimals);
+  if (!remainder) {
+    return units.toString();
+  }
+
+  // the remainder has no trailing zeros, so it is exactly half a unit when it is "5"
+  const firstDigit = Number(remainder[0]);
+  const isTie = remainder === "5";
+  let roundUp: boolean;
+  switch (rounding) {
+    case "exact":
+      throw new Error(`Amount ${value} has more than ${decimals} decimal places`);
+    case "down":
+      roundUp = false;
+      break;
+    case "up":
+      roundUp = true;
+      break;
+    case "half-up":
+      roundUp = firstDigit >= 5;
+      break;
+    case "half-even":
+      roundUp = isTie ? units % 2n === 1n : firstDigit >= 5;
+      break;
+  }
+
+  return (roundUp ? units + 1n : units).toString();
+}
+
+/**
+ * Formats an amount in atomic units of an asset as a decimal amount, e.g. for display
+ *
+ * @param amount - The amount in atomic units, e.g. "10000"
+ * @param decimals - The number of decimals of the asset, up to 18
+ * @returns The decimal amount, e.g. "0.01" for 6 decimals
+ */
+export function formatAtomicAmount(amount: string | bigint, decimals: number): string {
+  assertValidDecimals(decimals);
+
+  const units = BigInt(amount);
+  const digits = (units < 0n ? -units : units).toString().padStart(decimals + 1, "0");
+
+  return formatDecimal({
+    negative: units < 0n,
+    integer: digits.slice(0, digits.length - decimals),
+    fraction: digits.slice(digits.length - decimals).replace(/0+$/, ""),
+  });
+}
@@ -3,4 +3,6 @@ export * from "./paywall.js";
 export * from "./base64.js";
 export * from "./network.js";
 export * from "./middleware.js";
+export * from "./decimal.js";
+export * from "./tokenRegistry.js";
 export * as svm from "./svm/index.js";
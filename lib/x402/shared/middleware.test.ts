@@ -1,12 +1,33 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import {
+  appendTransactionMessageInstructions,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getBase64EncodedWireTransaction,
+  partiallySignTransactionMessageWithSigners,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  type Address,
+  type Blockhash,
+} from "@solana/kit";
+import {
+  findAssociatedTokenPda,
+  getTransferCheckedInstruction,
+  TOKEN_PROGRAM_ADDRESS,
+} from "@solana-program/token";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { Network, PaymentPayload, PaymentRequirements, RoutesConfig } from "../types";
+import { authorizationTypes } from "../types/shared/evm";
+import {
+  buildPaymentRequirements,
   computeRoutePatterns,
+  findMatchingPaymentRequirements,
   findMatchingRoute,
   getDefaultAsset,
   processPriceToAtomicAmount,
-} from "x402/shared";
-import { RoutesConfig } from "./middleware";
-import { Network } from "./network";
+  resolveRouteConfig,
+} from "./middleware";
 
 describe("computeRoutePatterns", () => {
   it("should handle simple string price routes", () => {
@@ -153,6 +174,24 @@ describe("computeRoutePatterns", () => {
 
     expect(() => computeRoutePatterns(routes)).toThrow("Invalid route pattern: GET ");
   });
+
+  it("should handle an array of payment options", () => {
+    const routes: RoutesConfig = {
+      "/api/test": [
+        { price: "$0.01", network: "solana" },
+        { price: "$0.01", network: "base" },
+      ],
+    };
+
+    const patterns = computeRoutePatterns(routes);
+
+    expect(patterns[0].config).toEqual({
+      accepts: [
+        { price: "$0.01", network: "solana" },
+        { price: "$0.01", network: "base" },
+      ],
+    });
+  });
 });
 
 describe("findMatchingRoute", () => {
@@ -440,7 +479,513 @@ describe("processPriceToAtomicAmount", () => {
   it("should handle zero price", () => {
     const result = processPriceToAtomicAmount("$0", "base-sepolia");
     expect(result).toEqual({
-      error: expect.stringContaining("Number must be greater than or equal to 0.0001"),
+      error: expect.stringContaining("Must be greater than 0"),
+    });
+  });
+
+  it("should convert prices without floating point errors", () => {
+    expect(processPriceToAtomicAmount("$0.07", "base-sepolia")).toEqual(
+      expect.objectContaining({ maxAmountRequired: "70000" }),
+    );
+    expect(
+      processPriceToAtomicAmount("1.1", "solana", {
+        address: "So11111111111111111111111111111111111111112",
+        decimals: 9,
+        name: "Wrapped SOL",
+      }),
+    ).toEqual(expect.objectContaining({ maxAmountRequired: "1100000000" }));
+  });
+
+  it("should handle sub-cent prices", () => {
+    expect(processPriceToAtomicAmount("$0.000001", "base-sepolia")).toEqual(
+      expect.objectContaining({ maxAmountRequired: "1" }),
+    );
+    expect(processPriceToAtomicAmount(0.00000001, "base-sepolia")).toEqual(
+      expect.objectContaining({ maxAmountRequired: "1" }),
+    );
+  });
+
+  it("should round with the given rounding mode", () => {
+    expect(processPriceToAtomicAmount("0.0000014", "base-sepolia", undefined, "half-up")).toEqual(
+      expect.objectContaining({ maxAmountRequired: "1" }),
+    );
+    expect(processPriceToAtomicAmount("0.0000014", "base-sepolia", undefined, "exact")).toEqual({
+      error: expect.stringContaining("has more than 6 decimal places"),
+    });
+  });
+});
+
+describe("buildPaymentRequirements", () => {
+  const evmPayTo = "0x209693bc6afc0c5328ba36faf03c514ef312287c";
+  const svmPayTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+  const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+  const resourceUrl = "https://api.example.com/weather" as const;
+  const facilitatorSupported = vi.fn().mockResolvedValue({
+    kinds: [
+      { x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } },
+      { x402Version: 1, scheme: "upto", network: "solana-devnet", extra: { feePayer } },
+    ],
+  });
+
+  it("should build the payment requirements of an evm route", async () => {
+    const requirements = await buildPaymentRequirements({
+      payTo: evmPayTo,
+      routeConfig: { price: "$0.01", network: "base-sepolia" },
+      method: "get",
+      resourceUrl,
+      facilitatorSupported,
+    });
+
+    expect(requirements).toEqual([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "10000",
+        resource: resourceUrl,
+        description: "",
+        mimeType: "",
+        payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+        maxTimeoutSeconds: 60,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: { type: "http", method: "GET", discoverable: true },
+          output: undefined,
+        },
+        extra: { name: "USDC", version: "2", decimals: 6, symbol: "USDC" },
+      },
+    ]);
+    expect(facilitatorSupported).not.toHaveBeenCalled();
+  });
+
+  it("should look up the fee payer of an svm route from the facilitator", async () => {
+    const requirements = await buildPaymentRequirements({
+      payTo: svmPayTo,
+      routeConfig: { price: "$0.001", network: "solana-devnet", scheme: "upto" },
+      method: "POST",
+      resourceUrl,
+      facilitatorSupported,
+    });
+
+    expect(requirements).toEqual([
+      expect.objectContaining({
+        scheme: "upto",
+        network: "solana-devnet",
+        maxAmountRequired: "1000",
+        payTo: svmPayTo,
+        extra: { feePayer, decimals: 6, symbol: "USDC" },
+      }),
+    ]);
+  });
+
+  it("should not name the symbol of a token that the registry does not know", async () => {
+    const requirements = await buildPaymentRequirements({
+      payTo: svmPayTo,
+      routeConfig: {
+        price: {
+          amount: "1000000000",
+          asset: { address: "So11111111111111111111111111111111111111112", decimals: 9 },
+        },
+        network: "solana-devnet",
+      },
+      method: "GET",
+      resourceUrl,
+      facilitatorSupported,
+    });
+
+    expect(requirements[0].extra).toEqual({ feePayer, decimals: 9 });
+  });
+
+  it("should forward the maximum compute unit price advertised by the facilitator", async () => {
+    const requirements = await buildPaymentRequirements({
+      payTo: svmPayTo,
+      routeConfig: { price: "$0.001", network: "solana-devnet" },
+      method: "GET",
+      resourceUrl,
+      facilitatorSupported: vi.fn().mockResolvedValue({
+        kinds: [
+          {
+            x402Version: 1,
+            scheme: "exact",
+            network: "solana-devnet",
+            extra: { feePayer, maxComputeUnitPrice: "100000" },
+          },
+        ],
+      }),
+    });
+
+    expect(requirements[0].extra).toEqual({
+      feePayer,
+      decimals: 6,
+      symbol: "USDC",
+      maxComputeUnitPrice: "100000",
+    });
+  });
+
+  it("should apply the route config and its resource override", async () => {
+    const requirements = await buildPaymentRequirements({
+      payTo: svmPayTo,
+      routeConfig: {
+        price: "$0.001",
+        network: "solana-devnet",
+        config: {
+          description: "Weather data",
+          mimeType: "application/json",
+          maxTimeoutSeconds: 30,
+          resource: "https://cdn.example.com/weather",
+          discoverable: false,
+          inputSchema: { queryParams: { city: "string" } },
+          outputSchema: { type: "object" },
+        },
+      },
+      method: "GET",
+      resourceUrl,
+      facilitatorSupported,
+    });
+
+    expect(requirements[0]).toEqual(
+      expect.objectContaining({
+        resource: "https://cdn.example.com/weather",
+        description: "Weather data",
+        mimeType: "application/json",
+        maxTimeoutSeconds: 30,
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            discoverable: false,
+            queryParams: { city: "string" },
+          },
+          output: { type: "object" },
+        },
+      }),
+    );
+  });
+
+  it("should throw if the facilitator does not provide a fee payer", async () => {
+    await expect(
+      buildPaymentRequirements({
+        payTo: svmPayTo,
+        routeConfig: { price: "$0.001", network: "solana" },
+        method: "GET",
+        resourceUrl,
+        facilitatorSupported,
+      }),
+    ).rejects.toThrow("The facilitator did not provide a fee payer for network: solana.");
+  });
+
+  it("should throw if the scheme is not supported on an evm network", async () => {
+    await expect(
+      buildPaymentRequirements({
+        payTo: evmPayTo,
+        routeConfig: { price: "$0.01", network: "base-sepolia", scheme: "upto" },
+        method: "GET",
+        resourceUrl,
+        facilitatorSupported,
+      }),
+    ).rejects.toThrow("The upto scheme is not supported on network: base-sepolia");
+  });
+
+  it("should throw if the price is invalid", async () => {
+    await expect(
+      buildPaymentRequirements({
+        payTo: evmPayTo,
+        routeConfig: { price: "-$0.01", network: "base-sepolia" },
+        method: "GET",
+        resourceUrl,
+        facilitatorSupported,
+      }),
+    ).rejects.toThrow("Invalid price");
+  });
+});
+
+describe("buildPaymentRequirements with multiple payment options", () => {
+  const svmPayTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+  const customMint = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+  const feePayer = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd";
+
+  it("should emit one payment requirement for each option", async () => {
+    const facilitatorSupported = vi.fn().mockResolvedValue({
+      kinds: [{ x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } }],
+    });
+
+    const requirements = await buildPaymentRequirements({
+      payTo: svmPayTo,
+      routeConfig: {
+        accepts: [
+          { price: "$0.01", network: "solana-devnet" },
+          {
+            price: "$0.01",
+            network: "base-sepolia",
+            payTo: "0x209693bc6afc0c5328ba36faf03c514ef312287c",
+          },
+          {
+            price: { amount: "5000", asset: { address: customMint, decimals: 6 } },
+            network: "solana-devnet",
+          },
+        ],
+        config: { description: "Weather data" },
+      },
+      method: "GET",
+      resourceUrl: "https://api.example.com/weather",
+      facilitatorSupported,
+    });
+
+    expect(
+      requirements.map(({ network, payTo, asset, maxAmountRequired, description }) => ({
+        network,
+        payTo,
+        asset,
+        maxAmountRequired,
+        description,
+      })),
+    ).toEqual([
+      {
+        network: "solana-devnet",
+        payTo: svmPayTo,
+        asset: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+        maxAmountRequired: "10000",
+        description: "Weather data",
+      },
+      {
+        network: "base-sepolia",
+        payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        maxAmountRequired: "10000",
+        description: "Weather data",
+      },
+      {
+        network: "solana-devnet",
+        payTo: svmPayTo,
+        asset: customMint,
+        maxAmountRequired: "5000",
+        description: "Weather data",
+      },
+    ]);
+    expect(facilitatorSupported).toHaveBeenCalledOnce();
+  });
+
+  it("should throw if the route accepts no payment options", async () => {
+    await expect(
+      buildPaymentRequirements({
+        payTo: svmPayTo,
+        routeConfig: { accepts: [] },
+        method: "GET",
+        resourceUrl: "https://api.example.com/weather",
+        facilitatorSupported: vi.fn(),
+      }),
+    ).rejects.toThrow("The route must accept at least one payment option");
+  });
+});
+
+describe("findMatchingPaymentRequirements", () => {
+  const payTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+
+  const requirements = (overrides: Partial<PaymentRequirements>): PaymentRequirements => ({
+    scheme: "exact",
+    network: "solana-devnet",
+    maxAmountRequired: "1000",
+    resource: "https://api.example.com/weather",
+    description: "",
+    mimeType: "",
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+    ...overrides,
+  });
+
+  const svmPayment = async (mint: Address, recipient: Address): Promise<PaymentPayload> => {
+    const authority = await generateKeyPairSigner();
+    const [destination] = await findAssociatedTokenPda({
+      mint,
+      owner: recipient,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    });
+    const transactionMessage = pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayer(authority.address, tx),
+      tx =>
+        setTransactionMessageLifetimeUsingBlockhash(
+          { blockhash: "11111111111111111111111111111111" as Blockhash, lastValidBlockHeight: 1n },
+          tx,
+        ),
+      tx =>
+        appendTransactionMessageInstructions(
+          [
+            getTransferCheckedInstruction({
+              source: authority.address,
+              mint,
+              destination,
+              authority,
+              amount: 1000n,
+              decimals: 6,
+            }),
+          ],
+          tx,
+        ),
+    );
+    const signedTransaction = await partiallySignTransactionMessageWithSigners(transactionMessage);
+    return {
+      scheme: "exact",
+      network: "solana-devnet",
+      x402Version: 1,
+      payload: { transaction: getBase64EncodedWireTransaction(signedTransaction) },
+    };
+  };
+
+  const evmPayment = async (asset: Address, recipient: Address): Promise<PaymentPayload> => {
+    const account = privateKeyToAccount(generatePrivateKey());
+    const authorization = {
+      from: account.address,
+      to: recipient,
+      value: "1000",
+      validAfter: "0",
+      validBefore: "9999999999",
+      nonce: `0x${"11".repeat(32)}`,
+    } as const;
+    const signature = await account.signTypedData({
+      types: authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      domain: { name: "USDC", version: "2", chainId: 84532, verifyingContract: asset },
+      message: {
+        ...authorization,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+      },
+    });
+    return {
+      scheme: "exact",
+      network: "base-sepolia",
+      x402Version: 1,
+      payload: { signature, authorization },
+    };
+  };
+
+  it("should match svm payments on the mint of the transferred token", async () => {
+    const usdc = requirements({ asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU" });
+    const custom = requirements({ asset: "So11111111111111111111111111111111111111112" });
+
+    const payment = await svmPayment(
+      "So11111111111111111111111111111111111111112" as Address,
+      payTo as Address,
+    );
+
+    expect(await findMatchingPaymentRequirements([usdc, custom], payment)).toBe(custom);
+  });
+
+  it("should match svm payments on the recipient of the transferred token", async () => {
+    const other = requirements({ payTo: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd" });
+    const expected = requirements({});
+
+    const payment = await svmPayment(
+      "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU" as Address,
+      payTo as Address,
+    );
+
+    expect(await findMatchingPaymentRequirements([other, expected], payment)).toBe(expected);
+    expect(await findMatchingPaymentRequirements([other], payment)).toBeUndefined();
+  });
+
+  it("should not match svm payments of an asset the route does not accept", async () => {
+    const payment = await svmPayment(
+      "So11111111111111111111111111111111111111112" as Address,
+      payTo as Address,
+    );
+
+    expect(await findMatchingPaymentRequirements([requirements({})], payment)).toBeUndefined();
+  });
+
+  it("should not match payments on another network", async () => {
+    const payment = await svmPayment(
+      "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU" as Address,
+      payTo as Address,
+    );
+
+    expect(
+      await findMatchingPaymentRequirements([requirements({ network: "solana" })], payment),
+    ).toBeUndefined();
+  });
+
+  it("should match evm payments on their recipient", async () => {
+    const evmPayTo = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+    const base = requirements({
+      network: "base-sepolia",
+      payTo: "0x0000000000000000000000000000000000000001",
+    });
+    const otherBase = requirements({ network: "base-sepolia", payTo: evmPayTo });
+
+    const payment = await evmPayment(
+      "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      evmPayTo.toLowerCase() as `0x${string}`,
+    );
+
+    expect(await findMatchingPaymentRequirements([base, otherBase], payment)).toBe(otherBase);
+  });
+
+  it("should match evm payments of the same recipient on the asset of the signature", async () => {
+    const evmPayTo = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+    const asset = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+    const extra = { name: "USDC", version: "2" };
+    const other = requirements({
+      network: "base-sepolia",
+      payTo: evmPayTo,
+      asset: "0x0000000000000000000000000000000000000003",
+      extra,
+    });
+    const expected = requirements({ network: "base-sepolia", payTo: evmPayTo, asset, extra });
+
+    const payment = await evmPayment(asset, evmPayTo);
+
+    expect(await findMatchingPaymentRequirements([other, expected], payment)).toBe(expected);
+    expect(
+      await findMatchingPaymentRequirements([other, { ...other, maxAmountRequired: "1" }], payment),
+    ).toBeUndefined();
+  });
+});
+
+describe("resolveRouteConfig", () => {
+  type ImageRequest = { query: { resolution: string } };
+
+  it("should resolve the price, payTo and description from the request", async () => {
+    const routeConfig = await resolveRouteConfig<ImageRequest>(
+      {
+        price: async request => (request.query.resolution === "4k" ? "$0.10" : "$0.01"),
+        network: "solana-devnet",
+        payTo: request => `${request.query.resolution}PayTo`,
+        config: {
+          description: request => `Image in ${request.query.resolution}`,
+          mimeType: "image/png",
+        },
+      },
+      { query: { resolution: "4k" } },
+    );
+
+    expect(routeConfig).toEqual({
+      accepts: [{ price: "$0.10", network: "solana-devnet", payTo: "4kPayTo", scheme: undefined }],
+      config: { description: "Image in 4k", mimeType: "image/png" },
+    });
+  });
+
+  it("should resolve every payment option and keep static values", async () => {
+    const routeConfig = await resolveRouteConfig<ImageRequest>(
+      {
+        accepts: [
+          { price: () => "$0.02", network: "solana" },
+          { price: "$0.03", network: "base", payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C" },
+        ],
+      },
+      { query: { resolution: "hd" } },
+    );
+
+    expect(routeConfig).toEqual({
+      accepts: [
+        { price: "$0.02", network: "solana", payTo: undefined },
+        {
+          price: "$0.03",
+          network: "base",
+          payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+        },
+      ],
     });
   });
 });
@@ -1,4 +1,6 @@
-import { Address, Hex } from "viem";
+import { Address, getAddress, Hex, verifyTypedData } from "viem";
+import { Address as SolanaAddress, getBase64Encoder, getTransactionDecoder } from "@solana/kit";
+import { findAssociatedTokenPda } from "@solana-program/token-2022";
 import {
   moneySchema,
   Network,
@@ -6,14 +8,32 @@ import {
   RouteConfig,
   RoutePattern,
   ERC20TokenAmount,
+  ExactEvmPayload,
+  ExactSvmPayload,
   PaymentRequirements,
+  PaymentOption,
   PaymentPayload,
+  RequestValue,
+  ResolvedRouteConfig,
   SPLTokenAmount,
+  Resource,
+  SupportedEVMNetworks,
+  SupportedPaymentKindsResponse,
+  SupportedSVMNetworks,
+  SettleResponse,
+  SettleResponseSchema,
+  X402Config,
 } from "../types/index.js";
 import { RoutesConfig } from "../types/index.js";
+import { authorizationTypes } from "../types/shared/evm/index.js";
 import { safeBase64Decode } from "./base64.js";
-import { getUsdcChainConfigForChain } from "./evm/index.js";
+import { tokenRegistry } from "./tokenRegistry.js";
+import {
+  getTokenDestinationFromTransaction,
+  getTokenMintFromTransaction,
+} from "./svm/transaction.js";
 import { getNetworkId } from "./network.js";
+import { RoundingMode, toAtomicAmount } from "./decimal.js";
 
 /**
  * Computes the route patterns for the given routes config
@@ -21,13 +41,17 @@ import { getNetworkId } from "./network.js";
  * @param routes - The routes config to compute the patterns for
  * @returns The route patterns
  */
-export function computeRoutePatterns(routes: RoutesConfig): RoutePattern[] {
+export function computeRoutePatterns<TRequest>(
+  routes: RoutesConfig<TRequest>,
+): RoutePattern<TRequest>[] {
   const normalizedRoutes = Object.fromEntries(
     Object.entries(routes).map(([pattern, value]) => [
       pattern,
       typeof value === "string" || typeof value === "number"
-        ? ({ price: value, network: "base-sepolia" } as RouteConfig)
-        : (value as RouteConfig),
+        ? ({ price: value, network: "base-sepolia" } as RouteConfig<TRequest>)
+        : Array.isArray(value)
+          ? ({ accepts: value } as RouteConfig<TRequest>)
+          : (value as RouteConfig<TRequest>),
     ]),
   );
 
@@ -64,11 +88,11 @@ export function computeRoutePatterns(routes: RoutesConfig): RoutePattern[] {
  * @param method - The HTTP method to match against
  * @returns The matching route pattern or undefined if no match is found
  */
-export function findMatchingRoute(
-  routePatterns: RoutePattern[],
+export function findMatchingRoute<TRequest>(
+  routePatterns: RoutePattern<TRequest>[],
   path: string,
   method: string,
-): RoutePattern | undefined {
+): RoutePattern<TRequest> | undefined {
   // Normalize the path:
   // 1. Remove query parameters and hash fragments
   // 2. Replace backslashes with forward slashes
@@ -135,17 +159,20 @@ export function getDefaultAsset(network: Network, customToken?: { address: strin
     };
   }
 
-  // Otherwise, use default USDC
-  const chainId = getNetworkId(network);
-  const usdc = getUsdcChainConfigForChain(chainId);
-  if (!usdc) {
+  if (!SupportedEVMNetworks.includes(network) && !SupportedSVMNetworks.includes(network)) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+
+  // Otherwise, use the default token of the network, USDC unless another one is registered
+  const token = tokenRegistry.getDefaultToken(network);
+  if (!token) {
     throw new Error(`Unable to get default asset on ${network}`);
   }
   return {
-    address: usdc.usdcAddress,
-    decimals: 6,
-    eip712: {
-      name: usdc.usdcName,
+    address: token.address,
+    decimals: token.decimals,
+    eip712: token.eip712 || {
+      name: token.name,
       version: "2",
     },
   };
@@ -157,12 +184,14 @@ export function getDefaultAsset(network: Network, customToken?: { address: strin
  * @param price - The price to parse
  * @param network - The network to get the default asset for
  * @param customToken - Optional custom token configuration to use instead of USDC
+ * @param rounding - How to round a price with more decimal places than the asset supports, rounds up by default so that a price is never free
  * @returns The parsed amount or an error message
  */
 export function processPriceToAtomicAmount(
   price: Price,
   network: Network,
   customToken?: { address: string; decimals: number; name: string; eip712?: { name: string; version: string } },
+  rounding: RoundingMode = "up",
 ):
   | { maxAmountRequired: string; asset: ERC20TokenAmount["asset"] | SPLTokenAmount["asset"] }
   | { error: string } {
@@ -178,9 +207,14 @@ export function processPriceToAtomicAmount(
         error: `Invalid price (price: ${price}). Must be in the form "$3.10", 0.10, "0.001", ${parsedAmount.error}`,
       };
     }
-    const parsedUsdAmount = parsedAmount.data;
     asset = getDefaultAsset(network, customToken);
-    maxAmountRequired = (parsedUsdAmount * 10 ** asset.decimals).toString();
+    try {
+      maxAmountRequired = toAtomicAmount(parsedAmount.data, asset.decimals, rounding);
+    } catch (error) {
+      return {
+        error: `Invalid price (price: ${price}). ${error instanceof Error ? error.message : error}`,
+      };
+    }
   } else {
     // Token amount in atomic units
     maxAmountRequired = price.amount;
@@ -194,33 +228,345 @@ export function processPriceToAtomicAmount(
 }
 
 /**
- * Finds the matching payment requirements for the given payment
+ * Gets the payment options accepted by the given route config
+ *
+ * @param routeConfig - The config of the route
+ * @returns The payment options of the route
+ */
+export function getRoutePaymentOptions<TRequest>(
+  routeConfig: RouteConfig<TRequest>,
+): PaymentOption<TRequest>[] {
+  if ("accepts" in routeConfig) {
+    if (routeConfig.accepts.length === 0) {
+      throw new Error("The route must accept at least one payment option");
+    }
+    return routeConfig.accepts;
+  }
+
+  const { price, network, payTo, scheme } = routeConfig;
+  return [{ price, network, payTo, scheme }];
+}
+
+/**
+ * Resolves the request values of the given route config, i.e. calls its price, payTo and
+ * description functions with the current request
+ *
+ * @param routeConfig - The config of the matched route
+ * @param request - The request of the server framework to resolve the values for
+ * @returns The route config with static values
+ */
+export async function resolveRouteConfig<TRequest>(
+  routeConfig: RouteConfig<TRequest>,
+  request: TRequest,
+): Promise<ResolvedRouteConfig> {
+  const accepts = await Promise.all(
+    getRoutePaymentOptions(routeConfig).map(async option => ({
+      ...option,
+      price: await resolveRequestValue(option.price, request),
+      payTo: await resolveRequestValue(option.payTo, request),
+    })),
+  );
+
+  if (!routeConfig.config) {
+    return { accepts };
+  }
+
+  return {
+    accepts,
+    config: {
+      ...routeConfig.config,
+      description: await resolveRequestValue(routeConfig.config.description, request),
+    },
+  };
+}
+
+/**
+ * Resolves a route config value that may be a function of the request
+ *
+ * @param value - The static value or the function to resolve it from
+ * @param request - The request to resolve the value for
+ * @returns The resolved value
+ */
+async function resolveRequestValue<T, TRequest>(
+  value: RequestValue<T, TRequest>,
+  request: TRequest,
+): Promise<T> {
+  return typeof value === "function"
+    ? await (value as (request: TRequest) => T | Promise<T>)(request)
+    : (value as T);
+}
+
+/**
+ * Builds the payment requirements of a protected route, so that every server adapter advertises
+ * the same requirements for the same route config
+ *
+ * @param options - The options to build the payment requirements from
+ * @param options.payTo - The address to receive payments, unless a payment option sets its own
+ * @param options.routeConfig - The config of the matched route, resolved for the request with `resolveRouteConfig`
+ * @param options.method - The HTTP method of the request
+ * @param options.resourceUrl - The URL of the requested resource, unless the route config sets one
+ * @param options.facilitatorSupported - Fetches the payment kinds supported by the facilitator, only called for SVM networks to look up the fee payer
+ * @param options.x402Config - Optional X402 configuration including custom token settings
+ * @returns The payment requirements of the route, one for each of its payment options
+ */
+export async function buildPaymentRequirements({
+  payTo,
+  routeConfig,
+  method,
+  resourceUrl,
+  facilitatorSupported,
+  x402Config,
+}: {
+  payTo: Address | SolanaAddress;
+  routeConfig: ResolvedRouteConfig;
+  method: string;
+  resourceUrl: Resource;
+  facilitatorSupported: () => Promise<SupportedPaymentKindsResponse>;
+  x402Config?: X402Config;
+}): Promise<PaymentRequirements[]> {
+  const {
+    description,
+    mimeType,
+    maxTimeoutSeconds,
+    inputSchema,
+    outputSchema,
+    resource,
+    discoverable,
+  } = routeConfig.config ?? {};
+
+  const commonRequirements = {
+    resource: resource || resourceUrl,
+    description: description ?? "",
+    mimeType: mimeType ?? "",
+    maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
+    // TODO: Rename outputSchema to requestStructure
+    outputSchema: {
+      input: {
+        type: "http",
+        method: method.toUpperCase(),
+        discoverable: discoverable ?? true,
+        ...inputSchema,
+      },
+      output: outputSchema,
+    },
+  };
+
+  // the supported payment kinds are fetched once, and only if the route accepts svm payments
+  let paymentKinds: Promise<SupportedPaymentKindsResponse> | undefined;
+
+  const paymentRequirements: PaymentRequirements[] = [];
+  for (const option of getRoutePaymentOptions(routeConfig)) {
+    const { price, network, scheme = "exact" } = option;
+
+    const atomicAmountForAsset = processPriceToAtomicAmount(
+      price,
+      network,
+      x402Config?.svmConfig?.defaultToken,
+    );
+    if ("error" in atomicAmountForAsset) {
+      throw new Error(atomicAmountForAsset.error);
+    }
+    const { maxAmountRequired, asset } = atomicAmountForAsset;
+    // let clients display the amount without looking up the token
+    const symbol = tokenRegistry.getToken(network, asset.address)?.symbol;
+
+    // evm networks
+    if (SupportedEVMNetworks.includes(network)) {
+      if (scheme !== "exact") {
+        throw new Error(`The ${scheme} scheme is not supported on network: ${network}`);
+      }
+
+      paymentRequirements.push({
+        ...commonRequirements,
+        scheme: "exact",
+        network,
+        maxAmountRequired,
+        payTo: getAddress(option.payTo ?? payTo),
+        asset: getAddress(asset.address),
+        extra: {
+          ...(asset as ERC20TokenAmount["asset"]).eip712,
+          decimals: asset.decimals,
+          ...(symbol !== undefined && { symbol }),
+        },
+      });
+    }
+
+    // svm networks
+    else if (SupportedSVMNetworks.includes(network)) {
+      // find the payment kind of the facilitator that matches the network and scheme
+      paymentKinds ??= facilitatorSupported();
+      const kindExtra = (await paymentKinds).kinds.find(
+        kind => kind.network === network && kind.scheme === scheme,
+      )?.extra;
+      const feePayer = kindExtra?.feePayer;
+
+      if (!feePayer) {
+        throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
+      }
+
+      paymentRequirements.push({
+        ...commonRequirements,
+        scheme,
+        network,
+        maxAmountRequired,
+        payTo: option.payTo ?? payTo,
+        asset: asset.address,
+        extra: {
+          feePayer,
+          decimals: asset.decimals,
+          ...(symbol !== undefined && { symbol }),
+          // let the client clamp its priority fee to the maximum price of the facilitator
+          ...(kindExtra?.maxComputeUnitPrice !== undefined && {
+            maxComputeUnitPrice: kindExtra.maxComputeUnitPrice,
+          }),
+        },
+      });
+    } else {
+      throw new Error(`Unsupported network: ${network}`);
+    }
+  }
+
+  return paymentRequirements;
+}
+
+/**
+ * Finds the matching payment requirements for the given payment, matching on the scheme, the
+ * network, the asset and the recipient of the payment. When several payment requirements still
+ * match, every candidate is checked against the payment instead of taking the first.
  *
  * @param paymentRequirements - The payment requirements to search through
  * @param payment - The payment to match against
  * @returns The matching payment requirements or undefined if no match is found
  */
-export function findMatchingPaymentRequirements(
+export async function findMatchingPaymentRequirements(
   paymentRequirements: PaymentRequirements[],
   payment: PaymentPayload,
-) {
-  return paymentRequirements.find(
+): Promise<PaymentRequirements | undefined> {
+  const candidates = paymentRequirements.filter(
     value => value.scheme === payment.scheme && value.network === payment.network,
   );
+
+  if ("transaction" in payment.payload) {
+    return findMatchingSvmPaymentRequirements(candidates, payment.payload);
+  }
+  return findMatchingEvmPaymentRequirements(candidates, payment.payload);
+}
+
+/**
+ * Finds the payment requirements of an svm payment. The asset is the mint of the transferred or
+ * approved token, and the recipient is the associated token account of `payTo` for an exact
+ * payment. An upto payment only names the fee payer as its delegate, so it is matched on the fee
+ * payer instead of `payTo`.
+ *
+ * @param candidates - The payment requirements of the scheme and network of the payment
+ * @param payload - The svm payload of the payment
+ * @returns The matching payment requirements or undefined if no match is found
+ */
+async function findMatchingSvmPaymentRequirements(
+  candidates: PaymentRequirements[],
+  payload: ExactSvmPayload,
+): Promise<PaymentRequirements | undefined> {
+  let mint: string | undefined;
+  let transfer: ReturnType<typeof getTokenDestinationFromTransaction>;
+  try {
+    const transaction = getTransactionDecoder().decode(
+      getBase64Encoder().encode(payload.transaction),
+    );
+    mint = getTokenMintFromTransaction(transaction);
+    transfer = getTokenDestinationFromTransaction(transaction);
+  } catch {
+    // the transaction cannot be decoded
+  }
+
+  // a transaction that moves no token cannot be matched, the facilitator reports why it is invalid
+  // when a single candidate is left
+  if (!mint || !transfer) {
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  for (const candidate of candidates) {
+    if (candidate.asset !== mint) {
+      continue;
+    }
+    if (candidate.scheme === "upto") {
+      if (candidate.extra?.feePayer === transfer.destination) {
+        return candidate;
+      }
+      continue;
+    }
+    const [payToATA] = await findAssociatedTokenPda({
+      mint: mint as SolanaAddress,
+      owner: candidate.payTo as SolanaAddress,
+      tokenProgram: transfer.tokenProgram as SolanaAddress,
+    });
+    if (payToATA === transfer.destination) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the payment requirements of an evm payment. The authorization names its recipient but not
+ * the asset it is signed for, so when several candidates pay the recipient, the signature is
+ * checked against the EIP-712 domain of each asset. Only signatures of externally owned accounts
+ * can be checked this way, smart wallet payments are matched when a single candidate is left.
+ *
+ * @param candidates - The payment requirements of the scheme and network of the payment
+ * @param payload - The evm payload of the payment
+ * @returns The matching payment requirements or undefined if no match is found
+ */
+async function findMatchingEvmPaymentRequirements(
+  candidates: PaymentRequirements[],
+  payload: ExactEvmPayload,
+): Promise<PaymentRequirements | undefined> {
+  const { authorization, signature } = payload;
+  const recipients = candidates.filter(
+    value => value.payTo.toLowerCase() === authorization.to.toLowerCase(),
+  );
+  if (recipients.length <= 1) {
+    return recipients[0];
+  }
+
+  for (const candidate of recipients) {
+    if (typeof candidate.extra?.name !== "string" || typeof candidate.extra?.version !== "string") {
+      continue;
+    }
+    const valid = await verifyTypedData({
+      address: authorization.from as Address,
+      types: authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      domain: {
+        name: candidate.extra.name,
+        version: candidate.extra.version,
+        chainId: getNetworkId(candidate.network),
+        verifyingContract: candidate.asset as Address,
+      },
+      message: {
+        from: authorization.from as Address,
+        to: authorization.to as Address,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce as Hex,
+      },
+      signature: signature as Hex,
+    }).catch(() => false);
+    if (valid) {
+      return candidate;
+    }
+  }
+  return undefined;
 }
 
 /**
  * Decodes the X-PAYMENT-RESPONSE header
  *
  * @param header - The X-PAYMENT-RESPONSE header to decode
- * @returns The decoded payment response
+ * @returns The decoded and validated settle response, with the EVM or SVM transaction and payer
+ * @throws Error if the header is not a valid settle response
  */
-export function decodeXPaymentResponse(header: string) {
+export function decodeXPaymentResponse(header: string): SettleResponse {
   const decoded = safeBase64Decode(header);
-  return JSON.parse(decoded) as {
-    success: boolean;
-    transaction: Hex;
-    network: Network;
-    payer: Address;
-  };
+  return SettleResponseSchema.parse(JSON.parse(decoded));
 }
@@ -16,3 +16,25 @@ export function getNetworkId(network: Network): number {
   }
   throw new Error(`Unsupported network: ${network}`);
 }
+
+/**
+ * Networks whose tokens have no real value, e.g. to show faucet links in the paywall
+ */
+const TestnetNetworks: Network[] = [
+  "base-sepolia",
+  "avalanche-fuji",
+  "sei-testnet",
+  "polygon-amoy",
+  "solana-localnet",
+  "solana-devnet",
+];
+
+/**
+ * Checks if a network is a testnet
+ *
+ * @param network - The network to check
+ * @returns True if the network is a testnet, false otherwise
+ */
+export function isTestnetNetwork(network: Network): boolean {
+  return TestnetNetworks.includes(network);
+}
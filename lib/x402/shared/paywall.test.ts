@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { PaymentRequirements } from "../types/verify";
+import { getPaywallHtml, getPaywallPaymentOptions } from "./paywall";
+
+describe("paywall", () => {
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "solana-devnet",
+    payTo: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4",
+    asset: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+    maxAmountRequired: "10000",
+    resource: "https://api.example.com/weather",
+    description: "Weather data",
+    mimeType: "",
+    maxTimeoutSeconds: 60,
+    extra: { feePayer: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd", decimals: 6 },
+  };
+
+  describe("getPaywallPaymentOptions", () => {
+    it("should describe every payment requirement", () => {
+      const baseRequirements: PaymentRequirements = {
+        ...paymentRequirements,
+        network: "base",
+        asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+        maxAmountRequired: "2500000",
+        extra: { name: "USD Coin", version: "2" },
+      };
+
+      expect(getPaywallPaymentOptions([paymentRequirements, baseRequirements])).toEqual([
+        {
+          paymentRequirements,
+          networkName: "Solana Devnet",
+          tokenSymbol: "USDC",
+          decimals: 6,
+          amount: "0.01",
+          testnet: true,
+        },
+        {
+          paymentRequirements: baseRequirements,
+          networkName: "Base",
+          tokenSymbol: "USDC",
+          decimals: 6,
+          amount: "2.5",
+          testnet: false,
+        },
+      ]);
+    });
+
+    it("should use the decimals of the requirements for unknown tokens", () => {
+      const [option] = getPaywallPaymentOptions([
+        {
+          ...paymentRequirements,
+          asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+          maxAmountRequired: "1500000000",
+          extra: { ...paymentRequirements.extra, decimals: 9 },
+        },
+      ]);
+
+      expect(option.tokenSymbol).toBe("4zMM...ncDU");
+      expect(option.decimals).toBe(9);
+      expect(option.amount).toBe("1.5");
+    });
+
+    it("should display the atomic amount if the decimals are not known", () => {
+      const [option] = getPaywallPaymentOptions([
+        {
+          ...paymentRequirements,
+          asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+          maxAmountRequired: "1500000000",
+          extra: { feePayer: paymentRequirements.extra!.feePayer },
+        },
+      ]);
+
+      expect(option.decimals).toBeUndefined();
+      expect(option.amount).toBe("1500000000");
+      expect(option.paymentRequirements.maxAmountRequired).toBe("1500000000");
+    });
+  });
+
+  describe("getPaywallHtml", () => {
+    it("should inject the payment options into the page", () => {
+      const paymentOptions = getPaywallPaymentOptions([paymentRequirements]);
+
+      const html = getPaywallHtml({ paymentOptions, currentUrl: "/weather" });
+
+      expect(html).toContain(`paymentOptions: ${JSON.stringify(paymentOptions)}`);
+      expect(html).toContain('currentUrl: "/weather"');
+    });
+
+    it("should inject the theme, locale, messages and slots", () => {
+      const html = getPaywallHtml({
+        paymentOptions: [],
+        currentUrl: "/weather",
+        theme: { colors: { primary: "#9945ff" }, borderRadius: "0" },
+        locale: "zh-CN",
+        messages: { payNow: "立即支付" },
+        header: "<nav>Example</nav>",
+      });
+
+      expect(html).toContain('theme: {"colors":{"primary":"#9945ff"},"borderRadius":"0"}');
+      expect(html).toContain('locale: "zh-CN"');
+      expect(html).toContain('messages: {"payNow":"立即支付"}');
+      expect(html).toContain('header: "\\u003cnav\\u003eExample\\u003c/nav\\u003e"');
+      expect(html).toContain('footer: ""');
+    });
+
+    it("should not let injected values close the script element", () => {
+      const html = getPaywallHtml({
+        paymentOptions: getPaywallPaymentOptions([
+          { ...paymentRequirements, description: "</script><script>alert(1)</script>" },
+        ]),
+        currentUrl: "/weather?q=</script><script>alert(2)</script>",
+        footer: "</script><script>alert(3)</script>",
+      });
+
+      expect(html).not.toContain("<script>alert");
+    });
+  });
+});
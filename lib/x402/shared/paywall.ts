@@ -1,16 +1,107 @@
 import { PAYWALL_TEMPLATE } from "../paywall/gen/template.js";
 import { config } from "../types/shared/evm/config.js";
+import { Network, PaywallMessages, PaywallTheme } from "../types/shared/index.js";
 import { PaymentRequirements } from "../types/verify/index.js";
+import { formatAtomicAmount } from "./decimal.js";
+import { isTestnetNetwork } from "./network.js";
+import { tokenRegistry } from "./tokenRegistry.js";
 
-interface PaywallOptions {
-  amount: number;
-  paymentRequirements: PaymentRequirements[];
-  currentUrl: string;
+/**
+ * The display names of the networks in the paywall
+ */
+const NetworkNames: Record<Network, string> = {
+  "base-sepolia": "Base Sepolia",
+  base: "Base",
+  "avalanche-fuji": "Avalanche Fuji",
+  avalanche: "Avalanche",
+  iotex: "IoTeX",
+  "solana-localnet": "Solana Localnet",
+  "solana-devnet": "Solana Devnet",
+  solana: "Solana",
+  sei: "Sei",
+  "sei-testnet": "Sei Testnet",
+  polygon: "Polygon",
+  "polygon-amoy": "Polygon Amoy",
+  peaq: "peaq",
+};
+
+/**
+ * A payment option that the user can choose in the paywall, with the metadata to display it
+ */
+export interface PaywallPaymentOption {
+  /**
+   * The payment requirements that are paid when the user chooses the option.
+   */
+  paymentRequirements: PaymentRequirements;
+  /**
+   * The display name of the network, e.g. "Solana Devnet".
+   */
+  networkName: string;
+  /**
+   * The symbol of the token, from `extra.symbol` or the token registry, or its shortened address if
+   * the token is not known.
+   */
+  tokenSymbol: string;
+  /**
+   * The decimals of the token, from `extra.decimals` or the token registry, if they are known.
+   */
+  decimals?: number;
+  /**
+   * The amount in whole tokens, e.g. "0.01", or in atomic units if the decimals are not known.
+   * It is only displayed, the paywall signs the `maxAmountRequired` of the requirements.
+   */
+  amount: string;
+  /**
+   * Whether the network is a testnet.
+   */
   testnet: boolean;
+}
+
+/**
+ * The options that the paywall page is generated from
+ */
+export interface PaywallOptions {
+  paymentOptions: PaywallPaymentOption[];
+  currentUrl: string;
   cdpClientKey?: string;
   appName?: string;
   appLogo?: string;
   sessionTokenEndpoint?: string;
+  svmRpcUrl?: string;
+  theme?: PaywallTheme;
+  locale?: string;
+  messages?: Partial<PaywallMessages>;
+  header?: string;
+  footer?: string;
+}
+
+/**
+ * Gets the payment options of the paywall, one for each of the payment requirements of the route
+ *
+ * @param paymentRequirements - The payment requirements of the route
+ * @returns The payment options with their display metadata
+ */
+export function getPaywallPaymentOptions(
+  paymentRequirements: PaymentRequirements[],
+): PaywallPaymentOption[] {
+  return paymentRequirements.map(requirements => {
+    const { network, asset, maxAmountRequired } = requirements;
+    const token = tokenRegistry.getToken(network, asset);
+    const decimals: number | undefined = requirements.extra?.decimals ?? token?.decimals;
+
+    return {
+      paymentRequirements: requirements,
+      networkName: NetworkNames[network],
+      tokenSymbol:
+        requirements.extra?.symbol ?? token?.symbol ?? `${asset.slice(0, 4)}...${asset.slice(-4)}`,
+      decimals,
+      amount:
+        decimals !== undefined
+          ? formatAtomicAmount(maxAmountRequired, decimals)
+          : maxAmountRequired,
+      testnet: isTestnetNetwork(network),
+    };
+  });
 }
 
 /**
@@ -26,34 +117,59 @@ function escapeString(str: string): string {
     .replace(/'/g, "\\'")
     .replace(/\n/g, "\\n")
     .replace(/\r/g, "\\r")
-    .replace(/\t/g, "\\t");
+    .replace(/\t/g, "\\t")
+    .replace(/</g, "\\u003c");
+}
+
+/**
+ * Serializes a value as JSON that is safe to embed in an inline script, i.e. that cannot close the
+ * script element or contain line terminators that older JavaScript engines reject
+ *
+ * @param value - The value to serialize
+ * @returns The JSON of the value
+ */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
 }
 
 /**
  * Generates an HTML paywall page that allows users to pay for content access
  *
  * @param options - The options for generating the paywall
- * @param options.amount - The amount to be paid in USD
- * @param options.paymentRequirements - The payment requirements for the content
+ * @param options.paymentOptions - The payment options that the user can choose from, see `getPaywallPaymentOptions`
  * @param options.currentUrl - The URL of the content being accessed
- * @param options.testnet - Whether to use testnet or mainnet
  * @param options.cdpClientKey - CDP client API key for OnchainKit
  * @param options.appName - The name of the application to display in the wallet connection modal
  * @param options.appLogo - The logo of the application to display in the wallet connection modal
  * @param options.sessionTokenEndpoint - The API endpoint for generating session tokens for Onramp authentication
+ * @param options.svmRpcUrl - The RPC URL used by the paywall for Solana payments
+ * @param options.theme - The colors, font and border radius of the page
+ * @param options.locale - The locale of the texts of the page
+ * @param options.messages - Overrides of the texts of the locale
+ * @param options.header - Trusted HTML rendered above the payment card
+ * @param options.footer - Trusted HTML rendered below the payment card
  * @returns An HTML string containing the paywall page
  */
 export function getPaywallHtml({
-  amount,
-  testnet,
-  paymentRequirements,
+  paymentOptions,
   currentUrl,
   cdpClientKey,
   appName,
   appLogo,
   sessionTokenEndpoint,
+  svmRpcUrl,
+  theme,
+  locale,
+  messages,
+  header,
+  footer,
 }: PaywallOptions): string {
-  const logOnTestnet = testnet
+  const logOnTestnet = paymentOptions.every(option => option.testnet)
     ? "console.log('Payment requirements initialized:', window.x402);"
     : "";
 
@@ -61,9 +177,7 @@ export function getPaywallHtml({
   const configScript = `
   <script>
     window.x402 = {
-      amount: ${amount},
-      paymentRequirements: ${JSON.stringify(paymentRequirements)},
-      testnet: ${testnet},
+      paymentOptions: ${toScriptJson(paymentOptions)},
       currentUrl: "${escapeString(currentUrl)}",
       config: {
         chainConfig: ${JSON.stringify(config)},
@@ -72,6 +186,12 @@ export function getPaywallHtml({
       appName: "${escapeString(appName || "")}",
       appLogo: "${escapeString(appLogo || "")}",
       sessionTokenEndpoint: "${escapeString(sessionTokenEndpoint || "")}",
+      svmRpcUrl: "${escapeString(svmRpcUrl || "")}",
+      theme: ${toScriptJson(theme ?? {})},
+      locale: "${escapeString(locale || "en")}",
+      messages: ${toScriptJson(messages ?? {})},
+      header: ${toScriptJson(header ?? "")},
+      footer: ${toScriptJson(footer ?? "")},
     };
     ${logOnTestnet}
   </script>`;
@@ -1,3 +1,7 @@
 export * from "./rpc.js";
 export * from "./wallet.js";
 export * from "./transaction.js";
+export * from "./paymentStore.js";
+export * from "./mint.js";
+export * from "./priorityFee.js";
+export * from "./walletStandard.js";
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Address } from "@solana/kit";
+import { fetchMint } from "@solana-program/token-2022";
+import { fetchMintDecimals } from "./mint";
+
+vi.mock("@solana-program/token-2022", async importOriginal => ({
+  ...(await importOriginal<typeof import("@solana-program/token-2022")>()),
+  fetchMint: vi.fn(),
+}));
+
+describe("fetchMintDecimals", () => {
+  const rpc = {} as Parameters<typeof fetchMintDecimals>[2];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchMint).mockResolvedValue({
+      data: { decimals: 9 },
+    } as Awaited<ReturnType<typeof fetchMint>>);
+  });
+
+  it("should fetch the decimals of the mint", async () => {
+    const mint = "So11111111111111111111111111111111111111112" as Address;
+
+    await expect(fetchMintDecimals("solana-devnet", mint, rpc)).resolves.toBe(9);
+    expect(fetchMint).toHaveBeenCalledWith(rpc, mint);
+  });
+
+  it("should cache the decimals per network and mint", async () => {
+    const mint = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU" as Address;
+
+    await fetchMintDecimals("solana-devnet", mint, rpc);
+    await fetchMintDecimals("solana-devnet", mint, rpc);
+    expect(fetchMint).toHaveBeenCalledTimes(1);
+
+    await fetchMintDecimals("solana", mint, rpc);
+    expect(fetchMint).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache failed fetches", async () => {
+    const mint = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v" as Address;
+    vi.mocked(fetchMint).mockRejectedValueOnce(new Error("Account not found"));
+
+    await expect(fetchMintDecimals("solana", mint, rpc)).rejects.toThrow("Account not found");
+    await expect(fetchMintDecimals("solana", mint, rpc)).resolves.toBe(9);
+    expect(fetchMint).toHaveBeenCalledTimes(2);
+  });
+});
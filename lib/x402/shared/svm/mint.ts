@@ -0,0 +1,41 @@
+import {
+  Address,
+  RpcDevnet,
+  RpcMainnet,
+  SolanaRpcApiDevnet,
+  SolanaRpcApiMainnet,
+} from "@solana/kit";
+import { fetchMint } from "@solana-program/token-2022";
+import { Network } from "../../types/shared/index.js";
+
+/**
+ * The decimals of the mints that were fetched, by network and mint address. The decimals of a
+ * mint can never change, so they are cached for the lifetime of the process.
+ */
+const mintDecimalsCache = new Map<string, Promise<number>>();
+
+/**
+ * Fetches the decimals of a spl-token or token-2022 mint, caching them per network and mint
+ *
+ * @param network - The network of the mint
+ * @param mint - The address of the mint
+ * @param rpc - The RPC client to fetch the mint with
+ * @returns The decimals of the mint
+ */
+export function fetchMintDecimals(
+  network: Network,
+  mint: Address,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+): Promise<number> {
+  const key = `${network}:${mint}`;
+
+  let decimals = mintDecimalsCache.get(key);
+  if (!decimals) {
+    decimals = fetchMint(rpc, mint).then(account => account.data.decimals);
+    // do not cache failed fetches, e.g. when the RPC is unavailable
+    decimals.catch(() => mintDecimalsCache.delete(key));
+    mintDecimalsCache.set(key, decimals);
+  }
+
+  return decimals;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createInMemoryPaymentStore, settleWithPaymentStore } from "./paymentStore";
+import { SettleResponse } from "../../types/verify";
+
+const settleResponse: SettleResponse = {
+  success: true,
+  transaction: "signature",
+  network: "solana-devnet",
+};
+
+describe("createInMemoryPaymentStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should only allow a signature to be claimed once", async () => {
+    const store = createInMemoryPaymentStore();
+
+    expect(await store.claim("signature")).toBe(true);
+    expect(await store.claim("signature")).toBe(false);
+    expect(await store.get("signature")).toMatchObject({ status: "pending" });
+  });
+
+  it("should store the settle response of a completed signature", async () => {
+    const store = createInMemoryPaymentStore();
+
+    await store.claim("signature");
+    await store.complete("signature", settleResponse);
+
+    expect(await store.get("signature")).toMatchObject({ status: "settled", settleResponse });
+    expect(await store.claim("signature")).toBe(false);
+  });
+
+  it("should allow a released signature to be claimed again", async () => {
+    const store = createInMemoryPaymentStore();
+
+    await store.claim("signature");
+    await store.release("signature");
+
+    expect(await store.get("signature")).toBeUndefined();
+    expect(await store.claim("signature")).toBe(true);
+  });
+
+  it("should not release a settled signature", async () => {
+    const store = createInMemoryPaymentStore();
+
+    await store.complete("signature", settleResponse);
+    await store.release("signature");
+
+    expect(await store.get("signature")).toMatchObject({ status: "settled" });
+  });
+
+  it("should allow an abandoned claim to be claimed again after the pending timeout", async () => {
+    vi.useFakeTimers();
+    const store = createInMemoryPaymentStore({ pendingTimeoutMs: 1000 });
+
+    await store.claim("signature");
+    vi.advanceTimersByTime(1001);
+
+    expect(await store.claim("signature")).toBe(true);
+  });
+});
+
+describe("settleWithPaymentStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return the timeout reason of the scheme when a concurrent settlement is not done in time", async () => {
+    vi.useFakeTimers();
+    const store = createInMemoryPaymentStore();
+    await store.claim("signature");
+    const settleTransaction = vi.fn();
+
+    const result = settleWithPaymentStore(
+      store,
+      "signature",
+      "solana-devnet",
+      "settle_upto_svm_transaction_confirmation_timed_out",
+      settleTransaction,
+    );
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(await result).toEqual({
+      success: false,
+      errorReason: "settle_upto_svm_transaction_confirmation_timed_out",
+      network: "solana-devnet",
+      transaction: "signature",
+    });
+    expect(settleTransaction).not.toHaveBeenCalled();
+  });
+});
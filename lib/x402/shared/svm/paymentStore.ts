@@ -0,0 +1,177 @@
+import { Network } from "../../types/shared/index.js";
+import { ErrorReasons, SettleResponse } from "../../types/verify/x402Specs.js";
+
+/**
+ * Default amount of time a pending settlement keeps its claim on a transaction signature.
+ * Pending claims older than this are considered abandoned (e.g. the facilitator crashed)
+ * and can be claimed again.
+ */
+const DEFAULT_PENDING_TIMEOUT_MS = 120_000;
+
+/**
+ * A record of a payment transaction seen by the facilitator.
+ */
+export type PaymentRecord =
+  | {
+      status: "pending";
+      updatedAt: number;
+    }
+  | {
+      status: "settled";
+      settleResponse: SettleResponse;
+      updatedAt: number;
+    };
+
+/**
+ * Storage for payment transactions keyed on their transaction signature.
+ * Used by the SVM facilitator to make settlement idempotent and to reject replayed payloads.
+ */
+export interface PaymentStore {
+  /**
+   * Gets the record for the given transaction signature.
+   *
+   * @param signature - The transaction signature
+   * @returns The payment record, or undefined if the signature has not been seen
+   */
+  get(signature: string): Promise<PaymentRecord | undefined>;
+  /**
+   * Claims the given transaction signature for settlement.
+   *
+   * @param signature - The transaction signature
+   * @returns True if the claim succeeded, false if the signature is already claimed or settled
+   */
+  claim(signature: string): Promise<boolean>;
+  /**
+   * Stores the settle response for a claimed transaction signature.
+   *
+   * @param signature - The transaction signature
+   * @param settleResponse - The response returned from the settlement
+   */
+  complete(signature: string, settleResponse: SettleResponse): Promise<void>;
+  /**
+   * Releases a claimed transaction signature so that it can be settled again.
+   *
+   * @param signature - The transaction signature
+   */
+  release(signature: string): Promise<void>;
+}
+
+/**
+ * Options for the payment stores.
+ */
+export type PaymentStoreOptions = {
+  /** Time in milliseconds after which an unfinished claim can be claimed again (defaults to 120 seconds) */
+  pendingTimeoutMs?: number;
+};
+
+/**
+ * Checks whether a payment record currently blocks a new claim.
+ *
+ * @param record - The existing payment record
+ * @param pendingTimeoutMs - Time in milliseconds after which a pending record expires
+ * @returns True if the record blocks a new claim
+ */
+export function isPaymentRecordActive(
+  record: PaymentRecord | undefined,
+  pendingTimeoutMs: number = DEFAULT_PENDING_TIMEOUT_MS,
+): boolean {
+  if (!record) {
+    return false;
+  }
+  if (record.status === "settled") {
+    return true;
+  }
+  return Date.now() - record.updatedAt < pendingTimeoutMs;
+}
+
+/**
+ * Creates a payment store that keeps its records in memory.
+ * Records are lost when the process exits, so use a persistent store when running
+ * several facilitator instances or when restarts must not forget settled payments.
+ *
+ * @param options - Optional payment store options
+ * @returns A payment store backed by an in-memory map
+ */
+export function createInMemoryPaymentStore(options: PaymentStoreOptions = {}): PaymentStore {
+  const records = new Map<string, PaymentRecord>();
+
+  return {
+    async get(signature) {
+      return records.get(signature);
+    },
+    async claim(signature) {
+      if (isPaymentRecordActive(records.get(signature), options.pendingTimeoutMs)) {
+        return false;
+      }
+      records.set(signature, { status: "pending", updatedAt: Date.now() });
+      return true;
+    },
+    async complete(signature, settleResponse) {
+      records.set(signature, { status: "settled", settleResponse, updatedAt: Date.now() });
+    },
+    async release(signature) {
+      if (records.get(signature)?.status === "pending") {
+        records.delete(signature);
+      }
+    },
+  };
+}
+
+/**
+ * Settles a transaction at most once using the given payment store.
+ * A transaction that was already settled returns the original settle response, and a transaction
+ * that is being settled concurrently is waited for. Only successful settlements are remembered,
+ * so that failed ones can be retried.
+ *
+ * @param paymentStore - The payment store used to claim the transaction signature
+ * @param signature - The signature that identifies the transaction once signed by the fee payer
+ * @param network - The network the transaction is settled on
+ * @param timeoutErrorReason - The error reason of the scheme when a concurrent settlement is not done in time
+ * @param settleTransaction - Settles the transaction once the signature is claimed
+ * @returns The settle response of the first successful settlement of the transaction
+ */
+export async function settleWithPaymentStore(
+  paymentStore: PaymentStore,
+  signature: string,
+  network: Network,
+  timeoutErrorReason: (typeof ErrorReasons)[number],
+  settleTransaction: () => Promise<SettleResponse>,
+): Promise<SettleResponse> {
+  // claim the transaction, waiting for a concurrent settlement of the same transaction to finish
+  const pollInterval = 1000; // 1 second
+  const timeout = 60000; // 60 seconds
+  const startTime = Date.now();
+  for (;;) {
+    const record = await paymentStore.get(signature);
+    if (record?.status === "settled") {
+      return record.settleResponse;
+    }
+    if (await paymentStore.claim(signature)) {
+      break;
+    }
+    if (Date.now() - startTime >= timeout) {
+      return {
+        success: false,
+        errorReason: timeoutErrorReason,
+        network,
+        transaction: signature,
+      };
+    }
+    await new Promise(resolve => setTimeout(resolve, pollInterval));
+  }
+
+  let settleResponse: SettleResponse;
+  try {
+    settleResponse = await settleTransaction();
+  } catch (error) {
+    await paymentStore.release(signature);
+    throw error;
+  }
+
+  if (settleResponse.success) {
+    await paymentStore.complete(signature, settleResponse);
+  } else {
+    await paymentStore.release(signature);
+  }
+  return settleResponse;
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PaymentRequirements } from "../../types/verify";
+import { getComputeUnitPrice, getMaxComputeUnitPrice } from "./priorityFee";
+
+describe("priorityFee", () => {
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "solana-devnet",
+    payTo: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4",
+    asset: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+    maxAmountRequired: "1000",
+    resource: "http://example.com/resource",
+    description: "",
+    mimeType: "",
+    maxTimeoutSeconds: 60,
+    extra: { feePayer: "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd" },
+  };
+  const send = vi.fn();
+  const rpc = {
+    getRecentPrioritizationFees: vi.fn().mockReturnValue({ send }),
+  } as unknown as Parameters<typeof getComputeUnitPrice>[1];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockResolvedValue(
+      [5n, 1n, 100n, 20n, 0n].map((prioritizationFee, slot) => ({
+        prioritizationFee,
+        slot: BigInt(slot),
+      })),
+    );
+  });
+
+  describe("getMaxComputeUnitPrice", () => {
+    it("should default to 5 lamports", () => {
+      expect(getMaxComputeUnitPrice(paymentRequirements)).toBe(5_000_000n);
+    });
+
+    it("should use the maximum price advertised by the facilitator", () => {
+      expect(
+        getMaxComputeUnitPrice({
+          ...paymentRequirements,
+          extra: { ...paymentRequirements.extra, maxComputeUnitPrice: "1000" },
+        }),
+      ).toBe(1000n);
+    });
+  });
+
+  describe("getComputeUnitPrice", () => {
+    it("should default to 1 microlamport", async () => {
+      await expect(getComputeUnitPrice(paymentRequirements, rpc)).resolves.toBe(1n);
+      expect(rpc.getRecentPrioritizationFees).not.toHaveBeenCalled();
+    });
+
+    it("should use a fixed price", async () => {
+      await expect(
+        getComputeUnitPrice(paymentRequirements, rpc, { type: "fixed", microLamports: 42 }),
+      ).resolves.toBe(42n);
+    });
+
+    it.each([
+      [0, 0n],
+      [50, 5n],
+      [75, 20n],
+      [100, 100n],
+    ])("should use the %s percentile of the recent fees", async (percentile, expected) => {
+      await expect(
+        getComputeUnitPrice(paymentRequirements, rpc, { type: "percentile", percentile }),
+      ).resolves.toBe(expected);
+    });
+
+    it("should fetch the recent fees of the given accounts", async () => {
+      const accounts = ["usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb"];
+
+      await getComputeUnitPrice(paymentRequirements, rpc, {
+        type: "percentile",
+        percentile: 50,
+        accounts,
+      });
+
+      expect(rpc.getRecentPrioritizationFees).toHaveBeenCalledWith(accounts);
+    });
+
+    it("should use the default price if there are no recent fees", async () => {
+      send.mockResolvedValue([]);
+
+      await expect(
+        getComputeUnitPrice(paymentRequirements, rpc, { type: "percentile", percentile: 90 }),
+      ).resolves.toBe(1n);
+    });
+
+    it("should throw for an invalid percentile", async () => {
+      await expect(
+        getComputeUnitPrice(paymentRequirements, rpc, { type: "percentile", percentile: 101 }),
+      ).rejects.toThrow("Percentile must be between 0 and 100, got 101");
+    });
+
+    it("should call a custom strategy with the payment requirements", async () => {
+      const getPrice = vi.fn().mockResolvedValue(7n);
+
+      await expect(
+        getComputeUnitPrice(paymentRequirements, rpc, {
+          type: "custom",
+          getComputeUnitPrice: getPrice,
+        }),
+      ).resolves.toBe(7n);
+      expect(getPrice).toHaveBeenCalledWith(paymentRequirements);
+    });
+
+    it("should clamp the price to the maximum price of the facilitator", async () => {
+      const requirements = {
+        ...paymentRequirements,
+        extra: { ...paymentRequirements.extra, maxComputeUnitPrice: "10" },
+      };
+
+      await expect(
+        getComputeUnitPrice(requirements, rpc, { type: "percentile", percentile: 100 }),
+      ).resolves.toBe(10n);
+      await expect(
+        getComputeUnitPrice(paymentRequirements, rpc, { type: "fixed", microLamports: 10n ** 9n }),
+      ).resolves.toBe(5_000_000n);
+    });
+  });
+});
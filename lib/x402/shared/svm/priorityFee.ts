@@ -0,0 +1,98 @@
+import {
+  Address,
+  RpcDevnet,
+  RpcMainnet,
+  SolanaRpcApiDevnet,
+  SolanaRpcApiMainnet,
+} from "@solana/kit";
+import type { PriorityFeeStrategy } from "../../types/config.js";
+import type { PaymentRequirements } from "../../types/verify/index.js";
+
+/**
+ * Compute unit price in microlamports used when the client has no priority fee strategy
+ */
+export const DEFAULT_COMPUTE_UNIT_PRICE = 1n;
+
+/**
+ * Maximum compute unit price in microlamports (5 lamports) that the facilitator accepts when
+ * its policy does not set one
+ */
+export const DEFAULT_MAX_COMPUTE_UNIT_PRICE = 5n * 1_000_000n;
+
+/**
+ * Gets the maximum compute unit price that the facilitator of the payment requirements accepts,
+ * as advertised in the `extra` of its supported payment kinds
+ *
+ * @param paymentRequirements - The payment requirements of the payment
+ * @returns The maximum compute unit price in microlamports
+ */
+export function getMaxComputeUnitPrice(paymentRequirements: PaymentRequirements): bigint {
+  const maxComputeUnitPrice = paymentRequirements.extra?.maxComputeUnitPrice;
+  return maxComputeUnitPrice !== undefined
+    ? BigInt(maxComputeUnitPrice)
+    : DEFAULT_MAX_COMPUTE_UNIT_PRICE;
+}
+
+/**
+ * Gets the value at a percentile of the fees, using the nearest-rank method
+ *
+ * @param fees - The fees to get the percentile of
+ * @param percentile - The percentile, between 0 and 100
+ * @returns The fee at the percentile, or the default compute unit price if there are no fees
+ */
+function getPercentile(fees: bigint[], percentile: number): bigint {
+  if (!Number.isFinite(percentile) || percentile < 0 || percentile > 100) {
+    throw new Error(`Percentile must be between 0 and 100, got ${percentile}`);
+  }
+  if (fees.length === 0) {
+    return DEFAULT_COMPUTE_UNIT_PRICE;
+  }
+
+  const sorted = [...fees].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const rank = Math.max(Math.ceil((percentile / 100) * sorted.length), 1);
+  return sorted[rank - 1];
+}
+
+/**
+ * Gets the compute unit price of a payment transaction from the priority fee strategy,
+ * clamped to the maximum price that the facilitator accepts
+ *
+ * @param paymentRequirements - The payment requirements of the payment
+ * @param rpc - The RPC client to fetch the recent prioritization fees with
+ * @param strategy - The priority fee strategy, defaults to a fixed price of 1 microlamport
+ * @returns The compute unit price in microlamports
+ */
+export async function getComputeUnitPrice(
+  paymentRequirements: PaymentRequirements,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  strategy?: PriorityFeeStrategy,
+): Promise<bigint> {
+  let price: bigint;
+  switch (strategy?.type) {
+    case undefined:
+      price = DEFAULT_COMPUTE_UNIT_PRICE;
+      break;
+    case "fixed":
+      price = BigInt(strategy.microLamports);
+      break;
+    case "percentile": {
+      const recentFees = await rpc
+        .getRecentPrioritizationFees(strategy.accounts as Address[] | undefined)
+        .send();
+      price = getPercentile(
+        recentFees.map(fee => BigInt(fee.prioritizationFee)),
+        strategy.percentile,
+      );
+      break;
+    }
+    case "custom":
+      price = BigInt(await strategy.getComputeUnitPrice(paymentRequirements));
+      break;
+  }
+
+  const maxComputeUnitPrice = getMaxComputeUnitPrice(paymentRequirements);
+  if (price < 0n) {
+    return 0n;
+  }
+  return price > maxComputeUnitPrice ? maxComputeUnitPrice : price;
+}
@@ -1,4 +1,5 @@
 import {
+  Address,
   createSolanaRpc,
   devnet,
   mainnet,
@@ -11,6 +12,7 @@ import {
   SolanaRpcSubscriptionsApi,
   RpcSubscriptionsTransportFromClusterUrl,
   ClusterUrl,
+  Nonce,
 } from "@solana/kit";
 import { Network } from "../../types/shared/index.js";
 
@@ -129,6 +131,31 @@ export function getRpcSubscriptions(
   }
 }
 
+/**
+ * Fetches the current nonce value and authority of a durable nonce account.
+ *
+ * @param rpc - The RPC client to use to fetch the nonce account
+ * @param nonceAccountAddress - The address of the nonce account
+ * @returns The current nonce value and the authority of the nonce account
+ * @throws Error if the account does not exist or is not an initialized nonce account
+ */
+export async function fetchDurableNonce(
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  nonceAccountAddress: Address,
+): Promise<{ nonce: Nonce; authority: Address }> {
+  const { value: account } = await rpc
+    .getAccountInfo(nonceAccountAddress, { encoding: "jsonParsed", commitment: "confirmed" })
+    .send();
+
+  const data = account?.data;
+  if (!data || !("parsed" in data) || data.parsed.type !== "initialized") {
+    throw new Error(`${nonceAccountAddress} is not an initialized nonce account`);
+  }
+
+  const { authority, blockhash } = data.parsed.info as { authority: Address; blockhash: string };
+  return { nonce: blockhash as Nonce, authority };
+}
+
 /**
  *
  * Converts an HTTP URL to a WebSocket URL
@@ -20,7 +20,11 @@ import {
 } from "@solana-program/token-2022";
 import { TOKEN_PROGRAM_ADDRESS } from "@solana-program/token";
 import { ExactSvmPayload } from "../../types/verify";
-import { decodeTransactionFromPayload, getTokenPayerFromTransaction } from "./transaction";
+import {
+  decodeTransactionFromPayload,
+  getTokenMintFromTransaction,
+  getTokenPayerFromTransaction,
+} from "./transaction";
 import * as solanaKit from "@solana/kit";
 
 vi.mock("@solana/kit", async importOriginal => {
@@ -128,6 +132,31 @@ describe("getTokenPayerFromTransaction", () => {
   });
 });
 
+describe("getTokenMintFromTransaction", () => {
+  beforeEach(async () => {
+    const actual = await vi.importActual<typeof import("@solana/kit")>("@solana/kit");
+    vi.mocked(getBase64Encoder).mockImplementation(actual.getBase64Encoder);
+    vi.mocked(getTransactionDecoder).mockImplementation(actual.getTransactionDecoder);
+    vi.mocked(solanaKit.getCompiledTransactionMessageDecoder).mockImplementation(
+      actual.getCompiledTransactionMessageDecoder,
+    );
+  });
+
+  it.each([
+    ["SPL Token", TOKEN_PROGRAM_ADDRESS],
+    ["Token-2022", TOKEN_2022_PROGRAM_ADDRESS],
+  ])("extracts mint for %s TransferChecked", async (_, tokenProgram) => {
+    const authority = await generateKeyPairSigner();
+    const payTo = (await generateKeyPairSigner()).address as Address;
+    const mint = (await generateKeyPairSigner()).address as Address;
+
+    const base64Tx = await buildSignedBase64TransferTx(authority, payTo, mint, tokenProgram);
+    const transaction = getTransactionDecoder().decode(getBase64Encoder().encode(base64Tx));
+
+    expect(getTokenMintFromTransaction(transaction)).toBe(mint);
+  });
+});
+
 /**
  * Build, sign, and encode a minimal TransferChecked transaction for tests.
  *
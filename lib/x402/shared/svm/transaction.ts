@@ -4,6 +4,7 @@ import {
   getBase64Encoder,
   getTransactionDecoder,
   getCompiledTransactionMessageDecoder,
+  getSignatureFromTransaction,
   KeyPairSigner,
   partiallySignTransaction,
   RpcDevnet,
@@ -69,6 +70,91 @@ export function getTokenPayerFromTransaction(transaction: Transaction): string {
   return "";
 }
 
+/**
+ * Extract the mint of the token that is moved by the payment, from the
+ * TransferChecked (exact) or ApproveChecked (upto) instruction.
+ *
+ * @param transaction - The transaction to extract the token mint from
+ * @returns The token mint address as a base58 string
+ */
+export function getTokenMintFromTransaction(transaction: Transaction): string {
+  const compiled = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  ) as CompiledTransactionMessage;
+  const staticAccounts = compiled.staticAccounts ?? [];
+  const instructions = compiled.instructions ?? [];
+
+  for (const ix of instructions) {
+    const programIndex = ix.programAddressIndex;
+    const programAddress = staticAccounts[programIndex].toString();
+    if (
+      programAddress === TOKEN_PROGRAM_ADDRESS.toString() ||
+      programAddress === TOKEN_2022_PROGRAM_ADDRESS.toString()
+    ) {
+      const accountIndices: number[] = ix.accountIndices ?? [];
+      if (accountIndices.length >= 4) {
+        // TransferChecked and ApproveChecked account order: [source, mint, destination | delegate, owner, ...]
+        const mintIndex = accountIndices[1];
+        const mintAddress = staticAccounts[mintIndex]?.toString();
+        if (mintAddress) return mintAddress;
+      }
+    }
+  }
+
+  return "";
+}
+
+/**
+ * Extract the destination token account of the TransferChecked (exact) instruction, or the
+ * delegate of the ApproveChecked (upto) instruction, with the token program that runs it.
+ *
+ * @param transaction - The transaction to extract the token destination from
+ * @returns The destination address and token program address as base58 strings, or undefined if the transaction moves no token
+ */
+export function getTokenDestinationFromTransaction(
+  transaction: Transaction,
+): { destination: string; tokenProgram: string } | undefined {
+  const compiled = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  ) as CompiledTransactionMessage;
+  const staticAccounts = compiled.staticAccounts ?? [];
+  const instructions = compiled.instructions ?? [];
+
+  for (const ix of instructions) {
+    const programIndex = ix.programAddressIndex;
+    const programAddress = staticAccounts[programIndex].toString();
+    if (
+      programAddress === TOKEN_PROGRAM_ADDRESS.toString() ||
+      programAddress === TOKEN_2022_PROGRAM_ADDRESS.toString()
+    ) {
+      const accountIndices: number[] = ix.accountIndices ?? [];
+      if (accountIndices.length >= 4) {
+        // TransferChecked and ApproveChecked account order: [source, mint, destination | delegate, owner, ...]
+        const destination = staticAccounts[accountIndices[2]]?.toString();
+        if (destination) return { destination, tokenProgram: programAddress };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the signature that identifies the transaction once it is signed by the fee payer.
+ * Ed25519 signatures are deterministic, so the same transaction always yields the same signature.
+ *
+ * @param signer - The fee payer that will sign the transaction
+ * @param transaction - The transaction to get the signature for
+ * @returns The transaction signature as a base58 string
+ */
+export async function getFeePayerSignature(
+  signer: KeyPairSigner,
+  transaction: Transaction,
+): Promise<string> {
+  const signedTransaction = await partiallySignTransaction([signer.keyPair], transaction);
+  return getSignatureFromTransaction(signedTransaction);
+}
+
 /**
  * Sign and simulate a transaction.
  *
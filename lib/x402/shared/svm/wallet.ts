@@ -6,7 +6,10 @@ import {
   type SolanaRpcApiDevnet,
   type RpcMainnet,
   type SolanaRpcApiMainnet,
-  isKeyPairSigner,
+  isTransactionModifyingSigner,
+  isTransactionPartialSigner,
+  type TransactionModifyingSigner,
+  type TransactionPartialSigner,
 } from "@solana/kit";
 import { base58 } from "@scure/base";
 import { getRpcClient } from "./rpc.js";
@@ -14,7 +17,13 @@ import { Network, SupportedSVMNetworks } from "../../types/shared/index.js";
 export type { KeyPairSigner } from "@solana/kit";
 
 export type SvmConnectedClient = RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>;
-export type SvmSigner = KeyPairSigner;
+/**
+ * A signer that can pay with SVM payments: a KeyPairSigner, a remote signer, or a browser wallet
+ * such as a Wallet Standard adapter. The facilitator submits the transaction, so signers that
+ * send transactions themselves are not supported. The facilitator verifies the exact instructions
+ * of the payment, so a modifying signer must sign the transaction without changing it.
+ */
+export type SvmSigner = TransactionPartialSigner | TransactionModifyingSigner;
 
 /**
  * Creates a public client configured for the specified SVM network
@@ -52,11 +61,15 @@ export async function createSignerFromBase58(privateKey: string): Promise<KeyPai
 }
 
 /**
- * Checks if the given wallet is a solana KeyPairSigner wallet.
+ * Checks if the given wallet is a solana signer wallet, i.e. a partial or modifying transaction signer.
  *
  * @param wallet - The object wallet to check.
- * @returns True if the wallet is a solana KeyPairSigner wallet, false otherwise.
+ * @returns True if the wallet is a solana signer wallet, false otherwise.
  */
-export function isSignerWallet(wallet: SvmSigner): wallet is SvmSigner {
-  return isKeyPairSigner(wallet);
+export function isSignerWallet(wallet: object): wallet is SvmSigner {
+  if (!("address" in wallet)) {
+    return false;
+  }
+  const signer = wallet as SvmSigner;
+  return isTransactionPartialSigner(signer) || isTransactionModifyingSigner(signer);
 }
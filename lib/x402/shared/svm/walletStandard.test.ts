@@ -0,0 +1,132 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  type Blockhash,
+  createTransactionMessage,
+  generateKeyPair,
+  getAddressFromPublicKey,
+  getTransactionDecoder,
+  getTransactionEncoder,
+  isTransactionModifyingSigner,
+  partiallySignTransactionMessageWithSigners,
+  pipe,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signBytes,
+  signTransaction,
+} from "@solana/kit";
+import {
+  createWalletStandardSigner,
+  WalletStandardAccount,
+  WalletStandardWallet,
+} from "./walletStandard";
+
+describe("createWalletStandardSigner", () => {
+  let keyPair: CryptoKeyPair;
+  let account: WalletStandardAccount;
+  let wallet: WalletStandardWallet;
+  const signTransactionFeature = vi.fn();
+
+  beforeAll(async () => {
+    keyPair = await generateKeyPair();
+    account = { address: await getAddressFromPublicKey(keyPair.publicKey) };
+
+    // a fake wallet-standard wallet that signs the wire transactions with its keypair
+    signTransactionFeature.mockImplementation(async (...inputs: { transaction: Uint8Array }[]) =>
+      Promise.all(
+        inputs.map(async ({ transaction }) => {
+          const decoded = getTransactionDecoder().decode(transaction);
+          const signed = await signTransaction([keyPair], decoded);
+          return { signedTransaction: new Uint8Array(getTransactionEncoder().encode(signed)) };
+        }),
+      ),
+    );
+    wallet = {
+      features: {
+        "standard:connect": {},
+        "solana:signTransaction": { signTransaction: signTransactionFeature },
+      },
+    };
+  });
+
+  /**
+   * Creates a transaction message paid by the signer
+   *
+   * @param signer - The signer that pays the transaction
+   * @returns The transaction message
+   */
+  function createMessage(signer: ReturnType<typeof createWalletStandardSigner>) {
+    return pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayerSigner(signer, tx),
+      tx =>
+        setTransactionMessageLifetimeUsingBlockhash(
+          {
+            blockhash: "11111111111111111111111111111111" as Blockhash,
+            lastValidBlockHeight: 0n,
+          },
+          tx,
+        ),
+    );
+  }
+
+  it("should create a modifying signer for the account", () => {
+    const signer = createWalletStandardSigner(wallet, account);
+
+    expect(signer.address).toBe(account.address);
+    expect(isTransactionModifyingSigner(signer)).toBe(true);
+  });
+
+  it("should throw if the wallet cannot sign solana transactions", () => {
+    expect(() => createWalletStandardSigner({ features: {} }, account)).toThrow(
+      "The wallet does not support the solana:signTransaction feature",
+    );
+  });
+
+  it("should sign transactions with the wallet", async () => {
+    const signer = createWalletStandardSigner(wallet, account, "solana-devnet");
+
+    const transaction = await partiallySignTransactionMessageWithSigners(createMessage(signer));
+
+    expect(signTransactionFeature).toHaveBeenCalledWith(
+      expect.objectContaining({ account, chain: "solana:devnet" }),
+    );
+    const signature = transaction.signatures[signer.address];
+    expect(signature).toEqual(await signBytes(keyPair.privateKey, transaction.messageBytes));
+  });
+
+  it("should reject a transaction that the wallet modified", async () => {
+    const signer = createWalletStandardSigner(
+      {
+        features: {
+          "solana:signTransaction": {
+            signTransaction: async (...inputs: { transaction: Uint8Array }[]) =>
+              inputs.map(({ transaction }) => {
+                const decoded = getTransactionDecoder().decode(transaction);
+                const messageBytes = new Uint8Array(decoded.messageBytes);
+                messageBytes[messageBytes.length - 1] ^= 1;
+                return {
+                  signedTransaction: new Uint8Array(
+                    getTransactionEncoder().encode({ ...decoded, messageBytes } as never),
+                  ),
+                };
+              }),
+          },
+        },
+      },
+      account,
+    );
+
+    await expect(partiallySignTransactionMessageWithSigners(createMessage(signer))).rejects.toThrow(
+      "The wallet modified the payment transaction",
+    );
+  });
+
+  it("should not pass a chain without a network", async () => {
+    signTransactionFeature.mockClear();
+    const signer = createWalletStandardSigner(wallet, account);
+
+    await partiallySignTransactionMessageWithSigners(createMessage(signer));
+
+    expect(signTransactionFeature.mock.calls[0][0]).not.toHaveProperty("chain");
+  });
+});
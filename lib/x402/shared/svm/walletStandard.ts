@@ -0,0 +1,118 @@
+import {
+  Address,
+  getTransactionDecoder,
+  getTransactionEncoder,
+  Transaction,
+  TransactionModifyingSigner,
+} from "@solana/kit";
+import { Network } from "../../types/shared/index.js";
+
+/**
+ * The Wallet Standard chains of the Solana networks
+ */
+const WalletStandardChains: Partial<Record<Network, `solana:${string}`>> = {
+  solana: "solana:mainnet",
+  "solana-devnet": "solana:devnet",
+  "solana-localnet": "solana:localnet",
+};
+
+/**
+ * An account of a Wallet Standard wallet, e.g. from `wallet.accounts`
+ */
+export interface WalletStandardAccount {
+  /**
+   * The base58 encoded address of the account.
+   */
+  address: string;
+}
+
+/**
+ * The `solana:signTransaction` feature of a Wallet Standard wallet
+ */
+export interface SolanaSignTransactionFeature {
+  "solana:signTransaction": {
+    signTransaction(
+      ...inputs: {
+        account: WalletStandardAccount;
+        transaction: Uint8Array;
+        chain?: `solana:${string}`;
+      }[]
+    ): Promise<readonly { signedTransaction: Uint8Array }[]>;
+  };
+}
+
+/**
+ * A Wallet Standard wallet (e.g. Phantom or Solflare) that can sign Solana transactions
+ */
+export interface WalletStandardWallet {
+  features: Partial<SolanaSignTransactionFeature> & Record<string, unknown>;
+}
+
+/**
+ * Creates a signer that signs SVM payments with an account of a Wallet Standard wallet.
+ * Wallets sign the wire transactions, so it is a modifying signer, but the facilitator only
+ * accepts the instructions of the payment: a transaction that the wallet modified, e.g. by
+ * adding guard instructions, is rejected before it is sent.
+ *
+ * @param wallet - The Wallet Standard wallet that holds the account
+ * @param account - The account of the wallet that pays
+ * @param network - Optional network that the wallet signs for
+ * @returns A transaction modifying signer that can be passed to `createPaymentHeader` or `wrapFetchWithPayment`
+ * @throws Error if the wallet does not support the `solana:signTransaction` feature
+ * @throws Error if the wallet modifies a transaction that it signs
+ *
+ * @example
+ * ```typescript
+ * const wallet = getWallets().get().find(wallet => wallet.name === "Phantom");
+ * const signer = createWalletStandardSigner(wallet, wallet.accounts[0], "solana");
+ * const fetchWithPayment = wrapFetchWithPayment(fetch, signer);
+ * ```
+ */
+export function createWalletStandardSigner(
+  wallet: WalletStandardWallet,
+  account: WalletStandardAccount,
+  network?: Network,
+): TransactionModifyingSigner {
+  const feature = wallet.features["solana:signTransaction"];
+  if (!feature) {
+    throw new Error("The wallet does not support the solana:signTransaction feature");
+  }
+
+  const chain = network ? WalletStandardChains[network] : undefined;
+  const transactionEncoder = getTransactionEncoder();
+  const transactionDecoder = getTransactionDecoder();
+
+  return Object.freeze({
+    address: account.address as Address,
+    async modifyAndSignTransactions<T extends Transaction>(
+      transactions: readonly T[],
+    ): Promise<readonly T[]> {
+      if (transactions.length === 0) {
+        return transactions;
+      }
+
+      const outputs = await feature.signTransaction(
+        ...transactions.map(transaction => ({
+          account,
+          transaction: new Uint8Array(transactionEncoder.encode(transaction)),
+          ...(chain && { chain }),
+        })),
+      );
+
+      // the wallet returns the signed wire transactions, which must keep the payment message
+      return outputs.map(({ signedTransaction }, index) => {
+        const decoded = transactionDecoder.decode(signedTransaction);
+        const { messageBytes } = transactions[index];
+        if (
+          decoded.messageBytes.length !== messageBytes.length ||
+          decoded.messageBytes.some((byte, i) => byte !== messageBytes[i])
+        ) {
+          throw new Error(
+            "The wallet modified the payment transaction, which the facilitator would reject",
+          );
+        }
+        return { ...transactions[index], ...decoded } as T;
+      });
+    },
+  });
+}
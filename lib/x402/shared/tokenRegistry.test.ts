@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchMint, TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import { TOKEN_PROGRAM_ADDRESS } from "@solana-program/token";
+import { createTokenRegistry, TokenInfo } from "./tokenRegistry";
+import { getDefaultAsset } from "./middleware";
+
+vi.mock("@solana-program/token-2022", async importOriginal => ({
+  ...(await importOriginal<typeof import("@solana-program/token-2022")>()),
+  fetchMint: vi.fn(),
+}));
+
+describe("createTokenRegistry", () => {
+  const customToken: TokenInfo = {
+    address: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+    symbol: "ACME",
+    name: "Acme Credits",
+    decimals: 9,
+    tokenProgram: TOKEN_PROGRAM_ADDRESS,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should know USDC, USDT, PYUSD and EURC on solana mainnet", () => {
+    const registry = createTokenRegistry();
+
+    expect(registry.getTokens("solana").map(token => token.symbol)).toEqual([
+      "USDC",
+      "USDT",
+      "PYUSD",
+      "EURC",
+    ]);
+    expect(registry.getToken("solana", "pyusd")).toEqual(
+      expect.objectContaining({
+        address: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo",
+        decimals: 6,
+        tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+      }),
+    );
+  });
+
+  it("should know USDC on evm networks from the chain config", () => {
+    const registry = createTokenRegistry();
+
+    expect(registry.getDefaultToken("base")).toEqual({
+      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+    });
+    expect(registry.getToken("base", "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913")?.symbol).toBe(
+      "USDC",
+    );
+  });
+
+  it("should find tokens by address", () => {
+    const registry = createTokenRegistry();
+
+    expect(
+      registry.getToken("solana", "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB")?.symbol,
+    ).toBe("USDT");
+    expect(registry.getToken("solana-devnet", "USDT")).toBeUndefined();
+  });
+
+  it("should register custom tokens", () => {
+    const registry = createTokenRegistry();
+
+    registry.register("solana-devnet", customToken);
+
+    expect(registry.getToken("solana-devnet", "ACME")).toEqual(customToken);
+    expect(registry.getDefaultToken("solana-devnet")?.symbol).toBe("USDC");
+  });
+
+  it("should replace a registered token with the same address", () => {
+    const registry = createTokenRegistry({ "solana-devnet": [customToken] });
+
+    registry.register("solana-devnet", { ...customToken, decimals: 6 });
+
+    expect(registry.getTokens("solana-devnet")).toEqual([{ ...customToken, decimals: 6 }]);
+  });
+
+  it("should register a custom token as the default token of a network", () => {
+    const registry = createTokenRegistry();
+
+    registry.register("solana-devnet", customToken, { default: true });
+
+    expect(registry.getDefaultToken("solana-devnet")).toEqual(customToken);
+    expect(registry.getDefaultToken("solana")?.symbol).toBe("USDC");
+  });
+
+  it("should not share tokens between registries", () => {
+    const registry = createTokenRegistry();
+
+    registry.register("solana", customToken);
+
+    expect(createTokenRegistry().getToken("solana", "ACME")).toBeUndefined();
+  });
+
+  describe("validate", () => {
+    it("should pass if the decimals and token programs match the chain", async () => {
+      const registry = createTokenRegistry({ "solana-devnet": [customToken] });
+      vi.mocked(fetchMint).mockResolvedValue({
+        programAddress: TOKEN_PROGRAM_ADDRESS,
+        data: { decimals: 9 },
+      } as Awaited<ReturnType<typeof fetchMint>>);
+
+      await expect(registry.validate("solana-devnet")).resolves.toBeUndefined();
+      expect(fetchMint).toHaveBeenCalledWith(expect.anything(), customToken.address);
+    });
+
+    it("should throw if the decimals do not match the chain", async () => {
+      const registry = createTokenRegistry({ "solana-devnet": [customToken] });
+      vi.mocked(fetchMint).mockResolvedValue({
+        programAddress: TOKEN_PROGRAM_ADDRESS,
+        data: { decimals: 6 },
+      } as Awaited<ReturnType<typeof fetchMint>>);
+
+      await expect(registry.validate("solana-devnet")).rejects.toThrow(
+        "Token ACME (4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU) on solana-devnet has 6 decimals, but 9 are registered",
+      );
+    });
+
+    it("should throw if the token program does not match the chain", async () => {
+      const registry = createTokenRegistry({ "solana-devnet": [customToken] });
+      vi.mocked(fetchMint).mockResolvedValue({
+        programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+        data: { decimals: 9 },
+      } as Awaited<ReturnType<typeof fetchMint>>);
+
+      await expect(registry.validate("solana-devnet")).rejects.toThrow(
+        `is owned by ${TOKEN_2022_PROGRAM_ADDRESS}, but ${TOKEN_PROGRAM_ADDRESS} is registered`,
+      );
+    });
+
+    it("should throw for evm networks", async () => {
+      await expect(createTokenRegistry().validate("base")).rejects.toThrow(
+        "Only tokens on Solana networks can be validated, got base",
+      );
+    });
+  });
+});
+
+describe("getDefaultAsset", () => {
+  it("should return the solana usdc of the token registry", () => {
+    expect(getDefaultAsset("solana")).toEqual({
+      address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { Address } from "@solana/kit";
+import { fetchMint, TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import { TOKEN_PROGRAM_ADDRESS } from "@solana-program/token";
+import { config } from "../types/shared/evm/config.js";
+import { EvmNetworkToChainId, Network, SupportedSVMNetworks } from "../types/shared/network.js";
+import { getRpcClient } from "./svm/rpc.js";
+
+/**
+ * A token that can be used as the asset of a payment
+ */
+export interface TokenInfo {
+  /**
+   * Token mint address (for Solana) or contract address (for EVM).
+   */
+  address: string;
+  /**
+   * Token symbol (e.g., "USDC", "USDT").
+   */
+  symbol: string;
+  /**
+   * Token name (e.g., "USD Coin").
+   */
+  name: string;
+  /**
+   * Number of decimals for the token.
+   */
+  decimals: number;
+  /**
+   * Address of the program that owns the mint, for Solana tokens.
+   */
+  tokenProgram?: string;
+  /**
+   * EIP-712 configuration for EVM tokens.
+   */
+  eip712?: {
+    name: string;
+    version: string;
+  };
+}
+
+/**
+ * Maps networks to the tokens that are known on them
+ */
+export interface TokenRegistry {
+  /**
+   * Gets the tokens that are known on the network
+   *
+   * @param network - The network to get the tokens of
+   * @returns The known tokens of the network
+   */
+  getTokens(network: Network): TokenInfo[];
+
+  /**
+   * Finds a token of the network by its symbol (case insensitive) or address
+   *
+   * @param network - The network of the token
+   * @param symbolOrAddress - The symbol or address of the token
+   * @returns The token, or undefined if it is not known
+   */
+  getToken(network: Network, symbolOrAddress: string): TokenInfo | undefined;
+
+  /**
+   * Gets the token that prices in USD are paid with on the network, USDC unless another token was
+   * registered as the default
+   *
+   * @param network - The network to get the default token of
+   * @returns The default token, or undefined if the network has no default token
+   */
+  getDefaultToken(network: Network): TokenInfo | undefined;
+
+  /**
+   * Registers a token on the network, replacing a known token with the same address
+   *
+   * @param network - The network of the token
+   * @param token - The token to register
+   * @param options - Optional registration options
+   * @param options.default - Whether prices in USD are paid with this token on the network
+   */
+  register(network: Network, token: TokenInfo, options?: { default?: boolean }): void;
+
+  /**
+   * Fetches the mints of the Solana tokens of the network and throws if their decimals or token
+   * program do not match the registry, e.g. to validate the configuration at startup
+   *
+   * @param network - The Solana network to validate the tokens of
+   * @param rpcUrl - Optional custom RPC URL
+   */
+  validate(network: Network, rpcUrl?: string): Promise<void>;
+}
+
+const solanaTokens: Partial<Record<Network, TokenInfo[]>> = {
+  "solana-localnet": [
+    {
+      address: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+      symbol: "USDC",
+      name: "USDC",
+      decimals: 6,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    },
+  ],
+  "solana-devnet": [
+    {
+      address: "usdrxLChKFKAnztF9SHEKPUGNx6tvD97air6ebAKmKb",
+      symbol: "USDC",
+      name: "USDC",
+      decimals: 6,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    },
+    {
+      address: "CXk2AMBfi3TwaEL2468s6zP8xq9NxTXjp9gjMgzeUynM",
+      symbol: "PYUSD",
+      name: "PayPal USD",
+      decimals: 6,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    },
+  ],
+  solana: [
+    {
+      address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    },
+    {
+      address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+      symbol: "USDT",
+      name: "USDT",
+      decimals: 6,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    },
+    {
+      address: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo",
+      symbol: "PYUSD",
+      name: "PayPal USD",
+      decimals: 6,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    },
+    {
+      address: "HzwqbKZw8HxMN6bF2yFZNrht3c2iXXzpKcFu7uBEDKtr",
+      symbol: "EURC",
+      name: "EURC",
+      decimals: 6,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    },
+  ],
+};
+
+/**
+ * Gets the tokens that are known without registering them, USDC on every EVM network of the chain
+ * config and the well known stablecoins on Solana
+ *
+ * @returns The known tokens of each network
+ */
+function getKnownTokens(): Partial<Record<Network, TokenInfo[]>> {
+  const evmTokens = Object.fromEntries(
+    [...EvmNetworkToChainId.entries()]
+      .filter(([, chainId]) => config[chainId.toString()])
+      .map(([network, chainId]) => {
+        const { usdcAddress, usdcName } = config[chainId.toString()];
+        return [
+          network,
+          [
+            {
+              address: usdcAddress,
+              symbol: "USDC",
+              name: usdcName,
+              decimals: 6,
+              eip712: { name: usdcName, version: "2" },
+            },
+          ],
+        ];
+      }),
+  );
+
+  return { ...evmTokens, ...solanaTokens };
+}
+
+/**
+ * Creates a token registry
+ *
+ * @param tokens - The tokens of each network, defaults to the known tokens
+ * @returns The token registry
+ */
+export function createTokenRegistry(
+  tokens: Partial<Record<Network, TokenInfo[]>> = getKnownTokens(),
+): TokenRegistry {
+  const registry = new Map<Network, TokenInfo[]>(
+    Object.entries(tokens).map(([network, networkTokens]) => [
+      network as Network,
+      [...(networkTokens ?? [])],
+    ]),
+  );
+  const defaults = new Map<Network, string>();
+
+  const getTokens = (network: Network) => registry.get(network) ?? [];
+
+  const getToken = (network: Network, symbolOrAddress: string) =>
+    getTokens(network).find(token => token.address === symbolOrAddress) ??
+    getTokens(network).find(
+      token =>
+        token.address.toLowerCase() === symbolOrAddress.toLowerCase() ||
+        token.symbol.toLowerCase() === symbolOrAddress.toLowerCase(),
+    );
+
+  return {
+    getTokens,
+    getToken,
+
+    getDefaultToken(network) {
+      const defaultAddress = defaults.get(network);
+      return defaultAddress ? getToken(network, defaultAddress) : getToken(network, "USDC");
+    },
+
+    register(network, token, options = {}) {
+      registry.set(network, [
+        ...getTokens(network).filter(known => known.address !== token.address),
+        token,
+      ]);
+      if (options.default) {
+        defaults.set(network, token.address);
+      }
+    },
+
+    async validate(network, rpcUrl) {
+      if (!SupportedSVMNetworks.includes(network)) {
+        throw new Error(`Only tokens on Solana networks can be validated, got ${network}`);
+      }
+
+      const rpc = getRpcClient(network, rpcUrl);
+      for (const token of getTokens(network)) {
+        const mint = await fetchMint(rpc, token.address as Address);
+
+        if (mint.data.decimals !== token.decimals) {
+          throw new Error(
+            `Token ${token.symbol} (${token.address}) on ${network} has ${mint.data.decimals} decimals, but ${token.decimals} are registered`,
+          );
+        }
+        if (token.tokenProgram && mint.programAddress.toString() !== token.tokenProgram) {
+          throw new Error(
+            `Token ${token.symbol} (${token.address}) on ${network} is owned by ${mint.programAddress}, but ${token.tokenProgram} is registered`,
+          );
+        }
+      }
+    },
+  };
+}
+
+/**
+ * The token registry that the middleware, the client and the paywall read from. Register your own
+ * tokens on it to use them by symbol or as the default token of a network.
+ */
+export const tokenRegistry = createTokenRegistry();
@@ -1,3 +1,6 @@
+import type { PaymentStore } from "../shared/svm/paymentStore.js";
+import type { PaymentRequirements } from "./verify/index.js";
+
 /**
  * Configuration for custom token assets.
  */
@@ -23,6 +26,63 @@ export interface TokenConfig {
   };
 }
 
+/**
+ * Configuration for signing SVM payments with a durable nonce instead of a recent blockhash.
+ */
+export interface DurableNonceConfig {
+  /**
+   * Address of the nonce account whose current nonce is used as the transaction lifetime.
+   * The paying client must be the authority of the nonce account.
+   */
+  nonceAccountAddress: string;
+}
+
+/**
+ * How the client prices the compute units of SVM payment transactions, in microlamports.
+ * The price is clamped to the maximum price that the facilitator accepts.
+ *
+ * - `fixed` uses the same price for every transaction
+ * - `percentile` uses a percentile of the fees returned by the RPC `getRecentPrioritizationFees`
+ *   method, optionally for transactions that write-lock all of the given accounts
+ * - `custom` calls back to get the price of each transaction
+ */
+export type PriorityFeeStrategy =
+  | { type: "fixed"; microLamports: number | bigint }
+  | { type: "percentile"; percentile: number; accounts?: string[] }
+  | {
+      type: "custom";
+      getComputeUnitPrice: (
+        paymentRequirements: PaymentRequirements,
+      ) => number | bigint | Promise<number | bigint>;
+    };
+
+/**
+ * Limits that the facilitator enforces on the transactions it pays the fees of.
+ */
+export interface FacilitatorPolicy {
+  /**
+   * Maximum compute unit price in microlamports.
+   * If not provided, defaults to 5 lamports (5,000,000 microlamports).
+   */
+  maxComputeUnitPrice?: number | bigint;
+  /**
+   * Maximum compute unit limit.
+   * If not provided, any compute unit limit is accepted.
+   */
+  maxComputeUnitLimit?: number;
+  /**
+   * Maximum total fee in lamports, the signature fees plus the priority fee. For upto payments it
+   * includes the fee of the transfer transaction that follows the approval.
+   * If not provided, the fee is only limited by the compute unit price and limit.
+   */
+  maxTotalFee?: number | bigint;
+  /**
+   * Whether the transaction may create the payee's associated token account,
+   * whose rent is paid by the facilitator. Defaults to true.
+   */
+  allowCreateDestinationATA?: boolean;
+}
+
 /**
  * Configuration options for Solana (SVM) RPC connections.
  */
@@ -37,6 +97,43 @@ export interface SvmConfig {
    * If not provided, defaults to USDC.
    */
   defaultToken?: TokenConfig;
+
+  /**
+   * Durable nonce used by the client when building payment transactions.
+   * If provided, the transaction does not expire with the recent blockhash (~60 seconds)
+   * and stays valid until the nonce account is advanced.
+   */
+  durableNonce?: DurableNonceConfig;
+
+  /**
+   * Compute unit price strategy used by the client when building payment transactions.
+   * If not provided, a fixed price of 1 microlamport is used.
+   */
+  priorityFee?: PriorityFeeStrategy;
+
+  /**
+   * Store of settled payment transactions, used by the facilitator.
+   * If provided, settling the same transaction twice returns the original settle response
+   * and verifying an already settled transaction is rejected.
+   */
+  paymentStore?: PaymentStore;
+
+  /**
+   * Limits on the transactions that the facilitator pays the fees of, used by the facilitator.
+   * Transactions that breach the policy are rejected during verification.
+   */
+  facilitatorPolicy?: FacilitatorPolicy;
+}
+
+/**
+ * Configuration options for EVM RPC connections.
+ */
+export interface EvmConfig {
+  /**
+   * Custom RPC URL for EVM connections.
+   * If not provided, defaults to the public RPC endpoint of the chain.
+   */
+  rpcUrl?: string;
 }
 
 /**
@@ -45,5 +142,6 @@ export interface SvmConfig {
 export interface X402Config {
   /** Configuration for Solana (SVM) operations */
   svmConfig?: SvmConfig;
-  // Future: evmConfig?: EvmConfig for EVM-specific configurations
+  /** Configuration for EVM operations */
+  evmConfig?: EvmConfig;
 }
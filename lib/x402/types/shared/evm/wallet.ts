@@ -51,15 +51,17 @@ export type EvmSigner = SignerWallet<Chain, Transport, Account> | LocalAccount;
  * Creates a public client configured for the specified network
  *
  * @param network - The network to connect to
+ * @param rpcUrl - Optional custom RPC URL, defaults to the public RPC endpoint of the chain
  * @returns A public client instance connected to the specified chain
  */
 export function createConnectedClient(
   network: string,
+  rpcUrl?: string,
 ): ConnectedClient<Transport, Chain, undefined> {
   const chain = getChainFromNetwork(network);
   return createPublicClient({
     chain,
-    transport: http(),
+    transport: http(rpcUrl),
   }).extend(publicActions);
 }
 
@@ -4,6 +4,7 @@ import { Network } from "./network.js";
 import { Resource } from "./resource.js";
 import { EvmSigner } from "./evm/index.js";
 import { HTTPRequestStructure } from "../index.js";
+import type { PaywallOptions } from "../../shared/paywall.js";
 
 export type FacilitatorConfig = {
   url: Resource;
@@ -15,10 +16,115 @@ export type PaywallConfig = {
   appName?: string;
   appLogo?: string;
   sessionTokenEndpoint?: string;
+  /**
+   * The RPC URL that the paywall uses in the browser for Solana payments, e.g. to check the token
+   * balance and build the transfer. Defaults to the public RPC of the network. It is sent to the
+   * browser, so it must not contain secret API keys.
+   */
+  svmRpcUrl?: string;
+  /**
+   * Colors, font and border radius of the paywall page.
+   */
+  theme?: PaywallTheme;
+  /**
+   * The locale of the paywall texts, e.g. "zh-CN". English ("en") and Chinese ("zh") are built in,
+   * other locales fall back to English unless `messages` translates them.
+   */
+  locale?: string;
+  /**
+   * Overrides of the paywall texts of the locale.
+   */
+  messages?: Partial<PaywallMessages>;
+  /**
+   * Trusted HTML that the paywall renders above the payment card, e.g. a navigation bar.
+   */
+  header?: string;
+  /**
+   * Trusted HTML that the paywall renders below the payment card, e.g. terms or support links.
+   */
+  footer?: string;
+  /**
+   * Renders the paywall page instead of the built-in paywall, e.g. with the template engine of the
+   * server. Receives the same options that the built-in paywall is generated from.
+   */
+  render?: (options: PaywallOptions) => string | Promise<string>;
 };
 
-export type PaymentMiddlewareConfig = {
-  description?: string;
+/**
+ * Theme tokens of the paywall page, any CSS value is accepted
+ */
+export type PaywallTheme = {
+  colors?: {
+    background?: string;
+    container?: string;
+    text?: string;
+    secondaryText?: string;
+    details?: string;
+    detailsHover?: string;
+    primary?: string;
+    primaryHover?: string;
+    secondary?: string;
+    secondaryHover?: string;
+    positive?: string;
+    positiveHover?: string;
+    error?: string;
+    errorHover?: string;
+  };
+  fontFamily?: string;
+  borderRadius?: string;
+};
+
+/**
+ * The texts of the paywall page. Texts can contain `{name}` placeholders, e.g. `{amount}`,
+ * `{token}`, `{network}` or `{wallet}`, that the paywall replaces with their values.
+ */
+export type PaywallMessages = {
+  title: string;
+  cannotPayInBrowser: string;
+  chooseOption: string;
+  chooseAnotherOption: string;
+  payAmount: string;
+  faucetPrompt: string;
+  faucetLink: string;
+  connectWallet: string;
+  connectNamedWallet: string;
+  installSolanaWallet: string;
+  disconnect: string;
+  loading: string;
+  walletLabel: string;
+  balanceLabel: string;
+  amountLabel: string;
+  networkLabel: string;
+  getMoreUsdc: string;
+  payNow: string;
+  switchNetwork: string;
+  wrongNetwork: string;
+  checkingBalance: string;
+  insufficientBalance: string;
+  creatingSignature: string;
+  waitingForSignature: string;
+  requestingContent: string;
+  walletUnavailable: string;
+  noAccount: string;
+  connectFailed: string;
+  switchFailed: string;
+  paymentFailed: string;
+  paymentFailedReason: string;
+  paymentRetryFailed: string;
+  requestFailed: string;
+};
+
+/**
+ * A route config value that is either static, or resolved from the request of the server framework
+ * (e.g. the Express `Request`) before the payment requirements are built. The value must only depend
+ * on the request, so that the 402 response and the paid retry resolve to the same requirements.
+ */
+export type RequestValue<T, TRequest> = [TRequest] extends [never]
+  ? T
+  : T | ((request: TRequest) => T | Promise<T>);
+
+export type PaymentMiddlewareConfig<TRequest = unknown> = {
+  description?: RequestValue<string, TRequest>;
   mimeType?: string;
   maxTimeoutSeconds?: number;
   inputSchema?: Omit<HTTPRequestStructure, "type" | "method">;
@@ -57,18 +163,47 @@ export interface SPLTokenAmount {
 
 export type Price = Money | ERC20TokenAmount | SPLTokenAmount;
 
-export interface RouteConfig {
-  price: Price;
+export interface PaymentOption<TRequest = unknown> {
+  price: RequestValue<Price, TRequest>;
   network: Network;
-  config?: PaymentMiddlewareConfig;
+  /**
+   * The address to receive payments made with this option, defaults to the payTo address of the
+   * middleware
+   */
+  payTo?: RequestValue<string, TRequest>;
+  /**
+   * The payment scheme, defaults to "exact". With "upto" (svm networks only) the price is the
+   * maximum amount the client authorizes, and the route reports the amount actually charged.
+   */
+  scheme?: "exact" | "upto";
 }
 
-export type RoutesConfig = Record<string, Price | RouteConfig>;
+export type RouteConfig<TRequest = unknown> = (
+  | PaymentOption<TRequest>
+  | {
+      /**
+       * The payment options the route accepts, the client pays with one of them
+       */
+      accepts: PaymentOption<TRequest>[];
+    }
+) & {
+  config?: PaymentMiddlewareConfig<TRequest>;
+};
+
+/**
+ * A route config whose request values have been resolved for the current request
+ */
+export type ResolvedRouteConfig = RouteConfig<never>;
+
+export type RoutesConfig<TRequest = unknown> = Record<
+  string,
+  Price | RouteConfig<TRequest> | PaymentOption<TRequest>[]
+>;
 
-export interface RoutePattern {
+export interface RoutePattern<TRequest = unknown> {
   verb: string;
   pattern: RegExp;
-  config: RouteConfig;
+  config: RouteConfig<TRequest>;
 }
 
 export type Wallet = EvmSigner;
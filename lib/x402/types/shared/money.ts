@@ -1,7 +1,31 @@
 import { z } from "zod";
+import { compareDecimals, normalizeDecimal } from "../../shared/decimal.js";
 
+/**
+ * Parses a USD amount such as "$3.10", "0.000001" or 0.10 into a normalized decimal string, so
+ * that it can be converted to atomic units without floating point errors
+ */
 export const moneySchema = z
   .union([z.string().transform(x => x.replace(/[^0-9.-]+/g, "")), z.number()])
-  .pipe(z.coerce.number().min(0.0001).max(999999999));
+  .transform((value, ctx) => {
+    let decimal: string;
+    try {
+      decimal = normalizeDecimal(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a decimal number" });
+      return z.NEVER;
+    }
+
+    if (compareDecimals(decimal, 0) <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be greater than 0" });
+      return z.NEVER;
+    }
+    if (compareDecimals(decimal, 999999999) > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be at most 999999999" });
+      return z.NEVER;
+    }
+
+    return decimal;
+  });
 
 export type Money = z.input<typeof moneySchema>;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { type Address, type Transaction, generateKeyPairSigner } from "@solana/kit";
+import { privateKeyToAccount } from "viem/accounts";
+import { isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, Signer } from "./wallet";
+
+describe("wallet type guards", () => {
+  const address = "EwWqGE4ZFKLofuestmU4LDdK7XM1N4ALgdZccwYugwGd" as Address;
+  const evmAccount = privateKeyToAccount(
+    "0x0123456789012345678901234567890123456789012345678901234567890123",
+  );
+
+  describe("isSvmSignerWallet", () => {
+    it("should accept a KeyPairSigner", async () => {
+      expect(isSvmSignerWallet(await generateKeyPairSigner())).toBe(true);
+    });
+
+    it("should accept a partial signer", () => {
+      const signer = { address, signTransactions: async () => [] };
+
+      expect(isSvmSignerWallet(signer)).toBe(true);
+    });
+
+    it("should accept a modifying signer such as a wallet-standard adapter", () => {
+      const signer = {
+        address,
+        modifyAndSignTransactions: async <T extends Transaction>(transactions: readonly T[]) =>
+          transactions,
+      };
+
+      expect(isSvmSignerWallet(signer)).toBe(true);
+    });
+
+    it("should reject an EVM account", () => {
+      expect(isSvmSignerWallet(evmAccount)).toBe(false);
+    });
+
+    it("should reject a signer that can only send transactions", () => {
+      const signer = { address, signAndSendTransactions: async () => [] } as unknown as Signer;
+
+      expect(isSvmSignerWallet(signer)).toBe(false);
+    });
+  });
+
+  describe("isEvmSignerWallet", () => {
+    it("should not treat a modifying SVM signer as an EVM signer", () => {
+      const signer = {
+        address,
+        modifyAndSignTransactions: async <T extends Transaction>(transactions: readonly T[]) =>
+          transactions,
+      };
+
+      expect(isEvmSignerWallet(signer)).toBe(false);
+      expect(isEvmSignerWallet(evmAccount)).toBe(true);
+    });
+  });
+
+  describe("isMultiNetworkSigner", () => {
+    it("should accept an EVM account with a modifying SVM signer", () => {
+      const svm = {
+        address,
+        modifyAndSignTransactions: async <T extends Transaction>(transactions: readonly T[]) =>
+          transactions,
+      };
+
+      expect(isMultiNetworkSigner({ evm: evmAccount, svm })).toBe(true);
+      expect(isMultiNetworkSigner(svm)).toBe(false);
+    });
+  });
+});
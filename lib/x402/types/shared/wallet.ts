@@ -6,6 +6,11 @@ import { Hex } from "viem";
 export type ConnectedClient = evm.ConnectedClient | svm.SvmConnectedClient;
 export type Signer = evm.EvmSigner | svm.SvmSigner;
 export type MultiNetworkSigner = { evm: evm.EvmSigner; svm: svm.SvmSigner };
+/**
+ * A signer that holds its private key, as created by `createSigner`. The facilitator needs one,
+ * because it co-signs SVM payments as their fee payer with its key pair.
+ */
+export type FacilitatorSigner = evm.EvmSigner | svm.KeyPairSigner;
 
 /**
  * Creates a public client configured for the specified network.
@@ -32,7 +37,10 @@ export function createConnectedClient(network: string): ConnectedClient {
  * @param privateKey - The private key to use for signing transactions. This should be a hex string for EVM or a base58 encoded string for SVM.
  * @returns A wallet client instance connected to the specified chain with the provided private key.
  */
-export function createSigner(network: string, privateKey: Hex | string): Promise<Signer> {
+export function createSigner(
+  network: string,
+  privateKey: Hex | string,
+): Promise<FacilitatorSigner> {
   // evm
   if (SupportedEVMNetworks.find(n => n === network)) {
     return Promise.resolve(evm.createSigner(network, privateKey as Hex));
@@ -57,13 +65,14 @@ export function isEvmSignerWallet(wallet: Signer): wallet is evm.EvmSigner {
 }
 
 /**
- * Checks if the given wallet is an SVM signer wallet
+ * Checks if the given wallet is an SVM signer wallet: a KeyPairSigner, or any partial or
+ * modifying transaction signer such as a Wallet Standard adapter
  *
  * @param wallet - The object wallet to check
  * @returns True if the wallet is an SVM signer wallet, false otherwise
  */
 export function isSvmSignerWallet(wallet: Signer): wallet is svm.SvmSigner {
-  return svm.isSignerWallet(wallet as svm.SvmSigner);
+  return svm.isSignerWallet(wallet);
 }
 
 /**
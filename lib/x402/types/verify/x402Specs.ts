@@ -10,7 +10,7 @@ const MixedAddressRegex = /^0x[a-fA-F0-9]{40}|[A-Za-z0-9][A-Za-z0-9-]{0,34}[A-Za
 const HexEncoded64ByteRegex = /^0x[0-9a-fA-F]{64}$/;
 const EvmSignatureRegex = /^0x[0-9a-fA-F]+$/; // Flexible hex signature validation
 // Enums
-export const schemes = ["exact"] as const;
+export const schemes = ["exact", "upto"] as const;
 export const x402Versions = [1] as const;
 export const ErrorReasons = [
   "insufficient_funds",
@@ -24,11 +24,16 @@ export const ErrorReasons = [
   "invalid_exact_svm_payload_transaction_create_ata_instruction",
   "invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_payee",
   "invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_asset",
+  "invalid_exact_svm_payload_transaction_create_ata_instruction_not_allowed",
   "invalid_exact_svm_payload_transaction_instructions",
   "invalid_exact_svm_payload_transaction_instructions_length",
+  "invalid_exact_svm_payload_transaction_instructions_advance_nonce_instruction",
+  "invalid_exact_svm_payload_transaction_instructions_advance_nonce_authority_is_fee_payer",
   "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+  "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high",
   "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
   "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
+  "invalid_exact_svm_payload_transaction_fee_too_high",
   "invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked",
   "invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked",
   "invalid_exact_svm_payload_transaction_not_a_transfer_instruction",
@@ -36,6 +41,16 @@ export const ErrorReasons = [
   "invalid_exact_svm_payload_transaction_sender_ata_not_found",
   "invalid_exact_svm_payload_transaction_simulation_failed",
   "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
+  "invalid_exact_svm_payload_transaction_already_settled",
+  "invalid_exact_svm_payload_transaction_decimals_mismatch",
+  "invalid_upto_svm_payload_transaction_instructions_length",
+  "invalid_upto_svm_payload_transaction_approve_instruction",
+  "invalid_upto_svm_payload_transaction_approve_incorrect_asset",
+  "invalid_upto_svm_payload_transaction_approve_incorrect_delegate",
+  "invalid_upto_svm_payload_transaction_approve_amount_mismatch",
+  "invalid_upto_svm_payload_transaction_approve_decimals_mismatch",
+  "invalid_upto_svm_payload_transaction_already_settled",
+  "invalid_upto_svm_settle_amount",
   "invalid_network",
   "invalid_payload",
   "invalid_payment_requirements",
@@ -47,7 +62,9 @@ export const ErrorReasons = [
   "invalid_transaction_state",
   "invalid_x402_version",
   "settle_exact_svm_block_height_exceeded",
+  "settle_exact_svm_durable_nonce_invalidated",
   "settle_exact_svm_transaction_confirmation_timed_out",
+  "settle_upto_svm_transaction_confirmation_timed_out",
   "unsupported_scheme",
   "unexpected_settle_error",
   "unexpected_verify_error",
@@ -102,6 +119,19 @@ export const ExactSvmPayloadSchema = z.object({
 });
 export type ExactSvmPayload = z.infer<typeof ExactSvmPayloadSchema>;
 
+// x402UptoSvmExtra
+export const UptoSvmExtraSchema = z.object({
+  // the facilitator that pays the transaction fees and is approved as the delegate
+  feePayer: z.string().regex(SvmAddressRegex),
+  // the amount to settle in atomic units, set by the resource server once the usage is known
+  settleAmount: z.string().refine(isInteger).optional(),
+  // the decimals of the asset that the resource server priced the payment with
+  decimals: z.number().int().nonnegative().optional(),
+  // the maximum compute unit price in microlamports that the facilitator accepts
+  maxComputeUnitPrice: z.string().refine(isInteger).optional(),
+});
+export type UptoSvmExtra = z.infer<typeof UptoSvmExtraSchema>;
+
 // x402PaymentPayload
 export const PaymentPayloadSchema = z.object({
   x402Version: z.number().refine(val => x402Versions.includes(val as 1)),